@@ -1,7 +1,10 @@
 import { ZodTypeAny } from 'zod';
 import { SyncEngine } from './engine';
+import { deepEqual } from './utils/equality';
+import { SchemaError } from './schemas';
+import { PolicyError } from './policy';
 
-/** 
+/**
  * Note: Factories > Classes for ephemeral proxies.
  */
 export function createProxy<T extends object>(engine: SyncEngine, key: string, schema: ZodTypeAny): T {
@@ -11,32 +14,167 @@ export function createProxy<T extends object>(engine: SyncEngine, key: string, s
     const typeName = (schema as any)?._def?.typeName;
     const isArraySchema = typeName === 'ZodArray';
 
-    // DEBUG 
+    // DEBUG
     console.log('[StoreProxy] key:', key, 'typeName:', typeName, 'isArraySchema:', isArraySchema, 'existing:', existing);
 
-    const target = existing ?? (isArraySchema ? [] : {}) as T;
+    return track(engine, key, liveRoot(engine, key, isArraySchema), [], Array.isArray(existing) || (existing == null && isArraySchema));
+}
+
+/** The value of a key as the proxy sees it. */
+interface Root {
+    read(): unknown;
+    write(next: unknown): void;
+    /** Drops a written value the engine refused. */
+    discard(next: unknown): void;
+}
+
+/**
+ * Reads the key through the engine on every access, so remote per-path merges show up in a live
+ * proxy. With E2EE the engine applies a local write only once it is encrypted; until then the
+ * proxy keeps serving what it wrote, unless a remote change lands first.
+ */
+function liveRoot(engine: SyncEngine, key: string, isArraySchema: boolean): Root {
+    // Root values this proxy wrote that the engine does not show yet, oldest first
+    let pending: unknown[] = [];
+    // Engine value the pending writes were made on top of
+    let base: unknown;
+
+    return {
+        read() {
+            const live = engine.get(key);
+            if (pending.length > 0) {
+                const applied = pending.findIndex(value => deepEqual(value, live));
+                if (applied >= 0) {
+                    pending = pending.slice(applied + 1);
+                    base = live;
+                } else if (!deepEqual(live, base)) {
+                    pending = [];
+                }
+            }
+            if (pending.length > 0) return pending[pending.length - 1];
+            return live ?? (isArraySchema ? [] : {});
+        },
+        write(next) {
+            if (pending.length === 0) base = engine.get(key);
+            pending.push(next);
+        },
+        discard(next) {
+            pending = pending.filter(value => value !== next);
+        },
+    };
+}
+
+const isPlainObject = (v: unknown): v is object =>
+    typeof v === 'object' && v !== null && !Array.isArray(v) && !(v instanceof Uint8Array);
+
+const DELETE = Symbol('delete');
+
+/** The node at `path` inside `value`, if there is one. */
+function nodeAt(value: unknown, path: string[]): unknown {
+    return path.reduce<unknown>((node, prop) => (node as Record<string, unknown> | undefined)?.[prop], value);
+}
+
+/** A copy of `root` with `path` set to `value` (or removed), creating objects along the way. */
+function withPath(root: unknown, path: string[], value: unknown): unknown {
+    if (path.length === 0) return value;
+    const copy: any = structuredClone(root ?? {});
+    let node = copy;
+    for (const prop of path.slice(0, -1)) {
+        if (!isPlainObject(node[prop]) && !Array.isArray(node[prop])) node[prop] = {};
+        node = node[prop];
+    }
+    const last = path[path.length - 1];
+    if (value === DELETE) delete node[last];
+    else node[last] = value;
+    return copy;
+}
+
+/** Makes `target` an exact shallow copy of `node`. */
+function mirror(target: any, node: unknown): void {
+    if (Array.isArray(target)) {
+        target.length = 0;
+        if (Array.isArray(node)) target.push(...node);
+        return;
+    }
+    for (const prop of Object.keys(target)) delete target[prop];
+    if (isPlainObject(node)) Object.assign(target, node);
+}
+
+/**
+ * Proxies the node at `path` inside the value of `key` so writes sync at field granularity.
+ * Objects recurse and write per path; arrays are synced as a whole at their own path.
+ *
+ * The proxy target is only a mirror: every trap refreshes it from the current value first.
+ */
+function track<T extends object>(engine: SyncEngine, key: string, root: Root, path: string[], isArray: boolean): T {
+    const target: any = isArray ? [] : {};
+    const current = () => nodeAt(root.read(), path);
+    const refresh = () => {
+        mirror(target, current());
+        return target;
+    };
+
+    // Shows `next` right away, and takes it back if the engine refuses the write behind it
+    const commit = (next: unknown, write: () => Promise<unknown>) => {
+        root.write(next);
+        write().catch(e => {
+            root.discard(next);
+            // Schema and policy refusals already went out as an `error` event
+            if (!(e instanceof SchemaError) && !(e instanceof PolicyError)) console.error('[NMeshed] Store write failed', e);
+        });
+    };
+
+    // Arrays are LWW leaves: any change re-sends the array (the whole value at the root)
+    const syncArray = (arr: unknown[]) => {
+        commit(withPath(root.read(), path, arr), () => path.length === 0 ? engine.set(key, arr) : engine.setPath(key, path, arr));
+    };
+    const arrayCopy = (): unknown[] => {
+        const node = current();
+        return Array.isArray(node) ? [...node] : [];
+    };
 
     return new Proxy(target, {
-        get: (obj, prop) => (Array.isArray(obj) && prop === 'push')
-            ? (...items: any[]) => {
-                // Mutate local
-                const newLength = Array.prototype.push.apply(obj, items);
-                // Sync (Optimistic LWW -> ListOp Pending)
-                engine.set(key, obj);
-                return newLength;
+        get: (_, prop) => {
+            const obj = refresh();
+            if (isArray && prop === 'push') {
+                return (...items: any[]) => {
+                    const next = [...arrayCopy(), ...items];
+                    // Sync (Optimistic LWW -> ListOp Pending)
+                    syncArray(next);
+                    return next.length;
+                };
+            }
+            const value = Reflect.get(obj, prop);
+            if (typeof prop === 'string' && !isArray && (isPlainObject(value) || Array.isArray(value))) {
+                return track(engine, key, root, [...path, prop], Array.isArray(value));
             }
-            : Reflect.get(obj, prop),
+            return value;
+        },
 
-        set: (obj, prop, value) => {
-            const success = Reflect.set(obj, prop, value);
-            if (success) engine.set(key, obj);
-            return success;
+        set: (_, prop, value) => {
+            if (isArray) {
+                const next = arrayCopy();
+                if (!Reflect.set(next, prop, value)) return false;
+                syncArray(next);
+            } else if (typeof prop === 'string') {
+                commit(withPath(root.read(), [...path, prop], value), () => engine.setPath(key, [...path, prop], value));
+            }
+            return true;
+        },
+
+        deleteProperty: (_, prop) => {
+            if (isArray) {
+                const next = arrayCopy();
+                if (!Reflect.deleteProperty(next, prop)) return false;
+                syncArray(next);
+            } else if (typeof prop === 'string') {
+                commit(withPath(root.read(), [...path, prop], DELETE), () => engine.deletePath(key, [...path, prop]));
+            }
+            return true;
         },
 
-        deleteProperty: (obj, prop) => {
-            const success = Reflect.deleteProperty(obj, prop);
-            if (success) engine.set(key, obj);  // Sync the deletion!
-            return success;
-        }
+        has: (_, prop) => Reflect.has(refresh(), prop),
+        ownKeys: () => Reflect.ownKeys(refresh()),
+        getOwnPropertyDescriptor: (_, prop) => Reflect.getOwnPropertyDescriptor(refresh(), prop),
     });
 }
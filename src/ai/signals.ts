@@ -8,14 +8,16 @@
  * This module implements a **Distributed Job Queue** using CRDTs and Atomic CAS.
  * 
  * ## Distributed Locking
- * We use `client.cas` (Compare-And-Swap) to ensure that even if 5 agents try to claim a task simultaneously,
- * **exactly one** will succeed.
+ * A claim is a lease (`client.locks`), so that even if 5 agents try to claim a task simultaneously,
+ * **exactly one** will succeed. The worker renews it while the handler runs; if the worker
+ * crashes, the lease runs out and the task can be claimed again.
  * 
  * ## Lifecycle
  * ```mermaid
  * stateDiagram-v2
  *     [*] --> Pending: Add Signal
- *     Pending --> Claimed: Agent CAS Success
+ *     Pending --> Claimed: Agent Lease Acquired
+ *     Claimed --> Claimed: Lease Expired, Reclaimed
  *     Claimed --> Completed: Agent Finish
  *     Claimed --> Failed: Agent Error
  * ```
@@ -27,6 +29,12 @@ import { useNMeshed } from '../react/context';
 
 export type SignalStatus = 'pending' | 'claimed' | 'completed' | 'failed';
 
+/** Lease duration of a claim; the worker renews it at half that while the handler runs. */
+const CLAIM_TTL_MS = 30_000;
+
+/** Lock name of the claim on a signal. */
+const claimLock = (queueId: string, id: string) => `signals.${queueId}.${id}`;
+
 /**
  * Represents a discrete unit of work distributed across the mesh.
  */
@@ -112,8 +120,9 @@ export function useSignalQueue<T = any>(queueId: string): SignalQueueHook<T> {
     ) => {
         if (!client) return;
 
+        // Claims whose lease ran out (the worker crashed) are up for grabs again
         const pending = Object.values(signals).filter(s =>
-            s.type === type && s.status === 'pending'
+            s.type === type && (s.status === 'pending' || (s.status === 'claimed' && !client.locks.isLocked(claimLock(queueId, s.id))))
         );
 
         if (pending.length === 0) return;
@@ -160,42 +169,44 @@ async function processSingleSignal<T>(
     handler: (payload: T) => Promise<any>,
     setSignal: (id: string, val: Signal<T>) => void
 ) {
-    // 1. Prepare Lease
+    // 1. Atomic Acquisition (Lease)
+    // We never optimistically update local state here. We trust the engine.
+    // If another worker holds the claim, we silently bail.
+    const lease = await client.locks.acquire(claimLock(queueId, signal.id), { ttl: CLAIM_TTL_MS });
+    if (!lease) return; // Lost the race.
+
+    // The view we picked the signal from may be stale: it must still be open on the server
+    const fullKey = `signals.${queueId}.${signal.id}`;
+    const current: Signal<T> = client.get(fullKey) ?? signal;
     const claimedSignal: Signal<T> = {
-        ...signal,
+        ...current,
         status: 'claimed',
         claimedBy: peerId,
         claimedAt: Date.now()
     };
+    const open = current.status === 'pending' || current.status === 'claimed';
+    if (!open || !await client.cas(fullKey, current, claimedSignal)) {
+        await lease.release();
+        return;
+    }
 
-    // 2. Atomic Acquisition (CAS)
-    // We never optimistically update local state here. We trust the engine.
-    // If CAS fails, we silently bail.
-    const fullKey = `signals.${queueId}.${signal.id}`;
-    const success = await client.cas(fullKey, signal, claimedSignal);
-
-    if (!success) return; // Lost the race.
-
-    // 3. Execution
+    // 2. Execution, keeping the lease alive
+    const renewal = setInterval(() => {
+        lease.renew().catch((e: unknown) => console.error('[NMeshed] Renewing signal claim failed', e));
+    }, CLAIM_TTL_MS / 2);
+    let outcome: Signal<T>;
     try {
         const result = await handler(signal.payload);
-
-        // 4. Completion
-        // We own the lock. We finalize the state.
-        // Optimization: Use `setSignal` (which uses `client.set` internally) to handle prefixing.
-        // Ideally we'd use `client.cas` again to ensure we don't overwrite if status changed,
-        // but for now, we assume we are the owner.
-        setSignal(signal.id, {
-            ...claimedSignal,
-            status: 'completed',
-            result
-        });
+        outcome = { ...claimedSignal, status: 'completed', result };
     } catch (err: any) {
-        // 5. Failure Management
-        setSignal(signal.id, {
-            ...claimedSignal,
-            status: 'failed',
-            error: err.message || String(err)
-        });
+        outcome = { ...claimedSignal, status: 'failed', error: err.message || String(err) };
+    } finally {
+        clearInterval(renewal);
     }
+
+    // 3. Completion
+    // Only while we still own the claim: if the lease lapsed, another worker has the task.
+    if (!await lease.renew()) return;
+    setSignal(signal.id, outcome);
+    await lease.release();
 }
@@ -0,0 +1,184 @@
+/**
+ * @module Awareness
+ * @description
+ * Ephemeral per-peer state: cursor positions, selections, "is typing" flags.
+ *
+ * Unlike `client.set()`, awareness state never reaches storage, the op log or the offline
+ * queue. It only exists while its peer is connected, and only the latest state is ever sent.
+ * It travels as a Relay Signal carrying a msgpack body:
+ * - `{ state }` announces or replaces the sender's state (`null` clears it),
+ * - an empty body means the sender left: sent by `disconnect()`, and by the server when a
+ *   peer's socket drops. The peer's state is then removed.
+ *
+ * A peer that crashes may never send or cause either, so every peer re-broadcasts its state
+ * every `heartbeatInterval` (`{ state, renew: true }`), and drops the peers it has not heard
+ * from for `peerTimeout`.
+ *
+ * A peer joins once it first uses awareness (`set()` or `subscribe()`), and again on every
+ * reconnect: it broadcasts its state, and every peer that did not know it yet answers with its
+ * own state, addressed to the newcomer only, so both sides are caught up after one round trip.
+ * Clients that never use awareness send nothing.
+ *
+ * @example
+ * ```ts
+ * client.awareness.set({ cursor: { x: 10, y: 20 }, typing: false });
+ * client.awareness.subscribe((peerId, state) => renderCursor(peerId, state));
+ * ```
+ */
+
+import { encodeValue, decodeValue, encodeRelay } from './protocol';
+import type { EncryptionAdapter } from './encryption';
+import type { Transport } from './types';
+
+/** Called when a remote peer's state changes. `state` is `null` once it cleared it or left. */
+export type AwarenessListener<T = unknown> = (peerId: string, state: T | null) => void;
+
+interface AwarenessMessage {
+    state: unknown;
+    /** Set on the answer to a newcomer, so it is not answered in turn */
+    reply?: boolean;
+    /** Set on heartbeats: the state is unchanged, the sender is still there */
+    renew?: boolean;
+}
+
+const DEFAULT_HEARTBEAT_INTERVAL = 15_000;
+const DEFAULT_PEER_TIMEOUT = 45_000;
+
+export interface AwarenessOptions {
+    encryption?: EncryptionAdapter;
+    /** How often this peer re-broadcasts its state, in ms (default 15s) */
+    heartbeatInterval?: number;
+    /** How long a silent peer is kept before its state is dropped, in ms (default 45s) */
+    peerTimeout?: number;
+}
+
+export class Awareness<T = unknown> {
+    private peerId: string;
+    private transport: Pick<Transport, 'send' | 'isConnected'>;
+    private options: AwarenessOptions;
+    private localState: T | null = null;
+    private joined = false;
+    // Every peer heard from since it connected, with or without a state: when it was last heard from
+    private peers = new Map<string, number>();
+    private heartbeat: ReturnType<typeof setInterval> | null = null;
+    private states = new Map<string, T>();
+    private listeners = new Set<AwarenessListener<T>>();
+
+    constructor(peerId: string, transport: Pick<Transport, 'send' | 'isConnected'>, options: AwarenessOptions = {}) {
+        this.peerId = peerId;
+        this.transport = transport;
+        this.options = options;
+    }
+
+    /**
+     * Replaces this peer's state and broadcasts it. While offline it is only kept, and sent
+     * when the connection opens; intermediate states are never queued.
+     */
+    set(state: T | null): void {
+        this.localState = state;
+        this.joined = true;
+        if (this.transport.isConnected()) {
+            this.send({ state });
+            this.startHeartbeat();
+        }
+    }
+
+    /** This peer's own state. */
+    getLocalState(): T | null {
+        return this.localState;
+    }
+
+    /** States of the connected remote peers, by peer ID. */
+    getStates(): Record<string, T> {
+        return Object.fromEntries(this.states);
+    }
+
+    /**
+     * Notifies `listener` whenever a remote peer's state changes.
+     * @returns Unsubscribe function.
+     */
+    subscribe(listener: AwarenessListener<T>): () => void {
+        this.listeners.add(listener);
+        if (!this.joined) {
+            this.joined = true;
+            this.connected();
+        }
+        return () => this.listeners.delete(listener);
+    }
+
+    /** Handles a Relay Signal from `fromPeer`. */
+    async receive(fromPeer: string, data: Uint8Array): Promise<void> {
+        if (fromPeer === this.peerId) return;
+        if (data.length === 0) {
+            this.remove(fromPeer);
+            return;
+        }
+
+        if (this.options.encryption) data = await this.options.encryption.decrypt(data);
+        const message = decodeValue<AwarenessMessage>(data);
+
+        const isNew = !this.peers.has(fromPeer);
+        this.peers.set(fromPeer, Date.now());
+        if (message.renew && !isNew) return;
+
+        if (message.state === null || message.state === undefined) {
+            this.states.delete(fromPeer);
+        } else {
+            this.states.set(fromPeer, message.state as T);
+        }
+        this.notify(fromPeer, (message.state ?? null) as T | null);
+
+        if (isNew && !message.reply && this.joined) this.send({ state: this.localState, reply: true }, fromPeer);
+    }
+
+    /** Announces this peer once the connection is open. */
+    connected(): void {
+        if (!this.joined || !this.transport.isConnected()) return;
+        this.send({ state: this.localState });
+        this.startHeartbeat();
+    }
+
+    /** Forgets every remote peer: their states are stale once this peer lost its connection. */
+    disconnected(): void {
+        if (this.heartbeat) clearInterval(this.heartbeat);
+        this.heartbeat = null;
+        [...this.peers.keys()].forEach(peerId => this.remove(peerId));
+    }
+
+    /** Tells the other peers this one is leaving, and forgets them. */
+    leave(): void {
+        if (this.joined && this.transport.isConnected()) this.transport.send(encodeRelay(this.peerId, new Uint8Array()));
+        this.disconnected();
+    }
+
+    private remove(peerId: string): void {
+        if (!this.peers.delete(peerId)) return;
+        const hadState = this.states.delete(peerId);
+        if (hadState) this.notify(peerId, null);
+    }
+
+    /** Renews this peer's presence on every beat, and drops the peers that went silent. */
+    private startHeartbeat(): void {
+        if (this.heartbeat) return;
+        this.heartbeat = setInterval(() => {
+            if (!this.transport.isConnected()) return;
+            this.send({ state: this.localState, renew: true });
+            const cutoff = Date.now() - (this.options.peerTimeout ?? DEFAULT_PEER_TIMEOUT);
+            for (const [peerId, lastSeen] of this.peers) {
+                if (lastSeen < cutoff) this.remove(peerId);
+            }
+        }, this.options.heartbeatInterval ?? DEFAULT_HEARTBEAT_INTERVAL);
+    }
+
+    private notify(peerId: string, state: T | null): void {
+        this.listeners.forEach(listener => listener(peerId, state));
+    }
+
+    private send(message: AwarenessMessage, toPeer?: string): void {
+        (async () => {
+            let data = encodeValue(message);
+            if (this.options.encryption) data = await this.options.encryption.encrypt(data);
+            this.transport.send(encodeRelay(this.peerId, data, toPeer));
+        })().catch(e => console.error('[NMeshed] Awareness broadcast failed', e));
+    }
+}
@@ -0,0 +1,170 @@
+/**
+ * @module Branch
+ * @description
+ * Local branches ("draft mode"): a batch of edits kept aside from the main state until published.
+ *
+ * A branch holds its own writes and nothing else. Reads overlay them on the live state, so a
+ * branch keeps seeing remote changes to keys it has not touched. Nothing is sent until
+ * `merge()`, which publishes every branch write as one transaction with a fresh HLC timestamp:
+ * peers receive it all-or-nothing, and it wins over anything written before it (LWW), including
+ * writes made to the main state after the fork. `discard()` drops the writes instead and closes
+ * the branch. `subscribe` and `subscribePrefix` report changes to what the branch shows: its own
+ * writes, and remote changes to keys it has not touched.
+ *
+ * Branches live in memory only; unmerged writes are lost when the page is closed.
+ *
+ * @example
+ * ```ts
+ * const draft = client.fork('pricing-draft');
+ * draft.set('plans.pro.price', 24);
+ * preview(draft.get('plans.pro'));
+ * await (approved ? draft.merge() : draft.discard());
+ * ```
+ */
+
+import type { Transaction } from './types';
+import type { SchemaError } from './schemas';
+
+/** What a branch needs from the client. */
+export interface BranchSource {
+    get<T = unknown>(key: string): T | undefined;
+    getByPrefix(prefix: string): Record<string, unknown>;
+    transaction(fn: (tx: Transaction) => void): Promise<void>;
+    /** Checks a write against the schema registered for `key` */
+    validate(key: string, value: unknown): SchemaError | null;
+    subscribe(key: string, callback: () => void): () => void;
+    subscribePrefix(prefix: string, callback: (key: string, value: unknown) => void): () => void;
+    /** Forgets a discarded branch, so that forking its name opens a new one */
+    close(branch: Branch): void;
+}
+
+export class Branch {
+    readonly name: string;
+    private source: BranchSource;
+    // Branch writes by key; null is a delete
+    private writes = new Map<string, unknown>();
+    // Told about every change to a branch write, with the value the branch shows now
+    private listeners = new Set<(key: string, value: unknown) => void>();
+    private discarded = false;
+
+    /** @internal Created by `NMeshedClient.fork`. */
+    constructor(source: BranchSource, name: string) {
+        this.source = source;
+        this.name = name;
+    }
+
+    /** The branch value of `key` if it was written here, the live value otherwise. */
+    get<T = unknown>(key: string): T | undefined {
+        if (!this.writes.has(key)) return this.source.get<T>(key);
+        const value = this.writes.get(key);
+        return value === null ? undefined : structuredClone(value) as T;
+    }
+
+    /** The key-value pairs under `prefix`, with the branch writes applied (deletes as `null`, like the live state). */
+    getByPrefix(prefix: string): Record<string, unknown> {
+        const result = this.source.getByPrefix(prefix);
+        for (const [key, value] of this.writes) {
+            if (key.startsWith(prefix)) result[key] = structuredClone(value);
+        }
+        return result;
+    }
+
+    /**
+     * Writes `value` on the branch only.
+     * @throws {SchemaError} If a schema is registered for `key` and the value does not match it.
+     * @throws If the branch was discarded.
+     */
+    set<T = unknown>(key: string, value: T): void {
+        this.assertOpen();
+        const invalid = this.source.validate(key, value);
+        if (invalid) throw invalid;
+        this.writes.set(key, structuredClone(value));
+        this.notify(key);
+    }
+
+    /**
+     * Deletes `key` on the branch only.
+     * @throws If the branch was discarded.
+     */
+    delete(key: string): void {
+        this.assertOpen();
+        this.writes.set(key, null);
+        this.notify(key);
+    }
+
+    /**
+     * Calls `callback` whenever the value the branch shows for `key` changes.
+     * @returns Unsubscribe function.
+     */
+    subscribe(key: string, callback: () => void): () => void {
+        const listener = (changed: string) => { if (changed === key) callback(); };
+        this.listeners.add(listener);
+        // Live changes are hidden while the branch has its own write
+        const unsubscribe = this.source.subscribe(key, () => { if (!this.writes.has(key)) callback(); });
+        return () => {
+            this.listeners.delete(listener);
+            unsubscribe();
+        };
+    }
+
+    /**
+     * Calls `callback` with each key under `prefix` whose value on the branch changes, and the
+     * new value (`null` for a delete).
+     * @returns Unsubscribe function.
+     */
+    subscribePrefix(prefix: string, callback: (key: string, value: unknown) => void): () => void {
+        const listener = (key: string, value: unknown) => { if (key.startsWith(prefix)) callback(key, value); };
+        this.listeners.add(listener);
+        const unsubscribe = this.source.subscribePrefix(prefix, (key, value) => { if (!this.writes.has(key)) callback(key, value); });
+        return () => {
+            this.listeners.delete(listener);
+            unsubscribe();
+        };
+    }
+
+    /** The writes not merged yet, by key (`null` for a delete). */
+    getChanges(): Record<string, unknown> {
+        return Object.fromEntries(this.writes);
+    }
+
+    /**
+     * Publishes the branch writes as a single transaction and empties the branch.
+     * If the transaction is refused (e.g. by a policy), the writes stay on the branch.
+     * @throws If the branch was discarded.
+     */
+    async merge(): Promise<void> {
+        this.assertOpen();
+        if (this.writes.size === 0) return;
+        const merged = [...this.writes];
+        await this.source.transaction(tx => {
+            for (const [key, value] of merged) {
+                if (value === null) tx.delete(key);
+                else tx.set(key, value);
+            }
+        });
+        // Keep writes made while the transaction was in flight
+        for (const [key, value] of merged) {
+            if (this.writes.get(key) === value) this.writes.delete(key);
+        }
+    }
+
+    /** Throws the branch writes away and closes the branch: it refuses any later write or merge. */
+    discard(): void {
+        if (this.discarded) return;
+        this.discarded = true;
+        const keys = [...this.writes.keys()];
+        this.writes.clear();
+        keys.forEach(key => this.notify(key));
+        this.source.close(this);
+    }
+
+    private assertOpen(): void {
+        if (this.discarded) throw new Error(`[NMeshed] Branch ${this.name} was discarded`);
+    }
+
+    /** Tells listeners the value the branch now shows for `key`. */
+    private notify(key: string): void {
+        const value = this.get(key) ?? null;
+        this.listeners.forEach(listener => listener(key, value));
+    }
+}
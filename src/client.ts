@@ -23,18 +23,30 @@
  */
 
 import { z } from 'zod';
-import type { NMeshedConfig, ConnectionStatus, ClientEvents, EventHandler, INMeshedClient, IStorage, Transport } from './types';
+import type { NMeshedConfig, ConnectionStatus, ClientEvents, EventHandler, INMeshedClient, IStorage, Transport, Operation, ConflictValue, Transaction, SetOptions, QuarantinedValue, HistoryEntry, HistoryQuery } from './types';
+import type { ListItem, TextAnchor } from './crdt';
 import { SyncEngine } from './engine';
 import { WebSocketTransport } from './transport';
-import { encodeOp, decodeMessage, MsgType, encodeValue, encodePing, encodeCAS, encodeInit } from './protocol';
+import { encodeOp, decodeMessage, MsgType, encodeValue, encodePing, encodeCAS, encodeInit, encodeBatch, encodeSyncRequest } from './protocol';
 import { createProxy } from './StoreProxy';
+import { UndoManager, type UndoManagerOptions } from './undo';
+import { LiveQuery, type QueryOptions } from './query';
+import { Awareness } from './awareness';
+import { LockManager, LOCK_PREFIX } from './locks';
+import { Branch } from './branch';
+import { SchemaRegistry } from './schemas';
+import { AccessControl, PolicyError } from './policy';
 import { IndexedDBAdapter } from './adapters/IndexedDBAdapter';
 import { InMemoryAdapter } from './adapters/InMemoryAdapter';
+import { PrefixTrie } from './utils/trie';
 
 // =============================================================================
 // NMeshed Client
 // =============================================================================
 
+/** How long to wait for the reply to a SyncRequest before falling back to a full snapshot */
+const SYNC_TIMEOUT_MS = 5000;
+
 /**
  * The main client class for interacting with the nMeshed service.
  * 
@@ -57,6 +69,21 @@ export class NMeshedClient implements INMeshedClient {
     private unsubscribers: (() => void)[] = [];
     private storage: IStorage;
     private keySubscribers = new Map<string, Set<() => void>>();
+    private prefixSubscribers = new PrefixTrie<(key: string, value: unknown) => void>();
+    private schemas?: SchemaRegistry;
+    private branches = new Map<string, Branch>();
+
+    /**
+     * Ephemeral per-peer state (cursors, "is typing"), broadcast over Relay Signals.
+     * Never persisted or queued, and cleared when a peer disconnects. See {@link Awareness}.
+     */
+    readonly awareness: Awareness;
+
+    /**
+     * Distributed locks with expiring leases and fencing tokens, arbitrated by the server
+     * through {@link NMeshedClient.cas}. See {@link LockManager}.
+     */
+    readonly locks: LockManager;
 
     /**
      * Creates a new instance of the NMeshedClient.
@@ -98,7 +125,15 @@ export class NMeshedClient implements INMeshedClient {
         const peerId = config.userId || this.generatePeerId();
 
         // Initialize engine and transport
-        this.engine = new SyncEngine(peerId, this.storage, this.debug, config.encryption);
+        if (config.schemas) this.schemas = new SchemaRegistry(config.schemas);
+        this.engine = new SyncEngine(peerId, this.storage, this.debug, config.encryption, {
+            multiValuePrefixes: config.multiValuePrefixes,
+            gc: config.gc,
+            accessControl: config.policies ? new AccessControl(config.policies, config.roles) : undefined,
+            authority: config.authority,
+            schemas: this.schemas,
+            history: config.history === true ? {} : config.history || undefined,
+        });
 
         // Generate Trace Parent for Observability (W3C Standard)
         if (!config.traceparent) {
@@ -106,6 +141,14 @@ export class NMeshedClient implements INMeshedClient {
         }
 
         this.transport = config.transport || new WebSocketTransport(config);
+        this.awareness = new Awareness(peerId, this.transport, { encryption: config.encryption });
+
+        this.locks = new LockManager({
+            get: key => this.get(key),
+            cas: (key, expected, newValue) => this.cas(key, expected, newValue),
+            getPeerId: () => this.getPeerId(),
+            now: () => this.engine.now(),
+        });
 
         // Wire up transport to engine
         this.wireTransport();
@@ -208,11 +251,17 @@ export class NMeshedClient implements INMeshedClient {
      * 
      * @param key - The key to set.
      * @param value - The value to store. Must be serializable.
+     * @param options - `ttl` (ms) makes the value expire on every peer, e.g. for presence.
+     * @throws {SchemaError} If a schema is registered for `key` and the value does not match it.
      */
-    set<T = unknown>(key: string, value: T): void {
+    set<T = unknown>(key: string, value: T, options?: SetOptions): void {
         this.log(`set(${key}, ${JSON.stringify(value)})`);
-        this.engine.set(key, value).catch(e => {
-            console.error('[NMeshed] Set operation failed', e);
+        // A value that breaks its schema is the caller's bug: fail here, not in the background
+        const invalid = this.schemas?.validate(key, value, 'local');
+        if (invalid) throw invalid;
+        this.engine.set(key, value, options).catch(e => {
+            // Policy denials already went out as an `error` event
+            if (!(e instanceof PolicyError)) console.error('[NMeshed] Set operation failed', e);
         });
     }
 
@@ -227,7 +276,7 @@ export class NMeshedClient implements INMeshedClient {
      */
     delete(key: string): void {
         this.engine.delete(key).catch(e => {
-            console.error('[NMeshed] Delete operation failed', e);
+            if (!(e instanceof PolicyError)) console.error('[NMeshed] Delete operation failed', e);
         });
     }
 
@@ -236,15 +285,289 @@ export class NMeshedClient implements INMeshedClient {
      * 
      * @remarks
      * Useful for implementing locks, counters, or transactional updates.
-     * This operation is **not** purely local/optimistic. It requires coordination logic.
+     * This operation is **not** purely local/optimistic: the new value shows up locally at once,
+     * but the call only resolves once the server has ruled on it. If the server refuses it, the
+     * local write is rolled back and the value the server holds is applied. Without a verdict
+     * within `casTimeout` it resolves to `false`, but the write stays speculative until the
+     * verdict or a resync settles it. Offline, it resolves to `false` without touching local state.
      * 
      * @param key - The target key.
      * @param expected - The value you expect to currently exist (null if expecting non-existence).
      * @param newValue - The value to set if the expectation matches.
-     * @returns A Promise resolving to `true` if the swap succeeded, `false` otherwise.
+     * @returns A Promise resolving to `true` if the server accepted the swap, `false` otherwise.
      */
     async cas<T = unknown>(key: string, expected: T | null, newValue: T): Promise<boolean> {
-        return this.engine.cas(key, expected, newValue);
+        if (!this.transport.isConnected()) return false;
+        return this.engine.cas(key, expected, newValue, { timeout: this.config.casTimeout });
+    }
+
+    // ---------------------------------------------------------------------------
+    // Replicated Lists
+    // ---------------------------------------------------------------------------
+
+    /**
+     * Inserts an item into the replicated list stored at `key`.
+     * 
+     * @remarks
+     * Unlike `set(key, [...array, item])`, concurrent inserts from different peers are all kept,
+     * and every peer converges on the same order.
+     * 
+     * @param key - The list key.
+     * @param index - Position of the new item (clamped to the list bounds).
+     * @param item - The value to insert. Must be serializable.
+     * @returns A Promise resolving to the stable id of the new item.
+     */
+    async listInsert<T = unknown>(key: string, index: number, item: T): Promise<string> {
+        return this.engine.listInsert(key, index, item);
+    }
+
+    /**
+     * Moves the item at index `from` so that it ends up at index `to`.
+     */
+    async listMove(key: string, from: number, to: number): Promise<void> {
+        return this.engine.listMove(key, from, to);
+    }
+
+    /**
+     * Removes an item from a replicated list by its id.
+     */
+    async listRemove(key: string, id: string): Promise<void> {
+        return this.engine.listRemove(key, id);
+    }
+
+    /**
+     * Returns the items of a replicated list with their stable ids.
+     * `get(key)` returns the same list as plain values.
+     */
+    getListItems<T = unknown>(key: string): ListItem<T>[] {
+        return this.engine.getListItems<T>(key);
+    }
+
+    // ---------------------------------------------------------------------------
+    // Transactions
+    // ---------------------------------------------------------------------------
+
+    /**
+     * Applies several writes atomically.
+     * 
+     * @remarks
+     * All writes are applied locally before any listener runs, and go over the wire as one
+     * packet that receivers apply all-or-nothing. Peers never observe a half-applied change,
+     * such as a card that has left one column but not yet arrived in the other.
+     * 
+     * @example
+     * ```ts
+     * await client.transaction(tx => {
+     *     tx.set('columns.todo', todo.filter(id => id !== cardId));
+     *     tx.set('columns.done', [...done, cardId]);
+     * });
+     * ```
+     * 
+     * @param fn - Receives a handle with `set` and `delete`. Must be synchronous.
+     */
+    async transaction(fn: (tx: Transaction) => void): Promise<void> {
+        return this.engine.transaction(fn);
+    }
+
+    /**
+     * Creates an undo/redo manager for this peer's own changes.
+     * 
+     * @remarks
+     * Remote changes are never undone. Call `destroy()` on the manager when it is no longer needed.
+     * 
+     * @param options - Optional key prefix filter and grouping window.
+     */
+    createUndoManager(options?: UndoManagerOptions): UndoManager {
+        return new UndoManager(this.engine, options);
+    }
+
+    /**
+     * Runs a live query: the values under `prefix` that pass `where`, sorted by `orderBy`,
+     * at most `limit` of them.
+     * 
+     * @remarks
+     * The result set is maintained incrementally as ops arrive. Call `destroy()` on the query
+     * when it is no longer needed.
+     * 
+     * @example
+     * ```ts
+     * const open = client.query<Todo>({ prefix: 'todos.', where: t => !t.done, orderBy: 'createdAt' });
+     * open.subscribe(() => console.log(open.getResults()));
+     * ```
+     */
+    query<T = unknown>(options: QueryOptions<T> = {}): LiveQuery<T> {
+        return new LiveQuery<T>(this, options);
+    }
+
+    /**
+     * Opens the local branch `name` (or returns it if already open): a draft whose writes stay
+     * off the main state until `merge()` publishes them as one transaction, or `discard()`
+     * drops them.
+     *
+     * @remarks
+     * Reads on the branch overlay its writes on the live state. Branches are kept in memory only;
+     * a discarded branch is closed, and forking its name again opens a new one.
+     *
+     * @example
+     * ```ts
+     * const draft = client.fork('pricing-draft');
+     * draft.set('plans.pro.price', 24);
+     * await draft.merge();
+     * ```
+     */
+    fork(name: string): Branch {
+        let branch = this.branches.get(name);
+        if (!branch) {
+            branch = new Branch({
+                get: key => this.get(key),
+                getByPrefix: prefix => this.getByPrefix(prefix),
+                transaction: fn => this.transaction(fn),
+                validate: (key, value) => this.schemas?.validate(key, value, 'local') ?? null,
+                subscribe: (key, callback) => this.subscribe(key, callback),
+                subscribePrefix: (prefix, callback) => this.subscribePrefix(prefix, callback),
+                close: closed => { if (this.branches.get(name) === closed) this.branches.delete(name); },
+            }, name);
+            this.branches.set(name, branch);
+        }
+        return branch;
+    }
+
+    // ---------------------------------------------------------------------------
+    // Conflicts (Multi-Value Keys)
+    // ---------------------------------------------------------------------------
+
+    /**
+     * Returns the concurrent values of a key configured in `multiValuePrefixes`, newest first.
+     * 
+     * @remarks
+     * `get(key)` keeps returning the newest value; this exposes the ones that would otherwise
+     * have been overwritten. Empty when there is no conflict. Listen to the `conflict` event to be
+     * notified when one appears.
+     */
+    getConflicts(key: string): ConflictValue[] {
+        return this.engine.getConflicts(key);
+    }
+
+    /**
+     * Collapses the conflicting values of `key` into a single `value` and syncs it.
+     */
+    async resolve<T = unknown>(key: string, value: T): Promise<void> {
+        await this.engine.resolve(key, value);
+    }
+
+    // ---------------------------------------------------------------------------
+    // Schemas
+    // ---------------------------------------------------------------------------
+
+    /**
+     * Remote values that failed the schema registered for their key, the latest per key.
+     * They are kept here instead of entering live state, and were reported as `error` events.
+     */
+    getQuarantined(): QuarantinedValue[] {
+        return this.engine.getQuarantined();
+    }
+
+    // ---------------------------------------------------------------------------
+    // History
+    // ---------------------------------------------------------------------------
+
+    /**
+     * Past values of `key`, oldest first, each with the HLC timestamp and peer that wrote it.
+     * A deleted key shows a `null` value; a value written with a TTL carries its `expiresAt`.
+     *
+     * @remarks
+     * Requires `history` in the config. Only writes seen by this client are known, up to
+     * `maxVersions` per key.
+     *
+     * @example
+     * ```ts
+     * const lastTen = client.history('doc.title', { since: checkpoint, limit: 10 });
+     * ```
+     */
+    history<T = unknown>(key: string, query: HistoryQuery = {}): HistoryEntry<T>[] {
+        return this.engine.getHistory(key, query) as HistoryEntry<T>[];
+    }
+
+    /**
+     * Every key with history, as it was at HLC time `timestamp`. Keys deleted, expired (or not
+     * yet written) by then are left out. Requires `history` in the config.
+     */
+    stateAt(timestamp: bigint): Record<string, unknown> {
+        return this.engine.stateAt(timestamp);
+    }
+
+    /**
+     * Writes the value `key` had at HLC time `timestamp` back as a new op, which syncs like any
+     * other write. A value written with a TTL gets the same TTL again. Requires `history` in the
+     * config.
+     *
+     * @throws If no value of `key` at or before `timestamp` is known.
+     */
+    async restore(key: string, timestamp: bigint): Promise<void> {
+        await this.engine.restore(key, timestamp);
+    }
+
+    // ---------------------------------------------------------------------------
+    // Counters
+    // ---------------------------------------------------------------------------
+
+    /**
+     * Increments the counter stored at `key`.
+     * 
+     * @remarks
+     * Unlike `set(key, n + 1)`, concurrent increments from different peers are never lost:
+     * each peer's totals are tracked separately and summed. `get(key)` returns the current number.
+     * 
+     * @param key - The counter key.
+     * @param delta - Amount to add. Use a negative number to decrement. Defaults to 1.
+     */
+    async increment(key: string, delta = 1): Promise<void> {
+        return this.engine.increment(key, delta);
+    }
+
+    // ---------------------------------------------------------------------------
+    // Collaborative Text
+    // ---------------------------------------------------------------------------
+
+    /**
+     * Inserts characters into the collaborative text stored at `key`.
+     * 
+     * @remarks
+     * Edits are character-level: two peers typing in the same document at the same time both
+     * keep their keystrokes. `get(key)` returns the current text as a plain string.
+     * 
+     * @param key - The text key.
+     * @param index - Position to insert at, in UTF-16 code units like `input.selectionStart`
+     *   (clamped to the text length).
+     * @param text - The characters to insert.
+     */
+    async textInsert(key: string, index: number, text: string): Promise<void> {
+        return this.engine.textInsert(key, index, text);
+    }
+
+    /**
+     * Deletes `length` UTF-16 code units starting at `index`. An offset inside a surrogate pair
+     * (e.g. an emoji) moves to the end of it, so a pair is never split.
+     */
+    async textDelete(key: string, index: number, length: number): Promise<void> {
+        return this.engine.textDelete(key, index, length);
+    }
+
+    /**
+     * Captures a cursor/selection position that stays attached to the surrounding text
+     * while remote peers insert or delete before it.
+     * 
+     * @returns An opaque anchor. Convert it back with {@link resolveTextAnchor}.
+     */
+    textAnchor(key: string, index: number): TextAnchor {
+        return this.engine.textAnchor(key, index);
+    }
+
+    /**
+     * Returns the current UTF-16 offset of an anchor created with {@link textAnchor}.
+     */
+    resolveTextAnchor(key: string, anchor: TextAnchor): number {
+        return this.engine.resolveTextAnchor(key, anchor);
     }
 
     /**
@@ -319,6 +642,32 @@ export class NMeshedClient implements INMeshedClient {
         };
     }
 
+    /**
+     * Subscribes to changes on every key starting with `prefix`.
+     *
+     * @remarks
+     * Dispatch walks a prefix trie, so its cost depends on the key length, not on how many
+     * prefixes are subscribed. Use it for collections (`'cursors.'`) instead of filtering global 'op' events.
+     *
+     * @param prefix - The key prefix to watch (`''` watches every key).
+     * @param callback - Called with the changed key and its new value (`null` when deleted).
+     * @returns Unsubscribe function.
+     */
+    subscribePrefix(prefix: string, callback: (key: string, value: unknown) => void): () => void {
+        this.prefixSubscribers.add(prefix, callback);
+        return () => this.prefixSubscribers.delete(prefix, callback);
+    }
+
+    /**
+     * Returns the key-value pairs whose key starts with `prefix`.
+     *
+     * @remarks
+     * Served from the engine's key index, without scanning the whole store.
+     */
+    getByPrefix(prefix: string): Record<string, unknown> {
+        return this.engine.getByPrefix(prefix);
+    }
+
     /**
      * Waits until the client is in the 'ready' state.
      * 
@@ -349,7 +698,9 @@ export class NMeshedClient implements INMeshedClient {
      * 3. Destroys the engine instance.
      */
     disconnect(): void {
+        this.awareness.leave();
         this.unsubscribers.forEach((unsub) => unsub());
+        this.cancelSyncTimeout();
         this.transport.disconnect();
         this.engine.destroy();
     }
@@ -372,7 +723,7 @@ export class NMeshedClient implements INMeshedClient {
         return createProxy(
             this.engine,
             key,
-            this.config.schemas?.[key] || z.any()
+            this.schemas?.get(key)?.schema || z.any()
         ) as T;
     }
 
@@ -414,11 +765,9 @@ export class NMeshedClient implements INMeshedClient {
         const unsubOpen = this.transport.onOpen(() => {
             this.engine.setStatus('connected');
             this.engine.setStatus('syncing');
-            // FIX: Send Init Handshake so server knows to send snapshot
-            this.log('Sending Init Handshake');
-            this.transport.send(encodeInit(new Uint8Array()));
-            this.flushPendingOps();
+            this.requestSync();
             this.startHeartbeat();
+            this.awareness.connected();
         });
         this.unsubscribers.push(unsubOpen);
 
@@ -426,52 +775,51 @@ export class NMeshedClient implements INMeshedClient {
         const unsubClose = this.transport.onClose(() => {
             this.engine.setStatus('reconnecting');
             this.stopHeartbeat();
+            this.cancelSyncTimeout();
+            this.awareness.disconnected();
         });
         this.unsubscribers.push(unsubClose);
 
-        // Auto-Broadcast: Listen to local ops and send them to the server
-        const unsubOp = this.engine.on('op', (key, value, isLocal, timestamp, isReplay, isCAS) => {
-            // optimized dispatch to specific key subscribers
+        // Causal gap: ask for the missing ops now instead of waiting for the next reconnect.
+        // During the handshake the reply to the pending sync request covers it.
+        const unsubGap = this.engine.on('gap', () => {
+            if (this.transport.isConnected() && this.engine.getStatus() !== 'syncing') {
+                this.requestSync();
+            }
+        });
+        this.unsubscribers.push(unsubGap);
+
+        // Key Dispatch: optimized fan-out to specific key and prefix subscribers
+        const unsubOp = this.engine.on('op', (key, value) => {
             const subscribers = this.keySubscribers.get(key);
             if (subscribers) {
                 subscribers.forEach(cb => cb());
             }
+            // Lease records only reach subscriptions to a prefix inside LOCK_PREFIX
+            this.prefixSubscribers.matching(key, key.startsWith(LOCK_PREFIX) ? LOCK_PREFIX.length : 0).forEach(cb => cb(key, value));
+        });
+        this.unsubscribers.push(unsubOp);
 
-            // Replay Suppression (Bug 5 Fix)
-            if (isReplay) return;
-
-            // CAS Suppression (Fix for Double-Write)
-            // If this op was generated by a CAS, we do NOT broadcast it as a blind Op.
-            // The 'cas' event will handle the network transmission.
-            if (isCAS) return;
-
-            // DEBUG: Log op propagation
-            if (isLocal) {
-                const connected = this.transport.isConnected();
-                this.log(`Op: ${key} | Local: ${isLocal} | Connected: ${connected}`);
+        // Auto-Broadcast: Send local ops to the server.
+        // The engine only emits these for fresh local writes, so snapshot replays and CAS
+        // (which travels as its own packet) are never double-sent.
+        const unsubOutbound = this.engine.on('outbound', (ops) => {
+            const connected = this.transport.isConnected();
+            this.log(`Outbound: ${ops.map(op => op.key).join(', ')} | Connected: ${connected}`);
 
-                if (connected) {
-                    // Send operation to server
-                    // Use async IIFE to handle potential encryption overhead without blocking handling loop
-                    (async () => {
-                        let payload = encodeValue(value);
-                        let isEncrypted = false;
-                        if (this.config.encryption) {
-                            payload = await this.config.encryption.encrypt(payload);
-                            isEncrypted = true;
-                        }
-                        // Bug 4 Fix: Use the actual timestamp from the engine!
-                        const ts = timestamp || BigInt(Date.now());
-                        const wireData = encodeOp(key, payload, ts, isEncrypted, this.engine.getPeerId());
-                        this.transport.send(wireData);
-                    })();
+            if (!connected) {
+                this.log(`Queueing ${ops.length} Op(s) (Offline)`);
+                return;
+            }
 
-                } else {
-                    this.log(`Queueing Op (Offline): ${key}`);
+            // Use async IIFE to handle potential encryption overhead without blocking handling loop
+            (async () => {
+                for (const packet of await this.encodeOperations(ops)) {
+                    this.transport.send(packet);
                 }
-            }
+            })();
         });
-        this.unsubscribers.push(unsubOp);
+        this.unsubscribers.push(unsubOutbound);
 
         // Wire CAS
         // @ts-ignore - Engine emits generic events, but we need to declare checking type in Engine if strict.
@@ -483,6 +831,71 @@ export class NMeshedClient implements INMeshedClient {
         this.unsubscribers.push(unsubCas);
     }
 
+    // ---------------------------------------------------------------------------
+    // Resync
+    // ---------------------------------------------------------------------------
+
+    private syncTimeout: ReturnType<typeof setTimeout> | null = null;
+
+    /**
+     * Asks the server to catch this client up.
+     * With a known frontier only the missing ops are requested (SyncRequest, answered by a Sync
+     * packet); without one, or when `full` is set, the full snapshot is requested (Init).
+     * 
+     * @private
+     */
+    private requestSync(full = false): void {
+        const heads = this.engine.getHeads();
+        if (full || heads.length === 0) {
+            this.cancelSyncTimeout();
+            this.log('Sending Init Handshake');
+            this.transport.send(encodeInit(new Uint8Array()));
+            this.flushPendingOps();
+            return;
+        }
+        if (this.syncTimeout) return; // A request is already in flight
+
+        this.log(`Requesting delta sync from ${heads.length} head(s)`);
+        this.transport.send(encodeSyncRequest(heads));
+        this.syncTimeout = setTimeout(() => {
+            this.syncTimeout = null;
+            this.log('Sync request timed out - falling back to snapshot');
+            if (this.transport.isConnected()) this.requestSync(true);
+        }, SYNC_TIMEOUT_MS);
+    }
+
+    private cancelSyncTimeout() {
+        if (this.syncTimeout) clearTimeout(this.syncTimeout);
+        this.syncTimeout = null;
+    }
+
+    /**
+     * Handles the Sync packet that ends a delta resync. The missing ops arrived before it.
+     * 
+     * @private
+     */
+    private async completeSync(snapshot: Uint8Array | undefined, stateVector: Record<string, bigint>, ackSeq: bigint): Promise<void> {
+        this.cancelSyncTimeout();
+
+        // The server could not work out a delta from our heads
+        if (snapshot) await this.engine.loadSnapshot(snapshot);
+        if (ackSeq > 0n) this.engine.acknowledge(ackSeq);
+
+        if (this.engine.hasGap() || this.engine.isBehind(stateVector)) {
+            this.log('Delta sync left a gap - falling back to snapshot');
+            this.requestSync(true);
+            return;
+        }
+        // Everything the server holds has been applied: peers' progress counts for tombstone GC
+        this.engine.mergeVersionVector(stateVector);
+
+        this.flushPendingOps();
+        if (this.engine.getStatus() !== 'ready') {
+            this.engine.setStatus('ready');
+            this.engine.emit('ready');
+        }
+    }
+
     // ---------------------------------------------------------------------------
     // Heartbeat (Ping/Pong)
     // ---------------------------------------------------------------------------
@@ -530,17 +943,53 @@ export class NMeshedClient implements INMeshedClient {
         const ops = this.engine.drainPending();
         if (ops.length > 0) {
             this.log(`Flushing ${ops.length} pending ops`);
-            for (const op of ops) {
-                let payload = encodeValue(op.value);
-                let isEncrypted = false;
-                if (this.config.encryption) {
-                    payload = await this.config.encryption.encrypt(payload);
-                    isEncrypted = true;
+            for (const packet of await this.encodeOperations(ops)) {
+                this.transport.send(packet);
+            }
+        }
+    }
+
+    /**
+     * Encodes local operations for the wire. Consecutive ops sharing a timestamp came from one
+     * transaction and go out together as a single ColumnarBatch packet.
+     * 
+     * @private
+     */
+    private async encodeOperations(ops: Operation[]): Promise<Uint8Array[]> {
+        const packets: Uint8Array[] = [];
+        for (let i = 0; i < ops.length;) {
+            let end = i + 1;
+            while (end < ops.length && ops[end].timestamp === ops[i].timestamp) end++;
+
+            if (end - i === 1) {
+                packets.push(await this.encodeOperation(ops[i]));
+            } else {
+                const batch = [];
+                for (const op of ops.slice(i, end)) {
+                    let payload = encodeValue(op.value);
+                    if (this.config.encryption) payload = await this.config.encryption.encrypt(payload);
+                    batch.push({ key: op.key, payload, timestamp: op.timestamp });
                 }
-                const wireData = encodeOp(op.key, payload, op.timestamp, isEncrypted, this.engine.getPeerId());
-                this.transport.send(wireData);
+                packets.push(encodeBatch(batch, this.engine.getPeerId(), ops[i].deps));
             }
+            i = end;
+        }
+        return packets;
+    }
+
+    /**
+     * Encodes (and encrypts, if configured) a local operation as an Op packet.
+     * 
+     * @private
+     */
+    private async encodeOperation(op: Operation): Promise<Uint8Array> {
+        let payload = encodeValue(op.value);
+        let isEncrypted = false;
+        if (this.config.encryption) {
+            payload = await this.config.encryption.encrypt(payload);
+            isEncrypted = true;
         }
+        return encodeOp(op.key, payload, op.timestamp, isEncrypted, this.engine.getPeerId(), op.deps);
     }
 
     /**
@@ -569,18 +1018,67 @@ export class NMeshedClient implements INMeshedClient {
                 if (msg.payload) {
                     // loadSnapshot is async - properly await it before setting ready status
                     (async () => {
-                        await this.engine.loadSnapshot(msg.payload!, msg.timestamp);
+                        await this.engine.loadSnapshot(msg.payload!, msg.timestamp, msg.authorityKeys);
                         this.engine.setStatus('ready');
                         this.engine.emit('ready');
                     })();
                 }
                 break;
 
+            case MsgType.Sync:
+                // End of a delta resync
+                this.completeSync(msg.payload, msg.stateVector ?? {}, msg.ackSeq ?? 0n)
+                    .catch(e => console.error('[NMeshed] Sync failed', e));
+                break;
+
             case MsgType.Op:
                 // Apply remote operation
                 if (msg.key && msg.payload) {
-                    // Pass timestamp and actorId for proper LWW ordering
-                    this.engine.applyRemote(msg.key, msg.payload, msg.actorId || 'remote', msg.timestamp);
+                    // Pass timestamp and actorId for proper LWW ordering, deps for the causal barrier
+                    this.engine.applyRemote(msg.key, msg.payload, msg.actorId || 'remote', msg.timestamp, msg.deps, msg.isAuthority);
+                }
+                break;
+
+            case MsgType.ColumnarBatch:
+                // Remote transaction: all writes or none
+                if (msg.ops && msg.ops.length > 0) {
+                    this.engine.applyRemoteBatch(msg.ops.map(op => ({
+                        key: op.key,
+                        payload: op.payload,
+                        peerId: op.actorId || 'remote',
+                        timestamp: op.timestamp,
+                    })), msg.deps, msg.isAuthority).catch(e => console.error('[NMeshed] Applying remote transaction failed', e));
+                }
+                break;
+
+            case MsgType.Ack:
+                // The server stored one of our ops: it is no longer speculative
+                if (msg.key && msg.timestamp && (!msg.actorId || msg.actorId === this.getPeerId())) {
+                    this.engine.confirm(msg.key, msg.timestamp);
+                }
+                break;
+
+            case MsgType.Nack:
+                // The server refused one of our CAS requests: take the value it holds instead
+                if (msg.key && msg.timestamp && (!msg.actorId || msg.actorId === this.getPeerId())) {
+                    const current = msg.current && { ...msg.current, peerId: msg.current.actorId };
+                    this.engine.refuse(msg.key, msg.timestamp, current)
+                        .catch(e => console.error('[NMeshed] Applying CAS refusal failed', e));
+                }
+                break;
+
+            case MsgType.Reject:
+                // The server refused one of our ops: roll it back
+                if (msg.key && msg.timestamp && (!msg.actorId || msg.actorId === this.getPeerId())) {
+                    this.engine.reject(msg.key, msg.timestamp, msg.reason);
+                }
+                break;
+
+            case MsgType.Signal:
+                // Relay payloads are awareness updates; the server only forwards them
+                if (msg.actorId && msg.payload && (!msg.toPeer || msg.toPeer === this.getPeerId())) {
+                    this.awareness.receive(msg.actorId, msg.payload)
+                        .catch(e => console.error('[NMeshed] Awareness update failed', e));
                 }
                 break;
 
@@ -0,0 +1,68 @@
+/**
+ * @module Counter
+ * @description
+ * PN-Counter: every replica only ever grows its own increment (`p`) and decrement (`n`) totals.
+ * Merging takes the per-replica maximum, so concurrent increments from different replicas add
+ * up instead of overwriting each other, and re-delivered deltas are harmless.
+ *
+ * A replica is one client (its storage), not one peer id: two devices of the same user each
+ * count in their own slot, and a reload keeps counting in the slot it had.
+ */
+
+import type { Replica } from './index';
+
+/** Per-replica totals. A delta carries only the totals of the replica that changed. */
+export interface CounterDelta {
+    p: Record<string, number>;
+    n: Record<string, number>;
+}
+
+export class CounterReplica implements Replica<number, CounterDelta> {
+    readonly type = 'counter' as const;
+    private p = new Map<string, number>();
+    private n = new Map<string, number>();
+
+    value(): number {
+        let total = 0;
+        for (const v of this.p.values()) total += v;
+        for (const v of this.n.values()) total -= v;
+        return total;
+    }
+
+    state(): CounterDelta {
+        return { p: Object.fromEntries(this.p), n: Object.fromEntries(this.n) };
+    }
+
+    merge(delta: CounterDelta): boolean {
+        const grewP = mergeMax(this.p, delta.p);
+        const grewN = mergeMax(this.n, delta.n);
+        return grewP || grewN;
+    }
+
+    /** Counters carry no HLC ids; ordering is irrelevant to their merge. */
+    clock(): bigint {
+        return 0n;
+    }
+
+    /** Adds `delta` (may be negative) to the totals of `replicaId`. */
+    increment(replicaId: string, delta: number): CounterDelta | null {
+        if (!Number.isFinite(delta) || delta === 0) return null;
+        const totals = delta > 0 ? this.p : this.n;
+        totals.set(replicaId, (totals.get(replicaId) ?? 0) + Math.abs(delta));
+        return {
+            p: { [replicaId]: this.p.get(replicaId) ?? 0 },
+            n: { [replicaId]: this.n.get(replicaId) ?? 0 },
+        };
+    }
+}
+
+function mergeMax(into: Map<string, number>, from: Record<string, number> = {}): boolean {
+    let grew = false;
+    for (const [replica, total] of Object.entries(from)) {
+        if (total > (into.get(replica) ?? 0)) {
+            into.set(replica, total);
+            grew = true;
+        }
+    }
+    return grew;
+}
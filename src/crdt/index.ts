@@ -0,0 +1,73 @@
+/**
+ * @module CRDT
+ * @description
+ * Typed replicated data types that live next to the LWW registers in the {@link SyncEngine}.
+ *
+ * ## Typed Ops on the Wire
+ * A typed key does not ship its whole value on every change. Instead the Op payload carries an
+ * envelope `{ __crdt: <type>, delta: <fragment> }`. Deltas merge commutatively and idempotently,
+ * and a full replica state is encoded the same way, so storage records and snapshots reuse the
+ * exact same format.
+ */
+
+import { ListReplica } from './list';
+import { TextReplica } from './text';
+import { ObjectReplica } from './object';
+import { CounterReplica } from './counter';
+import { MultiValueRegister } from './mvr';
+
+export type CRDTType = 'list' | 'text' | 'object' | 'counter' | 'mvr';
+
+/** Common contract for every typed replica. */
+export interface Replica<V = unknown, D = unknown> {
+    readonly type: CRDTType;
+    /** Materialized value exposed through `get`/`op` */
+    value(): V;
+    /** Full state, encoded as a delta */
+    state(): D;
+    /** Merges a delta. Returns true if the materialized value changed. */
+    merge(delta: D): boolean;
+    /** Highest HLC timestamp embedded in the replica */
+    clock(): bigint;
+}
+
+export interface CRDTEnvelope {
+    __crdt: CRDTType;
+    delta: unknown;
+}
+
+const factories: Record<CRDTType, () => Replica> = {
+    list: () => new ListReplica(),
+    text: () => new TextReplica(),
+    object: () => new ObjectReplica(),
+    counter: () => new CounterReplica(),
+    mvr: () => new MultiValueRegister(),
+};
+
+export function createReplica(type: CRDTType): Replica {
+    return factories[type]();
+}
+
+/** An independent copy of `replica`: later merges into either leave the other untouched. */
+export function cloneReplica(replica: Replica): Replica {
+    const copy = createReplica(replica.type);
+    copy.merge(replica.state());
+    return copy;
+}
+
+export function isCRDTEnvelope(value: unknown): value is CRDTEnvelope {
+    return typeof value === 'object' && value !== null
+        && typeof (value as CRDTEnvelope).__crdt === 'string'
+        && (value as CRDTEnvelope).__crdt in factories;
+}
+
+export function toEnvelope(type: CRDTType, delta: unknown): CRDTEnvelope {
+    return { __crdt: type, delta };
+}
+
+export { RGA, makeElementId, elementPeer, elementTimestamp, type RGAElement, type RGADelta } from './rga';
+export { ListReplica, type ListItem } from './list';
+export { TextReplica, type TextAnchor } from './text';
+export { ObjectReplica, applyPathWrite, type PathWrite, type ObjectDelta } from './object';
+export { CounterReplica, type CounterDelta } from './counter';
+export { MultiValueRegister, type Sibling, type MVRDelta } from './mvr';
@@ -0,0 +1,96 @@
+/**
+ * @module List
+ * @description
+ * Replicated list with stable item identity, built on the {@link RGA}.
+ *
+ * Each item gets an id when it is inserted. A move is a delete of the item's current slot plus an
+ * insert of the same item id at the new position. If two peers move the same item concurrently,
+ * both slots survive the merge; the slot with the highest element id wins and the other is hidden,
+ * so every replica still shows the item exactly once, in the same place.
+ */
+
+import { RGA, RGADelta } from './rga';
+import type { Replica } from './index';
+
+/** A visible list entry. `id` is stable across moves. */
+export interface ListItem<T = unknown> {
+    id: string;
+    value: T;
+}
+
+type Slot = ListItem<unknown>;
+
+export class ListReplica implements Replica<unknown[], RGADelta<Slot>> {
+    readonly type = 'list' as const;
+    private rga = new RGA<Slot>();
+
+    /** Visible items in order, one per item id. */
+    items<T = unknown>(): ListItem<T>[] {
+        return this.visibleSlots().map(({ slot }) => ({ id: slot.id, value: slot.value as T }));
+    }
+
+    value(): unknown[] {
+        return this.visibleSlots().map(({ slot }) => slot.value);
+    }
+
+    state(): RGADelta<Slot> {
+        return this.rga.state();
+    }
+
+    merge(delta: RGADelta<Slot>): boolean {
+        return this.rga.merge(delta);
+    }
+
+    clock(): bigint {
+        return this.rga.clock();
+    }
+
+    /** Inserts a new item at `index`. The item id is the id of its first slot. */
+    insert(index: number, value: unknown, nextId: () => string): { id: string; delta: RGADelta<Slot> } {
+        const id = nextId();
+        const delta = this.rga.insertAfter(this.originFor(index), [{ id, value }], () => id);
+        return { id, delta };
+    }
+
+    /** Moves the item at visible index `from` so that it ends up at visible index `to`. */
+    move(from: number, to: number, nextId: () => string): RGADelta<Slot> | null {
+        const items = this.items();
+        const item = items[from];
+        if (!item || from === to) return null;
+
+        const removed = this.removeSlots(item.id);
+        const inserted = this.rga.insertAfter(this.originFor(to), [{ id: item.id, value: item.value }], nextId);
+        return { ins: inserted.ins, del: removed.del };
+    }
+
+    /** Removes every slot holding the item `id`. */
+    remove(id: string): RGADelta<Slot> | null {
+        const delta = this.removeSlots(id);
+        return delta.del && delta.del.length > 0 ? delta : null;
+    }
+
+    private removeSlots(id: string): RGADelta<Slot> {
+        const slotIds = this.rga.live().filter(el => el.value!.id === id).map(el => el.id);
+        return this.rga.deleteIds(slotIds);
+    }
+
+    /** Element id to insert after so the new slot lands at visible `index`. */
+    private originFor(index: number): string | null {
+        const visible = this.visibleSlots();
+        const clamped = Math.max(0, Math.min(index, visible.length));
+        return clamped === 0 ? null : visible[clamped - 1].elementId;
+    }
+
+    private visibleSlots(): { elementId: string; slot: Slot }[] {
+        const live = this.rga.live();
+        // Concurrent moves can leave several live slots for one item: the highest element id wins.
+        const winners = new Map<string, string>();
+        for (const el of live) {
+            const current = winners.get(el.value!.id);
+            if (!current || el.id > current) winners.set(el.value!.id, el.id);
+        }
+        return live
+            .filter(el => winners.get(el.value!.id) === el.id)
+            .map(el => ({ elementId: el.id, slot: el.value! }));
+    }
+}
@@ -0,0 +1,88 @@
+/**
+ * @module MultiValue
+ * @description
+ * Multi-Value Register: concurrent writes are kept side by side instead of one silently winning.
+ *
+ * Each write gets a dot (HLC timestamp + replica id, see {@link makeElementId}) and records which
+ * dots it has seen, as a per-replica high-water mark. A replica is one client, so two devices of
+ * the same user keep their concurrent writes apart. A value survives a merge unless some write
+ * has seen it. A replica's own writes are sequential, so seeing its dot also covers its older
+ * ones. Writes that did not see each other both remain as siblings until someone resolves them
+ * with a new write.
+ */
+
+import { elementPeer, elementTimestamp } from './rga';
+import type { Replica } from './index';
+
+/** One concurrent value and the dot that wrote it. */
+export interface Sibling {
+    id: string;
+    value: unknown;
+    /** Writer of the value; older dots name the peer themselves */
+    peerId?: string;
+}
+
+/** Wire/storage format: live siblings plus the per-replica dots they superseded. */
+export interface MVRDelta {
+    vals: Sibling[];
+    seen: Record<string, string>;
+}
+
+export class MultiValueRegister implements Replica<unknown, MVRDelta> {
+    readonly type = 'mvr' as const;
+    private vals: Sibling[] = [];
+    private seen = new Map<string, string>();
+
+    /** The newest sibling, so plain `get` keeps returning a single value. */
+    value(): unknown {
+        return this.vals.length > 0 ? this.siblings()[0].value : null;
+    }
+
+    /** Live siblings, newest first. More than one means there is a conflict. */
+    siblings(): Sibling[] {
+        return [...this.vals].sort((a, b) => (a.id > b.id ? -1 : a.id < b.id ? 1 : 0));
+    }
+
+    state(): MVRDelta {
+        return { vals: this.vals.map(v => ({ ...v })), seen: Object.fromEntries(this.seen) };
+    }
+
+    merge(delta: MVRDelta): boolean {
+        const before = this.vals.map(v => v.id).sort().join();
+
+        for (const [peer, id] of Object.entries(delta.seen || {})) this.cover(peer, id);
+        for (const v of delta.vals || []) {
+            if (!this.vals.some(existing => existing.id === v.id)) this.vals.push({ id: v.id, value: v.value, peerId: v.peerId });
+        }
+        this.vals = this.vals.filter(v => !this.isCovered(v.id));
+
+        return this.vals.map(v => v.id).sort().join() !== before;
+    }
+
+    clock(): bigint {
+        let max = 0n;
+        for (const id of [...this.vals.map(v => v.id), ...this.seen.values()]) {
+            const ts = elementTimestamp(id);
+            if (ts > max) max = ts;
+        }
+        return max;
+    }
+
+    /** Replaces every current sibling with `value`, written by `peerId` under the dot `id`. */
+    write(value: unknown, id: string, peerId?: string): MVRDelta {
+        for (const v of this.vals) this.cover(elementPeer(v.id), v.id);
+        const written: Sibling = peerId === undefined ? { id, value } : { id, value, peerId };
+        this.vals = [written];
+        return { vals: [{ ...written }], seen: Object.fromEntries(this.seen) };
+    }
+
+    private cover(replica: string, id: string): void {
+        const current = this.seen.get(replica);
+        if (!current || id > current) this.seen.set(replica, id);
+    }
+
+    private isCovered(id: string): boolean {
+        const mark = this.seen.get(elementPeer(id));
+        return mark !== undefined && id <= mark;
+    }
+}
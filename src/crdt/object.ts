@@ -0,0 +1,125 @@
+/**
+ * @module ObjectMap
+ * @description
+ * JSON object with Last-Write-Wins per path instead of per key.
+ *
+ * Every write targets a path inside the value (`['tasks', 't1', 'title']`) and carries an id
+ * (HLC timestamp + peer id, see {@link makeElementId}). Only the newest write per path is kept,
+ * and a write to a path supersedes older writes below it. The materialized object is rebuilt by
+ * replaying the surviving writes in id order, so two peers editing different fields both keep
+ * their change, while edits to the same field still resolve by LWW.
+ */
+
+import { elementTimestamp } from './rga';
+import type { Replica } from './index';
+
+/** A single path-scoped write. `deleted` writes remove the path. */
+export interface PathWrite {
+    path: string[];
+    id: string;
+    value?: unknown;
+    deleted?: boolean;
+}
+
+/** Wire/storage format: the writes that survived. A full state is just a large delta. */
+export interface ObjectDelta {
+    writes: PathWrite[];
+}
+
+const pathKey = (path: string[]) => JSON.stringify(path);
+
+const isPrefix = (prefix: string[], path: string[]) =>
+    prefix.length <= path.length && prefix.every((seg, i) => path[i] === seg);
+
+const isPlainObject = (v: unknown): v is Record<string, unknown> =>
+    typeof v === 'object' && v !== null && !Array.isArray(v) && !(v instanceof Uint8Array);
+
+export class ObjectReplica implements Replica<unknown, ObjectDelta> {
+    readonly type = 'object' as const;
+    private writes = new Map<string, PathWrite>();
+    private cached: unknown = undefined;
+    private dirty = false;
+    private maxTs = 0n;
+
+    value(): unknown {
+        if (this.dirty) {
+            this.cached = this.materialize();
+            this.dirty = false;
+        }
+        return this.cached;
+    }
+
+    state(): ObjectDelta {
+        return { writes: [...this.writes.values()].map(w => ({ ...w })) };
+    }
+
+    merge(delta: ObjectDelta): boolean {
+        let changed = false;
+        for (const write of delta.writes || []) {
+            if (this.integrate(write)) changed = true;
+        }
+        return changed;
+    }
+
+    clock(): bigint {
+        return this.maxTs;
+    }
+
+    /** Records a local write at `path` (empty path = the whole value). */
+    write(path: string[], value: unknown, id: string): ObjectDelta {
+        const w: PathWrite = value === undefined ? { path, id, deleted: true } : { path, id, value };
+        this.integrate(w);
+        return { writes: [{ ...w }] };
+    }
+
+    private integrate(write: PathWrite): boolean {
+        const key = pathKey(write.path);
+        const current = this.writes.get(key);
+        if (current && current.id >= write.id) return false;
+
+        // Superseded by a newer write to an ancestor path
+        for (const other of this.writes.values()) {
+            if (other.path.length < write.path.length && other.id > write.id && isPrefix(other.path, write.path)) {
+                return false;
+            }
+        }
+        // ...and supersedes older writes below it
+        for (const [k, other] of this.writes) {
+            if (other.path.length > write.path.length && other.id < write.id && isPrefix(write.path, other.path)) {
+                this.writes.delete(k);
+            }
+        }
+
+        this.writes.set(key, write.deleted ? { path: write.path, id: write.id, deleted: true } : { ...write });
+        const ts = elementTimestamp(write.id);
+        if (ts > this.maxTs) this.maxTs = ts;
+        this.dirty = true;
+        return true;
+    }
+
+    private materialize(): unknown {
+        const ordered = [...this.writes.values()].sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+        let root: unknown = undefined;
+        for (const w of ordered) root = applyPathWrite(root, w);
+        return root ?? null;
+    }
+}
+
+/**
+ * Applies a write on top of `root` (modified in place) the way a replica materializes it,
+ * creating objects along the path. Returns the new root.
+ */
+export function applyPathWrite(root: unknown, write: Omit<PathWrite, 'id'>): unknown {
+    const value = write.deleted ? undefined : structuredClone(write.value);
+    if (write.path.length === 0) return value;
+    if (!isPlainObject(root)) root = {};
+    let node = root as Record<string, unknown>;
+    for (const seg of write.path.slice(0, -1)) {
+        if (!isPlainObject(node[seg])) node[seg] = {};
+        node = node[seg] as Record<string, unknown>;
+    }
+    const leaf = write.path[write.path.length - 1];
+    if (write.deleted) delete node[leaf];
+    else node[leaf] = value;
+    return root;
+}
@@ -0,0 +1,192 @@
+/**
+ * @module RGA
+ * @description
+ * Replicated Growable Array — the ordered-sequence CRDT behind lists and text.
+ *
+ * ## How ordering converges
+ * Every element carries a globally unique, totally ordered id (HLC timestamp + peer id) and
+ * remembers the element it was inserted after (its `origin`). When two peers insert after the
+ * same origin concurrently, the element with the higher id is placed first. Because HLC ids of
+ * an element are always greater than the id of its origin, every replica resolves the same order
+ * no matter in which order the inserts arrive.
+ *
+ * Deletes leave tombstones so that late inserts can still anchor to a removed element.
+ */
+
+/** A single slot in the sequence. Tombstones keep `id`/`origin` but drop the value. */
+export interface RGAElement<T> {
+    id: string;
+    origin: string | null;
+    value?: T;
+    deleted?: boolean;
+}
+
+/** Wire/storage format: inserted elements and deleted ids. A full state is just a large delta. */
+export interface RGADelta<T> {
+    ins?: RGAElement<T>[];
+    del?: string[];
+}
+
+const TS_HEX_WIDTH = 32; // 128-bit HLC
+
+/**
+ * Builds an element id that sorts lexicographically by HLC timestamp, then peer id.
+ */
+export function makeElementId(timestamp: bigint, peerId: string): string {
+    return `${timestamp.toString(16).padStart(TS_HEX_WIDTH, '0')}@${peerId}`;
+}
+
+/** Extracts the HLC timestamp from an element id. */
+export function elementTimestamp(id: string): bigint {
+    return BigInt('0x' + id.slice(0, TS_HEX_WIDTH));
+}
+
+/** Extracts the peer id from an element id. */
+export function elementPeer(id: string): string {
+    return id.slice(TS_HEX_WIDTH + 1);
+}
+
+export class RGA<T> {
+    private elements: RGAElement<T>[] = [];
+    private byId = new Map<string, RGAElement<T>>();
+    // Inserts whose origin has not arrived yet, and deletes for unknown ids
+    private orphans: RGAElement<T>[] = [];
+    private earlyDeletes = new Set<string>();
+    private maxTs = 0n;
+
+    /** Live values in document order. */
+    values(): T[] {
+        return this.live().map(el => el.value as T);
+    }
+
+    /** Live elements in document order. */
+    live(): RGAElement<T>[] {
+        return this.elements.filter(el => !el.deleted);
+    }
+
+    /** Highest HLC timestamp seen in any element id. */
+    clock(): bigint {
+        return this.maxTs;
+    }
+
+    has(id: string): boolean {
+        return this.byId.has(id);
+    }
+
+    /**
+     * Number of live elements up to and including `id` (tombstones included as anchors).
+     * `null` is the head of the sequence (offset 0).
+     */
+    offsetAfter(id: string | null): number {
+        if (id === null) return 0;
+        let offset = 0;
+        for (const el of this.elements) {
+            if (!el.deleted) offset++;
+            if (el.id === id) return offset;
+        }
+        return offset;
+    }
+
+    /**
+     * Inserts values after the element `originId` (null = head).
+     * @returns The delta describing the insert.
+     */
+    insertAfter(originId: string | null, values: T[], nextId: () => string): RGADelta<T> {
+        const ins: RGAElement<T>[] = [];
+        let origin = originId;
+        for (const value of values) {
+            const el: RGAElement<T> = { id: nextId(), origin, value };
+            this.integrate(el);
+            ins.push({ ...el });
+            origin = el.id;
+        }
+        return { ins };
+    }
+
+    /**
+     * Inserts values so that the first one ends up at live position `index`.
+     */
+    insertAt(index: number, values: T[], nextId: () => string): RGADelta<T> {
+        const live = this.live();
+        const clamped = Math.max(0, Math.min(index, live.length));
+        const origin = clamped === 0 ? null : live[clamped - 1].id;
+        return this.insertAfter(origin, values, nextId);
+    }
+
+    /** Deletes `count` live elements starting at live position `index`. */
+    deleteAt(index: number, count = 1): RGADelta<T> {
+        const ids = this.live().slice(Math.max(0, index), Math.max(0, index) + count).map(el => el.id);
+        return this.deleteIds(ids);
+    }
+
+    /** Tombstones the given element ids. */
+    deleteIds(ids: string[]): RGADelta<T> {
+        const del: string[] = [];
+        for (const id of ids) {
+            const el = this.byId.get(id);
+            if (el && !el.deleted) {
+                el.deleted = true;
+                delete el.value;
+                del.push(id);
+            }
+        }
+        return { del };
+    }
+
+    /**
+     * Merges a remote delta (or full state). Idempotent and commutative.
+     * @returns true if the visible sequence changed.
+     */
+    merge(delta: RGADelta<T>): boolean {
+        let changed = false;
+        // Origins always have smaller ids than their children, so ascending id order is causal order.
+        const incoming = [...(delta.ins || []), ...this.orphans].sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+        this.orphans = [];
+
+        for (const el of incoming) {
+            if (this.byId.has(el.id)) continue;
+            if (el.origin !== null && !this.byId.has(el.origin)) {
+                this.orphans.push(el);
+                continue;
+            }
+            const copy: RGAElement<T> = { id: el.id, origin: el.origin };
+            if (el.deleted || this.earlyDeletes.delete(el.id)) {
+                copy.deleted = true;
+            } else {
+                copy.value = el.value;
+                changed = true;
+            }
+            this.integrate(copy);
+        }
+
+        for (const id of delta.del || []) {
+            const el = this.byId.get(id);
+            if (!el) {
+                this.earlyDeletes.add(id);
+            } else if (!el.deleted) {
+                el.deleted = true;
+                delete el.value;
+                changed = true;
+            }
+        }
+        return changed;
+    }
+
+    /** Full state as a delta (tombstones included so remote anchors still resolve). */
+    state(): RGADelta<T> {
+        const ins = this.elements.map(el => (el.deleted ? { id: el.id, origin: el.origin } : { ...el }));
+        const del = this.elements.filter(el => el.deleted).map(el => el.id);
+        return { ins, del };
+    }
+
+    private integrate(el: RGAElement<T>): void {
+        let idx = el.origin === null ? 0 : this.elements.indexOf(this.byId.get(el.origin)!) + 1;
+        // Skip concurrent siblings with higher ids (and, transitively, their descendants)
+        while (idx < this.elements.length && this.elements[idx].id > el.id) idx++;
+        this.elements.splice(idx, 0, el);
+        this.byId.set(el.id, el);
+
+        const ts = elementTimestamp(el.id);
+        if (ts > this.maxTs) this.maxTs = ts;
+    }
+}
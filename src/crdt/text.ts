@@ -0,0 +1,83 @@
+/**
+ * @module Text
+ * @description
+ * Collaborative text, one {@link RGA} element per character.
+ *
+ * Concurrent typing at the same spot interleaves deterministically instead of one peer's
+ * keystrokes overwriting the other's. {@link TextAnchor}s pin a cursor to a character id rather
+ * than an index, so they stay put while remote edits shift the text around them.
+ *
+ * Indexes and lengths are UTF-16 code units, like `String.prototype.length`, DOM selections and
+ * `input.selectionStart`. Internally each element is one code point, so an emoji is never split
+ * between two elements; an index that falls inside a surrogate pair moves to the end of it.
+ */
+
+import { RGA, RGADelta } from './rga';
+import type { Replica } from './index';
+
+/**
+ * A position that survives concurrent edits: "right after character `after`".
+ * `after: null` is the start of the text.
+ */
+export interface TextAnchor {
+    after: string | null;
+}
+
+export class TextReplica implements Replica<string, RGADelta<string>> {
+    readonly type = 'text' as const;
+    private rga = new RGA<string>();
+
+    value(): string {
+        return this.rga.values().join('');
+    }
+
+    state(): RGADelta<string> {
+        return this.rga.state();
+    }
+
+    merge(delta: RGADelta<string>): boolean {
+        return this.rga.merge(delta);
+    }
+
+    clock(): bigint {
+        return this.rga.clock();
+    }
+
+    /** Inserts `text` so that it starts at UTF-16 offset `index`. */
+    insert(index: number, text: string, nextId: () => string): RGADelta<string> | null {
+        if (text.length === 0) return null;
+        return this.rga.insertAt(this.toElementIndex(index), Array.from(text), nextId);
+    }
+
+    /** Deletes `length` UTF-16 code units starting at offset `index`. */
+    delete(index: number, length: number): RGADelta<string> | null {
+        const start = this.toElementIndex(index);
+        const delta = this.rga.deleteAt(start, this.toElementIndex(index + length) - start);
+        return delta.del && delta.del.length > 0 ? delta : null;
+    }
+
+    /** Anchors the cursor at UTF-16 offset `index` to the character before it. */
+    anchor(index: number): TextAnchor {
+        const live = this.rga.live();
+        const clamped = this.toElementIndex(Math.max(0, index));
+        return { after: clamped === 0 ? null : live[clamped - 1].id };
+    }
+
+    /** Resolves an anchor back to a UTF-16 offset in the current text. */
+    resolve(anchor: TextAnchor): number {
+        // Unknown anchors (not yet received) resolve to the end of the text
+        const elements = this.rga.offsetAfter(anchor.after);
+        return this.rga.values().slice(0, elements).reduce((units, char) => units + char.length, 0);
+    }
+
+    /** Number of code-point elements before UTF-16 offset `offset`, clamped to the text. */
+    private toElementIndex(offset: number): number {
+        const chars = this.rga.values();
+        let units = 0;
+        for (let i = 0; i < chars.length; i++) {
+            if (units >= offset) return i;
+            units += chars[i].length;
+        }
+        return chars.length;
+    }
+}
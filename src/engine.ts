@@ -24,38 +24,20 @@
  * This ensures eventual consistency across all distributed peers without requiring a central coordinator.
  */
 
-import type { CRDTCore, Operation, ConnectionStatus, ClientEvents, EventHandler, IStorage } from './types';
+import type { CRDTCore, Operation, ConnectionStatus, ClientEvents, EventHandler, IStorage, ConflictValue, Transaction, GCOptions, SetOptions, CASOptions, AuthorityVeto, QuarantinedValue, HistoryEntry, HistoryOptions, HistoryQuery } from './types';
+import { PolicyError, type AccessControl } from './policy';
 import type { EncryptionAdapter } from './encryption';
-import { encodeValue, decodeValue, MsgType, encodeCAS } from './protocol';
+import { encodeValue, decodeValue, MsgType, encodeCAS, encodeVersionVector, decodeVersionVector } from './protocol';
 import { HLC } from './hlc';
-
-/**
- * Deep equality check for CAS operations.
- * Unlike JSON.stringify, this is order-independent for object keys.
- */
-function deepEqual(a: unknown, b: unknown): boolean {
-    if (a === b) return true;
-    if (a == null || b == null) return a === b;
-    if (typeof a !== typeof b) return false;
-
-    if (typeof a !== 'object') return a === b;
-
-    // Arrays
-    if (Array.isArray(a)) {
-        if (!Array.isArray(b) || a.length !== b.length) return false;
-        return a.every((item, i) => deepEqual(item, b[i]));
-    }
-
-    // Objects - order-independent comparison
-    const keysA = Object.keys(a as object);
-    const keysB = Object.keys(b as object);
-    if (keysA.length !== keysB.length) return false;
-
-    return keysA.every(key =>
-        key in (b as object) &&
-        deepEqual((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key])
-    );
-}
+import { deepEqual } from './utils/equality';
+import { PrefixTrie } from './utils/trie';
+import { ENVELOPE_FIELD, isEnvelope, usesReservedField } from './utils/envelope';
+import { SpeculativeStateManager } from './state_manager';
+import { unwrapSchema, type SchemaRegistry, type SchemaError } from './schemas';
+import { HistoryLog, HISTORY_PREFIX } from './history';
+import { LOCK_PREFIX } from './locks';
+import { encodeRecord, decodeRecord, encodeSnapshotRecord, decodeSnapshotRecord, encodeLogEntry, decodeLogEntry } from './utils/record';
+import { createReplica, cloneReplica, isCRDTEnvelope, toEnvelope, makeElementId, applyPathWrite, ListReplica, TextReplica, ObjectReplica, CounterReplica, MultiValueRegister, elementPeer, elementTimestamp, type Sibling, type CRDTType, type CRDTEnvelope, type ObjectDelta, type PathWrite, type Replica, type ListItem, type TextAnchor } from './crdt';
 
 // =============================================================================
 // Event Emitter
@@ -74,6 +56,12 @@ class EventEmitter {
         peerLeave: new Set(),
         ready: new Set(),
         cas: new Set(),
+        outbound: new Set(),
+        conflict: new Set(),
+        transaction: new Set(),
+        gap: new Set(),
+        gc: new Set(),
+        rollback: new Set(),
     };
 
     on<K extends keyof ClientEvents>(event: K, handler: EventHandler<K>): () => void {
@@ -105,6 +93,84 @@ class EventEmitter {
 // =============================================================================
 
 const PENDING_PREFIX = 'queue::';
+/** Engine bookkeeping in storage; never loaded as a value */
+const META_PREFIX = 'meta::';
+const VERSION_VECTOR_KEY = `${META_PREFIX}versionVector`;
+/** This client's replica id, reused on load so a reload does not open new counter slots */
+const REPLICA_ID_KEY = `${META_PREFIX}replicaId`;
+/** Every value as of the last compaction (see {@link SnapshotRecord}) */
+const SNAPSHOT_KEY = `${META_PREFIX}snapshot`;
+/** Append-only log of the writes since that snapshot: `log::<seq>` */
+const LOG_PREFIX = 'log::';
+
+const DEFAULT_STABILITY_WINDOW = 5000;
+const DEFAULT_MAX_TOMBSTONE_AGE = 7 * 24 * 60 * 60 * 1000;
+const DEFAULT_COMPACTION_THRESHOLD = 1000;
+
+/** Op hashes remembered for the causal barrier before the oldest are forgotten */
+const MAX_TRACKED_OPS = 10_000;
+/** Upper bound on the frontier sent as `deps` with every op */
+const MAX_HEADS = 16;
+/** Unconfirmed local ops kept for rolling back a server rejection */
+const MAX_UNCONFIRMED_OPS = 10_000;
+/** Default for {@link CASOptions.timeout} */
+const DEFAULT_CAS_TIMEOUT = 5000;
+
+/** Storage key of a delta log entry; zero-padded so keys sort in write order. */
+function logKey(seq: number): string {
+    return `${LOG_PREFIX}${String(seq).padStart(20, '0')}`;
+}
+
+/** Extracts the HLC timestamp from an op hash (`key:timestamp:peerId`), or null for foreign ids. */
+function opHashTimestamp(hash: string): bigint | null {
+    const match = /:(\d+):[^:]*$/.exec(hash);
+    return match ? BigInt(match[1]) : null;
+}
+
+/** Wire/storage form of a value written with a TTL: the value plus its HLC expiry (decimal string). */
+interface TTLEnvelope {
+    [ENVELOPE_FIELD]: 'ttl';
+    expires: string;
+    value: unknown;
+}
+
+function isTTLEnvelope(value: unknown): value is TTLEnvelope {
+    return isEnvelope(value, 'ttl');
+}
+
+/** Splits a decoded value into the value itself and its expiry, if it was written with a TTL. */
+function unwrapTTL(value: unknown): { value: unknown; expiresAt?: bigint } {
+    return isTTLEnvelope(value) ? { value: value.value, expiresAt: BigInt(value.expires) } : { value };
+}
+
+/**
+ * Maps the whole-value writes (empty path) of an object delta, which carry a schema version
+ * like plain values do. Other envelopes are returned as they are.
+ */
+function mapBaseWrites(envelope: CRDTEnvelope, fn: (value: unknown) => unknown): CRDTEnvelope {
+    if (envelope.__crdt !== 'object') return envelope;
+    const { writes = [] } = envelope.delta as ObjectDelta;
+    return toEnvelope('object', {
+        writes: writes.map(w => w.path.length === 0 && !w.deleted ? { ...w, value: fn(w.value) } : w),
+    } satisfies ObjectDelta);
+}
+
+/** The write a plain value makes as the root of a per-path object; a deleted value is a deleted root. */
+function rootWrite(value: unknown, timestamp: bigint, peerId: string): PathWrite {
+    const id = makeElementId(timestamp, peerId);
+    return value === null ? { path: [], id, deleted: true } : { path: [], id, value };
+}
+
+/** Longest delay `setTimeout` accepts; later expiries re-arm when it fires. */
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
+/** One write of a remote transaction (see {@link SyncEngine.applyRemoteBatch}). */
+interface RemoteWrite {
+    key: string;
+    payload: Uint8Array;
+    peerId: string;
+    timestamp: bigint;
+}
 
 /** Entry in the state map with value and timestamp for LWW ordering */
 interface StateEntry {
@@ -112,13 +178,106 @@ interface StateEntry {
     timestamp: bigint;
     peerId: string;
     lastCiphertext?: Uint8Array;
+    /** Present for typed keys (lists, ...); `value` is then its materialized view */
+    replica?: Replica;
+    /** HLC timestamp after which the value is treated as deleted (set with a TTL) */
+    expiresAt?: bigint;
+    /** Written by an authority peer, as asserted by the server */
+    authority?: boolean;
+}
+
+/**
+ * State map that keeps a prefix index of its keys, for {@link SyncEngine.getByPrefix}, and a
+ * timer per entry with a TTL that calls `onExpire` once the entry runs out (if still current).
+ */
+class StateMap extends Map<string, StateEntry> {
+    readonly index = new PrefixTrie<string>();
+    private timers = new Map<string, ReturnType<typeof setTimeout>>();
+    private onExpire: (key: string, entry: StateEntry) => void;
+
+    constructor(onExpire: (key: string, entry: StateEntry) => void) {
+        super();
+        this.onExpire = onExpire;
+    }
+
+    override set(key: string, entry: StateEntry): this {
+        if (!this.has(key)) this.index.add(key, key);
+        this.unwatch(key);
+        if (entry.expiresAt !== undefined) {
+            const delay = Number(HLC.unpack(entry.expiresAt).wall) - Date.now();
+            this.timers.set(key, setTimeout(() => {
+                this.timers.delete(key);
+                if (this.get(key) === entry) this.onExpire(key, entry);
+            }, Math.min(Math.max(delay, 0), MAX_TIMER_DELAY)));
+        }
+        return super.set(key, entry);
+    }
+
+    override delete(key: string): boolean {
+        this.index.delete(key, key);
+        this.unwatch(key);
+        return super.delete(key);
+    }
+
+    override clear(): void {
+        this.index.clear();
+        this.timers.forEach(timer => clearTimeout(timer));
+        this.timers.clear();
+        super.clear();
+    }
+
+    /** Whether the entry at `key` has an expiry that has not been announced yet. */
+    isWatched(key: string): boolean {
+        return this.timers.has(key);
+    }
+
+    private unwatch(key: string): void {
+        const timer = this.timers.get(key);
+        if (timer === undefined) return;
+        clearTimeout(timer);
+        this.timers.delete(key);
+    }
+}
+
+/** Optional engine behaviour, mirrored from {@link NMeshedConfig}. */
+export interface EngineOptions {
+    /** Key prefixes that keep concurrent writes as siblings (multi-value registers) */
+    multiValuePrefixes?: string[];
+    /** Tombstone garbage collection tuning */
+    gc?: GCOptions;
+    /** Access policy every local write is checked against */
+    accessControl?: AccessControl;
+    /** Veto rights of authority writes, by key prefix (default `lock`) */
+    authority?: Record<string, AuthorityVeto>;
+    /** Registered schemas: values are tagged with their version and migrated on the way in */
+    schemas?: SchemaRegistry;
+    /** Keep past values of every key (op-log retention) */
+    history?: HistoryOptions;
 }
 
 export class SyncEngine extends EventEmitter {
-    private state = new Map<string, StateEntry>();
+    private state = new StateMap((key, entry) => this.expire(key, entry));
+    private options: EngineOptions;
     private status: ConnectionStatus = 'disconnected';
     private peerId: string;
+    // This client's slot in PN-counters and multi-value dots: devices sharing a peer id (the user
+    // id) must not share one, or merging would drop the writes of all but one of them. Kept in storage.
+    private replicaId: string;
     private pendingOps: Operation[] = [];
+    // Local ops the server has not confirmed yet, for rolling back a rejection
+    private speculation = new SpeculativeStateManager<StateEntry, Operation>(MAX_UNCONFIRMED_OPS);
+    // Typed keys edited locally since they were last fully confirmed: the replica before those
+    // edits (kept up with remote deltas; absent if the key had none) and the edits, oldest first.
+    // A rejected edit is taken back by rebuilding the replica from the others.
+    private typedEdits = new Map<string, { base?: Replica; ops: Operation[] }>();
+    private history?: HistoryLog;
+    // Latest remote value per key that failed its schema
+    private quarantine = new Map<string, QuarantinedValue>();
+    // cas() calls waiting for the server's verdict, by op hash
+    private casVerdicts = new Map<string, { resolve: (won: boolean) => void; timer: ReturnType<typeof setTimeout> }>();
+    // CAS requests the server has not ruled on, even once their caller gave up; a Sync ack never confirms them
+    private casRequests = new Set<string>();
+    private authorityPrefixes = new PrefixTrie<string>();
     private debug: boolean;
     private storage: IStorage;
     private encryption?: EncryptionAdapter;
@@ -129,24 +288,54 @@ export class SyncEngine extends EventEmitter {
 
     // Pillar 4: Incremental Compaction
     private opsSinceLastSnapshot = 0;
-    private COMPACTION_THRESHOLD = 1000;
-    private STABILITY_WINDOW = 5000; // 5 seconds for GC
+    private compactionThreshold: number;
+    private stabilityWindow: number;
+    private maxTombstoneAge: number;
+    private compacting: Promise<void> | null = null;
+    // Next delta log sequence number. Seeded from the wall clock so a new session never reuses one.
+    private logSeq = Date.now() * 1000;
+    // Per-key values written before the snapshot + log layout; dropped by the next compaction
+    private legacyKeys = new Set<string>();
 
     // Pillar 3: Causal Barrier State
     private isGapDetected = false;
+    // Applied op hashes, oldest first (bounded by MAX_TRACKED_OPS)
     private receivedOps = new Set<string>();
-    private pendingBuffer: { key: string, payload: Uint8Array, peerId: string, timestamp: bigint, deps: string[] }[] = [];
+    // Ops at or below this timestamp count as delivered (forgotten, or covered by a snapshot)
+    private causalFloor = 0n;
+    // Causal frontier: applied ops that no other applied op depends on yet
+    private heads = new Set<string>();
+    // Per-peer upper 64 bits of the newest applied HLC (what a resync has to catch up on)
+    private versionVector = new Map<string, bigint>();
+    private pendingBuffer: { key: string, payload: Uint8Array, peerId: string, timestamp: bigint, deps: string[], authority: boolean }[] = [];
+    // Remote transactions waiting for their deps, kept whole so they still apply all-or-nothing
+    private pendingBatches: { ops: RemoteWrite[], deps: string[], authority: boolean }[] = [];
 
     // WASM core (optional)
     private core: CRDTCore | null = null;
 
-    constructor(peerId: string, storage: IStorage, debug = false, encryption?: EncryptionAdapter) {
+    constructor(peerId: string, storage: IStorage, debug = false, encryption?: EncryptionAdapter, options: EngineOptions = {}) {
         super();
         this.peerId = peerId;
+        this.replicaId = `${peerId}:${Math.random().toString(36).substring(2, 11)}`;
         this.storage = storage;
         this.debug = debug;
         this.encryption = encryption;
+        this.options = options;
         this.hlc = new HLC(peerId);
+        this.compactionThreshold = options.gc?.compactionThreshold ?? DEFAULT_COMPACTION_THRESHOLD;
+        this.stabilityWindow = options.gc?.stabilityWindow ?? DEFAULT_STABILITY_WINDOW;
+        this.maxTombstoneAge = options.gc?.maxTombstoneAge ?? DEFAULT_MAX_TOMBSTONE_AGE;
+        for (const prefix of Object.keys(options.authority ?? {})) this.authorityPrefixes.add(prefix, prefix);
+        if (options.history) {
+            this.history = new HistoryLog(storage, {
+                encode: async value => {
+                    const plain = encodeValue(value);
+                    return this.encryption ? this.encryption.encrypt(plain) : plain;
+                },
+                decode: async data => decodeValue(this.encryption ? await this.encryption.decrypt(data) : data),
+            }, options.history);
+        }
 
         // Init HLC from wall clock
         this.lastSeenHLC = HLC.pack(BigInt(Date.now()), 0n, 0n); // NodeID handled in HLC class
@@ -156,18 +345,319 @@ export class SyncEngine extends EventEmitter {
         return `${key}:${timestamp.toString()}:${peerId}`;
     }
 
-    private getHeads(): string[] {
-        // In a real DAG, we would track standard heads.
-        // For this Light Engine, we treat the set of all known recent ops as potential parents?
-        // Optimized: Just take the last 5 ops?
-        // For correctness, we really should track the "Frontier".
-        // Simplified for this refactor: The set of all ops currently in "state".
-        // To avoid O(N), we can just cache the last applied op hash?
-        // Let's return the hash of the last local or remote op applied.
-        if (this.receivedOps.size === 0) return [];
-        // Returning empty array for now as we don't have a rigid DAG structure in memory yet
-        // logic is added in set() to populate this if we track a `lastOpHash`.
-        return Array.from(this.receivedOps).slice(-1); // Naive "Chain" mode
+    /** The causal frontier: sent as `deps` with the next local op, and in a SyncRequest. */
+    getHeads(): string[] {
+        return Array.from(this.heads);
+    }
+
+    /**
+     * Records an applied op: it joins the frontier and replaces the parents it depends on.
+     * With `frontier` false it only counts as delivered, so no later op lists it in its deps.
+     * @returns The op hash.
+     */
+    private recordOp(key: string, timestamp: bigint, peerId: string, deps: string[] = [], frontier = true): string {
+        const hash = this.getOpHash(key, timestamp, peerId);
+        const seq = timestamp >> 64n;
+        const known = this.versionVector.get(peerId);
+        if (known === undefined || seq > known) this.versionVector.set(peerId, seq);
+        // A new peer holds tombstones back from now on, so it must survive a reload right away
+        if (known === undefined && peerId !== this.peerId) this.persistVersionVector();
+        if (this.receivedOps.has(hash)) return hash;
+
+        this.receivedOps.add(hash);
+        if (this.receivedOps.size > MAX_TRACKED_OPS) {
+            // Forget the oldest; anything at or below its timestamp is assumed delivered
+            const oldest = this.receivedOps.values().next().value!;
+            this.receivedOps.delete(oldest);
+            const ts = opHashTimestamp(oldest);
+            if (ts !== null && ts > this.causalFloor) this.causalFloor = ts;
+        }
+        if (!frontier) return hash;
+
+        for (const dep of deps) this.heads.delete(dep);
+        this.heads.add(hash);
+        // Dropping a head only weakens the barrier for the next op, never blocks it
+        if (this.heads.size > MAX_HEADS) this.heads.delete(this.heads.values().next().value!);
+        return hash;
+    }
+
+    private hasDelivered(hash: string): boolean {
+        if (this.receivedOps.has(hash)) return true;
+        const ts = opHashTimestamp(hash);
+        return ts !== null && ts <= this.causalFloor;
+    }
+
+    /** Per-peer version vector (upper 64 bits of the newest applied HLC per peer). */
+    getVersionVector(): Record<string, bigint> {
+        return Object.fromEntries(this.versionVector);
+    }
+
+    /**
+     * Whether `vector` (e.g. the server's, after a resync) holds ops this engine has not applied.
+     * Everything up to the causal floor counts as applied, since a snapshot covered it.
+     */
+    isBehind(vector: Record<string, bigint>): boolean {
+        const floor = this.causalFloor >> 64n;
+        return Object.entries(vector).some(([peerId, seq]) => {
+            const local = this.versionVector.get(peerId) ?? 0n;
+            return seq > (local > floor ? local : floor);
+        });
+    }
+
+    /**
+     * Raises the version vector to `vector` (e.g. the server's, once a resync has delivered
+     * everything it holds).
+     */
+    mergeVersionVector(vector: Record<string, bigint>): void {
+        let added = false;
+        for (const [peerId, seq] of Object.entries(vector)) {
+            const known = this.versionVector.get(peerId);
+            if (known === undefined) added = true;
+            if (known === undefined || seq > known) this.versionVector.set(peerId, seq);
+        }
+        if (added) this.persistVersionVector();
+    }
+
+    private persistVersionVector(): void {
+        this.storage.set(VERSION_VECTOR_KEY, encodeVersionVector(this.getVersionVector()))
+            .catch(e => console.error('[NMeshed] Persistence failed', e));
+    }
+
+    /** True while remote ops are buffered waiting for missing dependencies. */
+    hasGap(): boolean {
+        return this.isGapDetected;
+    }
+
+    /**
+     * Current time on the HLC scale: the wall clock, or the newest HLC seen if that is ahead.
+     * TTLs and leases expire against it.
+     */
+    now(): bigint {
+        const wall = HLC.pack(BigInt(Date.now()), 0n, 0n);
+        return wall > this.lastSeenHLC ? wall : this.lastSeenHLC;
+    }
+
+    private isExpired(entry: StateEntry, now = this.now()): boolean {
+        return entry.expiresAt !== undefined && entry.expiresAt <= now;
+    }
+
+    /**
+     * Announces an entry whose TTL ran out as a delete, so subscribers drop it. A timer that
+     * fires ahead of the HLC clock re-arms instead.
+     */
+    private expire(key: string, entry: StateEntry): void {
+        if (!this.isExpired(entry)) {
+            this.state.set(key, entry);
+            return;
+        }
+        this.emit('op', key, null, false, entry.expiresAt);
+    }
+
+    /** The entry at `key`, unless its TTL has run out. */
+    private live(key: string): StateEntry | undefined {
+        const entry = this.state.get(key);
+        return entry && !this.isExpired(entry) ? entry : undefined;
+    }
+
+    // ---------------------------------------------------------------------------
+    // Access Control
+    // ---------------------------------------------------------------------------
+
+    /**
+     * Checks a local write against the access policy, and against an authority lock on the key
+     * (which every other peer would veto anyway). A denial is also emitted as `error`.
+     */
+    private authorize(key: string, value: unknown): void {
+        const operation = value === null ? 'delete' : 'write';
+        try {
+            this.options.accessControl?.check(key, operation);
+            if (this.state.get(key)?.authority && this.vetoFor(key) === 'lock') {
+                throw new PolicyError(key, operation, 'local', 'the value is locked by an authority');
+            }
+        } catch (e) {
+            this.emit('error', e as PolicyError);
+            throw e;
+        }
+    }
+
+    /** Checks a local write against the schema registered for `key`. A mismatch is also emitted as `error`. */
+    private validate(key: string, value: unknown): void {
+        if (usesReservedField(value)) throw new Error(`[NMeshed] Value for ${key} uses the reserved field ${ENVELOPE_FIELD}`);
+        const error = this.options.schemas?.validate(key, value, 'local');
+        if (!error) return;
+        this.emit('error', error);
+        throw error;
+    }
+
+    /** Keeps a remote value that failed its schema out of live state, and reports it as `error`. */
+    private isolate(key: string, value: unknown, peerId: string, timestamp: bigint, error: SchemaError): void {
+        const held = this.quarantine.get(key);
+        if (held && held.timestamp > timestamp) return;
+        this.quarantine.set(key, { key, value, peerId, timestamp, error });
+        this.log(`Quarantined: ${key} from ${peerId} @ ${timestamp}`);
+        this.emit('error', error);
+    }
+
+    /** The schema mismatch of a decoded remote value (after migration), or null if it passes. */
+    private checkRemote(key: string, decoded: unknown): { value: unknown; error: SchemaError } | null {
+        if (!this.options.schemas) return null;
+        const value = this.upgrade(key, unwrapTTL(decoded).value);
+        if (isCRDTEnvelope(value)) return null;
+        const error = this.options.schemas.validate(key, value, 'remote');
+        return error ? { value, error } : null;
+    }
+
+    /** Remote values that failed their schema, the latest per key. They never entered live state. */
+    getQuarantined(): QuarantinedValue[] {
+        return [...this.quarantine.values()];
+    }
+
+    /** Wire form of a plain value written to `key`: tagged with its registered schema version past 1. */
+    private versioned(key: string, value: unknown): unknown {
+        return this.options.schemas ? this.options.schemas.wrap(key, value) : value;
+    }
+
+    /** Wire form of a typed delta for `key`: whole-value object writes are tagged like plain values. */
+    private versionedDelta(key: string, envelope: CRDTEnvelope): CRDTEnvelope {
+        return this.options.schemas ? mapBaseWrites(envelope, value => this.versioned(key, value)) : envelope;
+    }
+
+    /**
+     * Unwraps a decoded plain value and migrates it to the schema version registered for `key`.
+     * In a typed delta, only the whole-value object writes are migrated.
+     */
+    private upgrade(key: string, value: unknown): unknown {
+        if (isCRDTEnvelope(value)) return mapBaseWrites(value, base => this.upgrade(key, base));
+        return this.options.schemas ? this.options.schemas.upgrade(key, value) : unwrapSchema(value).value;
+    }
+
+    /** Veto rights of authority writes to `key`: the longest configured prefix, else `lock`. */
+    private vetoFor(key: string): AuthorityVeto {
+        const prefix = this.authorityPrefixes.matching(key).pop();
+        return prefix === undefined ? 'lock' : this.options.authority![prefix];
+    }
+
+    /** Records a local write as speculative until the server confirms or rejects it. */
+    private speculate(op: Operation, previous?: StateEntry): void {
+        // Settled by the server's Ack/Reject for this op, or a resync covering it. Past the cap,
+        // the oldest ops are taken as confirmed.
+        this.speculation.applyLocalChange(this.getOpHash(op.key, op.timestamp, this.peerId), op.key, this.state.get(op.key)!, op, previous);
+    }
+
+    /** Promotes a local op the server confirmed; it can no longer be rolled back or resent. */
+    confirm(key: string, timestamp: bigint): void {
+        const hash = this.getOpHash(key, timestamp, this.peerId);
+        this.settleCAS(hash, true);
+        this.casRequests.delete(hash);
+        if (!this.speculation.handleVerificationSuccess(hash)) return;
+        if (!this.speculation.isSpeculative(key)) this.typedEdits.delete(key);
+        const before = this.pendingOps.length;
+        this.pendingOps = this.pendingOps.filter(op => !(op.key === key && op.timestamp === timestamp));
+        if (this.pendingOps.length < before) this.storage.delete(`${PENDING_PREFIX}${timestamp}::${key}`).catch(() => { });
+    }
+
+    /**
+     * Rolls back a local op the server rejected, emits `rollback`, and reports it as a `PolicyError`.
+     * If the op is still visible, the key is rebased: it shows the newest of the writes it
+     * replaced or hid and the local ops still pending after it. A typed key is rebuilt from its
+     * confirmed replica and the other local edits.
+     */
+    reject(key: string, timestamp: bigint, reason?: string): void {
+        const op = this.rollback(key, timestamp, reason);
+        if (!op) return;
+        this.log(`Rejected by server: ${key} @ ${timestamp}`);
+        this.emit('error', new PolicyError(key, op.value === null ? 'delete' : 'write', 'server', reason));
+    }
+
+    /**
+     * Rolls back a CAS the server refused because the expected value did not match, and applies
+     * `current`, the value the server holds for the key.
+     */
+    async refuse(key: string, timestamp: bigint, current?: { payload: Uint8Array; timestamp: bigint; peerId: string }): Promise<void> {
+        if (!this.rollback(key, timestamp, 'compare-and-swap failed')) return;
+        this.log(`CAS refused by server: ${key} @ ${timestamp}`);
+        if (current) await this.applyRemote(key, current.payload, current.peerId, current.timestamp);
+    }
+
+    /**
+     * Drops an unconfirmed local op, rebases its key and emits `rollback` if it was visible.
+     * Settles a CAS waiting on it as lost.
+     * @returns The dropped op, or null if it was not (or no longer) unconfirmed.
+     */
+    private rollback(key: string, timestamp: bigint, reason?: string): Operation | null {
+        const hash = this.getOpHash(key, timestamp, this.peerId);
+        this.settleCAS(hash, false);
+        this.casRequests.delete(hash);
+        const rebase = this.speculation.handleVerificationFailure(hash);
+        if (!rebase) return null;
+        const { rejected, op } = rebase;
+        this.history?.forget(key, timestamp, this.peerId);
+
+        // Never resend it, and stop naming it as a parent of later ops
+        this.pendingOps = this.pendingOps.filter(pending => pending !== op);
+        this.storage.delete(`${PENDING_PREFIX}${timestamp}::${key}`).catch(() => { });
+        this.receivedOps.delete(hash);
+        if (this.heads.delete(hash)) op.deps?.forEach(dep => this.heads.add(dep));
+
+        const current = this.state.get(key);
+        const edits = this.typedEdits.get(key);
+        let view: StateEntry | undefined;
+        if (edits?.ops.includes(op)) {
+            edits.ops = edits.ops.filter(edit => edit !== op);
+            if (current?.replica) view = this.rebuild(key, edits, rebase.view ?? current);
+            if (!this.speculation.isSpeculative(key)) this.typedEdits.delete(key);
+        }
+        if (!view && current?.timestamp === rejected.timestamp && current.peerId === this.peerId) {
+            // Nothing older to go back to: a tombstone that any real write beats
+            view = rebase.view ?? { value: null, timestamp: 0n, peerId: '' };
+        }
+        if (view) {
+            this.state.set(key, view);
+            this.storedPayload(key, view)
+                .then(payload => this.persist(key, { ...view, lastCiphertext: payload }))
+                .catch(e => console.error('[NMeshed] Persistence failed', e));
+            this.emit('op', key, view.value, false, view.timestamp);
+            this.emit('rollback', { key, from: rejected.value, to: view.value, reason });
+        }
+        return op;
+    }
+
+    /**
+     * Rebuilds a typed key without a rejected edit: its confirmed replica with the remaining local
+     * edits merged back in, stamped like `newest`. Returns undefined if neither is left, so the
+     * plain rollback applies.
+     */
+    private rebuild(key: string, edits: { base?: Replica; ops: Operation[] }, newest: StateEntry): StateEntry | undefined {
+        let replica = edits.base && cloneReplica(edits.base);
+        for (const edit of edits.ops) replica = this.materialize(key, edit.value, replica).replica;
+        if (!replica) return undefined;
+        return { value: replica.value(), timestamp: newest.timestamp, peerId: newest.peerId, replica, authority: newest.authority };
+    }
+
+    /**
+     * Starts recording local edits to a typed key, unless they already are.
+     * @param replica The replica before the first edit, if the key has one
+     */
+    private trackEdits(key: string, replica?: Replica): void {
+        if (this.typedEdits.has(key) && this.speculation.isSpeculative(key)) return;
+        this.typedEdits.set(key, { base: replica && cloneReplica(replica), ops: [] });
+    }
+
+    /** Keeps the confirmed replica of a locally edited typed key up with a remote delta. */
+    private observeEdit(key: string, type: CRDTType, delta: unknown): void {
+        const edits = this.typedEdits.get(key);
+        if (!edits) return;
+        edits.base ??= createReplica(type);
+        if (edits.base.type === type) edits.base.merge(delta);
+    }
+
+    /** Resolves the `cas()` call waiting on the op `hash`, if any. */
+    private settleCAS(hash: string, won: boolean): void {
+        const pending = this.casVerdicts.get(hash);
+        if (!pending) return;
+        this.casVerdicts.delete(hash);
+        clearTimeout(pending.timer);
+        pending.resolve(won);
     }
 
     // ---------------------------------------------------------------------------
@@ -178,7 +668,7 @@ export class SyncEngine extends EventEmitter {
      * Get a value by key.
      */
     get<T = unknown>(key: string): T | undefined {
-        const entry = this.state.get(key);
+        const entry = this.live(key);
         if (!entry) return undefined;
         if (typeof structuredClone === 'function') {
             return structuredClone(entry.value) as T;
@@ -186,10 +676,31 @@ export class SyncEngine extends EventEmitter {
         try { return JSON.parse(JSON.stringify(entry.value)) as T; } catch { return entry.value as T; }
     }
 
+    /** Typed replica kind stored at `key` ('list', 'text', ...), or undefined for plain values. */
+    getCRDTType(key: string): CRDTType | undefined {
+        return this.state.get(key)?.replica?.type;
+    }
+
     /** 
      * Sets a value (Local Operation).
+     * With `options.ttl` the value expires that many milliseconds after this write's HLC time.
+     */
+    async set<T = unknown>(key: string, value: T, options: SetOptions = {}): Promise<Uint8Array> {
+        this.authorize(key, value);
+        this.validate(key, value);
+        if (this.isMultiValue(key)) {
+            if (options.ttl !== undefined) throw new Error(`TTL is not supported on multi-value key ${key}`);
+            const payload = await this.mutate<MultiValueRegister>(key, 'mvr', reg => reg.write(value, this.nextDot(), this.peerId));
+            return payload!;
+        }
+        return this.commitLocal(key, value, this.versioned(key, value), undefined, options.ttl);
+    }
+
+    /**
+     * Applies a local write and queues it for the network.
+     * `wireValue` is what peers receive: the value itself for LWW keys, a delta envelope for typed keys.
      */
-    async set<T = unknown>(key: string, value: T): Promise<Uint8Array> {
+    private async commitLocal(key: string, value: unknown, wireValue: unknown, replica?: Replica, ttl?: number): Promise<Uint8Array> {
         // Pillar 3: Causal Barrier Enforcement
         if (this.isGapDetected) {
             throw new Error('GapDetected: Cannot apply optimistic update while in inconsistent state. Please wait for sync.');
@@ -199,70 +710,401 @@ export class SyncEngine extends EventEmitter {
         const timestamp = this.hlc.now(); // Returns bigint
         this.lastSeenHLC = timestamp;
 
+        let expiresAt: bigint | undefined;
+        if (ttl !== undefined) {
+            expiresAt = HLC.pack(HLC.unpack(timestamp).wall + BigInt(ttl), 0n, 0n);
+            wireValue = { [ENVELOPE_FIELD]: 'ttl', expires: expiresAt.toString(), value: wireValue } satisfies TTLEnvelope;
+        }
+
         // Create wire payload
-        let payload = encodeValue(value);
+        let payload = encodeValue(wireValue);
         if (this.encryption) {
             payload = await this.encryption.encrypt(payload);
         }
 
+        const op = this.applyLocal(key, value, wireValue, timestamp, payload, replica, expiresAt);
+
+        // Emit
+        this.emit('op', key, value, true, timestamp);
+        this.emit('outbound', [op]);
+
+        this.log(`Set: ${key} = ${JSON.stringify(value)} @ ${timestamp} (${HLC.unpack(timestamp).wall}:${HLC.unpack(timestamp).logical})`);
+
+        return payload;
+    }
+
+    /**
+     * Applies a local write to memory, queues it and persists it. Emitting is left to the caller.
+     */
+    private applyLocal(key: string, value: unknown, wireValue: unknown, timestamp: bigint, payload: Uint8Array, replica?: Replica, expiresAt?: bigint): Operation {
         // Egress: Capture Heads
         const deps = this.getHeads();
 
         // Apply locally
-        this.state.set(key, { value, timestamp, peerId: this.peerId, lastCiphertext: payload });
+        const previous = this.state.get(key);
+        this.state.set(key, { value, timestamp, peerId: this.peerId, lastCiphertext: payload, replica, expiresAt });
+        this.history?.record(key, { value, timestamp, peerId: this.peerId, expiresAt });
 
-        const opHash = this.getOpHash(key, timestamp, this.peerId);
-        this.receivedOps.add(opHash);
+        this.recordOp(key, timestamp, this.peerId, deps);
 
         this.incrementOps();
 
-        // Emit
-        this.emit('op', key, value, true, timestamp);
-
         // Queue
-        const op: Operation = { key, value, timestamp, peerId: this.peerId, deps };
+        const op: Operation = { key, value: wireValue, timestamp, peerId: this.peerId, deps };
         this.pendingOps.push(op);
+        this.speculate(op, previous);
+        if (replica) this.typedEdits.get(key)?.ops.push(op);
 
-        // Persist
-        this.storage.set(key, payload).catch(e => console.error('[NMeshed] Persistence failed', e));
+        this.persist(key, this.state.get(key)!);
         const pendingKey = `${PENDING_PREFIX}${timestamp}::${key}`;
         this.storage.set(pendingKey, payload).catch(e => console.error('[NMeshed] Queue persistence failed', e));
 
-        this.log(`Set: ${key} = ${JSON.stringify(value)} @ ${timestamp} (${HLC.unpack(timestamp).wall}:${HLC.unpack(timestamp).logical})`);
-
-        return payload;
+        return op;
     }
 
     async delete(key: string): Promise<Uint8Array> {
         return this.set(key, null);
     }
 
+    // ---------------------------------------------------------------------------
+    // Transactions
+    // ---------------------------------------------------------------------------
+
     /**
-     * Applies a remote operation.
+     * Applies several writes atomically.
+     * 
+     * All writes share one HLC timestamp, which is also how they stay grouped in the offline
+     * queue. State is fully applied before any `op` event fires, followed by a single
+     * `transaction` event and a single `outbound` batch.
+     */
+    async transaction(fn: (tx: Transaction) => void): Promise<void> {
+        if (this.isGapDetected) {
+            throw new Error('GapDetected: Cannot apply optimistic update while in inconsistent state. Please wait for sync.');
+        }
+
+        // Later writes to the same key within the transaction win
+        const writes = new Map<string, unknown>();
+        fn({
+            set: (key, value) => { writes.set(key, value); },
+            delete: (key) => { writes.set(key, null); },
+        });
+        if (writes.size === 0) return;
+        for (const [key, value] of writes) {
+            this.authorize(key, value);
+            this.validate(key, value);
+        }
+
+        const timestamp = this.hlc.now();
+        this.lastSeenHLC = timestamp;
+
+        // Stage everything (including encryption) before touching state, so a failure applies nothing
+        const staged: { key: string; value: unknown; wireValue: unknown; payload: Uint8Array; replica?: Replica }[] = [];
+        for (const [key, value] of writes) {
+            let wireValue = this.versioned(key, value);
+            let replica: Replica | undefined;
+            if (this.isMultiValue(key)) {
+                const register = new MultiValueRegister();
+                const existing = this.state.get(key)?.replica;
+                if (existing instanceof MultiValueRegister) register.merge(existing.state());
+                this.trackEdits(key, existing instanceof MultiValueRegister ? existing : undefined);
+                wireValue = toEnvelope('mvr', register.write(value, makeElementId(timestamp, this.replicaId), this.peerId));
+                replica = register;
+            }
+            let payload = encodeValue(wireValue);
+            if (this.encryption) payload = await this.encryption.encrypt(payload);
+            staged.push({ key, value: replica ? replica.value() : value, wireValue, payload, replica });
+        }
+
+        const ops = staged.map(w => this.applyLocal(w.key, w.value, w.wireValue, timestamp, w.payload, w.replica));
+
+        for (const w of staged) this.emit('op', w.key, w.value, true, timestamp);
+        this.emit('transaction', staged.map(w => ({ key: w.key, value: w.value })), true);
+        this.emit('outbound', ops);
+
+        this.log(`Transaction: ${staged.map(w => w.key).join(', ')} @ ${timestamp}`);
+    }
+
+    /**
+     * Applies a remote transaction all-or-nothing.
+     * Every write is decrypted, decoded and checked against its schema first; if any fails, none
+     * is applied. Writes failing their schema are quarantined, the others dropped.
+     * `deps` are those of the first write: until they have all been applied, the whole
+     * transaction is buffered. `authority` is the server-asserted flag of every write.
+     */
+    async applyRemoteBatch(ops: RemoteWrite[], deps: string[] = [], authority = false): Promise<void> {
+        // Pillar 1: Causal Barrier Check
+        const missing = deps.filter(d => !this.hasDelivered(d));
+        if (missing.length > 0) {
+            this.log(`[Causal Barrier] Missing deps for transaction on ${ops.map(op => op.key).join(', ')}: ${missing.join(', ')}`);
+            this.isGapDetected = true;
+            this.pendingBatches.push({ ops, deps, authority });
+            this.emit('status', 'syncing');
+            this.emit('gap', missing);
+            return;
+        }
+
+        const decoded: (RemoteWrite & { value: unknown })[] = [];
+        try {
+            for (const op of ops) {
+                const plain = this.encryption ? await this.encryption.decrypt(op.payload) : op.payload;
+                decoded.push({ ...op, value: decodeValue(plain) });
+            }
+        } catch (e) {
+            console.error('[NMeshed] Dropping remote transaction: a write could not be decoded', e);
+            return;
+        }
+
+        let rejected = false;
+        for (const op of decoded) {
+            const invalid = this.checkRemote(op.key, op.value);
+            if (!invalid) continue;
+            this.isolate(op.key, invalid.value, op.peerId, op.timestamp, invalid.error);
+            rejected = true;
+        }
+        if (rejected) this.log(`Dropped transaction on ${decoded.map(op => op.key).join(', ')}: a write failed its schema`);
+
+        const accepted: { key: string; entry: StateEntry; timestamp: bigint }[] = [];
+        let previous: string | undefined;
+        for (const op of decoded) {
+            const hash = this.getOpHash(op.key, op.timestamp, op.peerId);
+            if (this.receivedOps.has(hash)) {
+                previous = hash;
+                continue;
+            }
+            this.lastSeenHLC = this.hlc.update(op.timestamp);
+            // A dropped transaction still counts as delivered, so ops depending on it are not held back
+            const entry = rejected ? null : this.reconcile(op.key, op.value, op.payload, op.peerId, op.timestamp, authority);
+            // The sender chained the writes of a transaction, so we do the same
+            previous = this.recordOp(op.key, op.timestamp, op.peerId, previous ? [previous] : deps);
+            if (entry) accepted.push({ key: op.key, entry, timestamp: op.timestamp });
+        }
+
+        for (const { key, entry, timestamp } of accepted) this.announceRemote(key, entry, timestamp);
+        if (accepted.length > 0) {
+            this.emit('transaction', accepted.map(({ key, entry }) => ({ key, value: entry.value })), false);
+        }
+        await this.drainBuffer();
+    }
+
+    // ---------------------------------------------------------------------------
+    // History
+    // ---------------------------------------------------------------------------
+
+    /** Past values of `key`, oldest first. Requires the `history` option. */
+    getHistory(key: string, query: HistoryQuery = {}): HistoryEntry[] {
+        return this.retained().get(key, query);
+    }
+
+    /** Every key with history, as it was at HLC time `timestamp`. Requires the `history` option. */
+    stateAt(timestamp: bigint): Record<string, unknown> {
+        return this.retained().stateAt(timestamp);
+    }
+
+    /**
+     * Writes the value `key` had at HLC time `timestamp` back as a new op (a delete if the key
+     * was deleted or expired then). A value written with a TTL gets the same TTL again.
+     * Later history is kept.
+     */
+    async restore(key: string, timestamp: bigint): Promise<Uint8Array> {
+        const past = this.retained().valueAt(key, timestamp);
+        if (!past) throw new Error(`[NMeshed] No history for ${key} at or before ${timestamp}`);
+        const ttl = past.expiresAt !== undefined && past.value !== null
+            ? Number(HLC.unpack(past.expiresAt).wall - HLC.unpack(past.timestamp).wall)
+            : undefined;
+        return this.set(key, past.value, { ttl });
+    }
+
+    private retained(): HistoryLog {
+        if (!this.history) throw new Error('[NMeshed] History is not enabled (see NMeshedConfig.history)');
+        return this.history;
+    }
+
+    // ---------------------------------------------------------------------------
+    // Multi-Value Registers
+    // ---------------------------------------------------------------------------
+
+    /**
+     * Returns the concurrent values of a multi-value key, newest first.
+     * Empty when the key has a single value (no conflict).
+     */
+    getConflicts(key: string): ConflictValue[] {
+        const replica = this.state.get(key)?.replica;
+        if (!(replica instanceof MultiValueRegister)) return [];
+        const siblings = replica.siblings();
+        return siblings.length > 1 ? siblings.map(s => this.toConflictValue(s)) : [];
+    }
+
+    /** Collapses the conflicting values of `key` into `value`. */
+    async resolve<T = unknown>(key: string, value: T): Promise<Uint8Array> {
+        return this.set(key, value);
+    }
+
+    private isMultiValue(key: string): boolean {
+        return !!this.options.multiValuePrefixes?.some(prefix => key.startsWith(prefix));
+    }
+
+    private toConflictValue(sibling: Sibling): ConflictValue {
+        return { value: sibling.value, peerId: sibling.peerId ?? elementPeer(sibling.id), timestamp: elementTimestamp(sibling.id) };
+    }
+
+    /** A dot for a multi-value write. It names this client's replica, not the peer it shares with other devices. */
+    private nextDot(): string {
+        return makeElementId(this.hlc.now(), this.replicaId);
+    }
+
+    // ---------------------------------------------------------------------------
+    // Typed Ops: Objects (per-path LWW)
+    // ---------------------------------------------------------------------------
+
+    /**
+     * Writes `value` at `path` inside the object stored at `key`.
+     * Only the path travels on the wire, so concurrent writes to different fields both survive.
+     * An empty path replaces the whole value.
+     * @throws {SchemaError} If a schema is registered for `key` and the object the write produces does not match it.
+     */
+    async setPath(key: string, path: string[], value: unknown): Promise<void> {
+        const entry = this.state.get(key);
+        // A schema constrains the whole object, so check what the write turns it into
+        if (path.length === 0 || this.options.schemas?.get(key)) {
+            const current = entry?.replica instanceof ObjectReplica ? entry.replica.value() : entry?.replica ? undefined : entry?.value;
+            const write = value === undefined ? { path, deleted: true } : { path, value };
+            this.validate(key, applyPathWrite(structuredClone(current), write) ?? null);
+        }
+        await this.mutate<ObjectReplica>(key, 'object', (obj, nextId) => {
+            const writes = [];
+            // Upgrading a plain value: keep it as the base write so peers rebuild the same object.
+            // It is already at the registered schema version, and travels tagged with it.
+            if (entry && !entry.replica && entry.value != null) {
+                writes.push(...obj.write([], entry.value, makeElementId(entry.timestamp, entry.peerId)).writes);
+            }
+            writes.push(...obj.write(path, value, nextId()).writes);
+            return { writes };
+        });
+    }
+
+    /** Removes `path` from the object stored at `key`. */
+    async deletePath(key: string, path: string[]): Promise<void> {
+        return this.setPath(key, path, undefined);
+    }
+
+    // ---------------------------------------------------------------------------
+    // Typed Ops: Counters
+    // ---------------------------------------------------------------------------
+
+    /**
+     * Adds `delta` (negative to decrement) to the PN-counter at `key`.
+     * Concurrent increments from different peers all count. A plain value at `key` is replaced.
      */
+    async increment(key: string, delta = 1): Promise<void> {
+        await this.mutate<CounterReplica>(key, 'counter', (counter) => counter.increment(this.replicaId, delta));
+    }
+
+    // ---------------------------------------------------------------------------
+    // Typed Ops: Lists
+    // ---------------------------------------------------------------------------
+
+    /**
+     * Inserts an item into the replicated list at `key`.
+     * @returns The stable id of the new item.
+     */
+    async listInsert<T = unknown>(key: string, index: number, item: T): Promise<string> {
+        let id = '';
+        await this.mutate<ListReplica>(key, 'list', (list, nextId) => {
+            const result = list.insert(index, item, nextId);
+            id = result.id;
+            return result.delta;
+        });
+        return id;
+    }
+
+    /** Moves the item at index `from` to index `to`. */
+    async listMove(key: string, from: number, to: number): Promise<void> {
+        await this.mutate<ListReplica>(key, 'list', (list, nextId) => list.move(from, to, nextId));
+    }
+
+    /** Removes the item with the given id. */
+    async listRemove(key: string, id: string): Promise<void> {
+        await this.mutate<ListReplica>(key, 'list', (list) => list.remove(id));
+    }
+
+    /** Returns the list items (with their stable ids) in replicated order. */
+    getListItems<T = unknown>(key: string): ListItem<T>[] {
+        const replica = this.state.get(key)?.replica;
+        return replica instanceof ListReplica ? replica.items<T>() : [];
+    }
+
+    // ---------------------------------------------------------------------------
+    // Typed Ops: Text
+    // ---------------------------------------------------------------------------
+
+    /** Inserts `text` into the replicated text at `key`, starting at UTF-16 offset `index`. */
+    async textInsert(key: string, index: number, text: string): Promise<void> {
+        await this.mutate<TextReplica>(key, 'text', (doc, nextId) => doc.insert(index, text, nextId));
+    }
+
+    /** Deletes `length` UTF-16 code units starting at offset `index`. */
+    async textDelete(key: string, index: number, length: number): Promise<void> {
+        await this.mutate<TextReplica>(key, 'text', (doc) => doc.delete(index, length));
+    }
+
+    /**
+     * Captures a cursor position that follows the surrounding characters through concurrent edits.
+     * Resolve it later with {@link resolveTextAnchor}.
+     */
+    textAnchor(key: string, index: number): TextAnchor {
+        const replica = this.state.get(key)?.replica;
+        return replica instanceof TextReplica ? replica.anchor(index) : { after: null };
+    }
+
+    /** Returns the current UTF-16 offset of an anchor created by {@link textAnchor}. */
+    resolveTextAnchor(key: string, anchor: TextAnchor): number {
+        const replica = this.state.get(key)?.replica;
+        return replica instanceof TextReplica ? replica.resolve(anchor) : 0;
+    }
+
+    /**
+     * Runs a local mutation against the typed replica at `key` (creating it if needed).
+     * A `null` delta means the mutation was a no-op and nothing is sent.
+     */
+    private async mutate<R extends Replica>(key: string, type: CRDTType, fn: (replica: R, nextId: () => string) => unknown): Promise<Uint8Array | undefined> {
+        if (this.isGapDetected) {
+            throw new Error('GapDetected: Cannot apply optimistic update while in inconsistent state. Please wait for sync.');
+        }
+        this.authorize(key, true);
+
+        const existing = this.state.get(key)?.replica;
+        const replica = (existing?.type === type ? existing : createReplica(type)) as R;
+        this.trackEdits(key, existing?.type === type ? existing : undefined);
+
+        // New element ids must sort after everything already in the replica
+        const clock = replica.clock();
+        if (clock > 0n) this.hlc.update(clock);
+
+        const delta = fn(replica, () => makeElementId(this.hlc.now(), this.peerId));
+        if (delta === null) return undefined;
+
+        return this.commitLocal(key, replica.value(), this.versionedDelta(key, toEnvelope(type, delta)), replica);
+    }
+
     /**
      * Applies a remote operation.
+     * Ops whose `deps` have not all been applied yet are buffered until they have.
      */
-    async applyRemote(key: string, payload: Uint8Array, peerId: string, timestamp?: bigint | number, deps: string[] = []): Promise<void> {
+    async applyRemote(key: string, payload: Uint8Array, peerId: string, timestamp?: bigint | number, deps: string[] = [], authority = false): Promise<void> {
         // Pillar 1: Causal Barrier Check
         if (deps.length > 0) {
-            const missing = deps.filter(d => !this.receivedOps.has(d));
+            const missing = deps.filter(d => !this.hasDelivered(d));
             if (missing.length > 0) {
                 this.log(`[Causal Barrier] Missing deps for ${key}: ${missing.join(', ')}`);
                 this.isGapDetected = true;
-                this.pendingBuffer.push({ key, payload, peerId, timestamp: BigInt(timestamp || 0), deps });
+                this.pendingBuffer.push({ key, payload, peerId, timestamp: BigInt(timestamp || 0), deps, authority });
                 // Trigger Sync
                 this.emit('status', 'syncing');
+                this.emit('gap', missing);
                 return;
             }
         }
 
-        // Retry buffer if we just cleared a gap
-        if (this.isGapDetected && this.pendingBuffer.length > 0) {
-            // Re-evaluate buffer?
-            // For now, simpler to just proceed.
-        }
-
         // E2EE Decrypt
         let finalPayload = payload;
         if (this.encryption) {
@@ -270,30 +1112,111 @@ export class SyncEngine extends EventEmitter {
             catch (e) { console.error(`[NMeshed] Decryption failed for remote op ${key}`, e); return; }
         }
 
-        const value = decodeValue(finalPayload);
         const incomingTs = timestamp != null ? BigInt(timestamp) : HLC.pack(BigInt(Date.now()), 0n, 0n);
-        const opHash = this.getOpHash(key, incomingTs, peerId);
+        // Already applied (e.g. re-sent from a peer's offline queue). Applying it again could
+        // resurrect a key whose tombstone has been collected since.
+        if (this.receivedOps.has(this.getOpHash(key, incomingTs, peerId))) return;
+
+        const value = decodeValue(finalPayload);
 
         // Update HLC watermark
         this.lastSeenHLC = this.hlc.update(incomingTs);
 
-        // LWW Reconciliation with Pillar 2: Authority Gate
+        const accepted = this.reconcile(key, value, payload, peerId, incomingTs, authority);
+        this.recordOp(key, incomingTs, peerId, deps);
+        if (accepted) this.announceRemote(key, accepted, incomingTs);
+
+        await this.drainBuffer();
+    }
+
+    /**
+     * Applies buffered ops whose dependencies have all arrived, and clears the gap once none are left.
+     */
+    private async drainBuffer(): Promise<void> {
+        if (this.pendingBuffer.length === 0 && this.pendingBatches.length === 0) return;
+
+        const ready = this.pendingBuffer.filter(op => op.deps.every(d => this.hasDelivered(d)));
+        if (ready.length > 0) {
+            this.pendingBuffer = this.pendingBuffer.filter(op => !ready.includes(op));
+            for (const op of ready) {
+                await this.applyRemote(op.key, op.payload, op.peerId, op.timestamp, op.deps, op.authority);
+            }
+        }
+        const readyBatches = this.pendingBatches.filter(batch => batch.deps.every(d => this.hasDelivered(d)));
+        if (readyBatches.length > 0) {
+            this.pendingBatches = this.pendingBatches.filter(batch => !readyBatches.includes(batch));
+            for (const batch of readyBatches) {
+                await this.applyRemoteBatch(batch.ops, batch.deps, batch.authority);
+            }
+        }
+        if (this.pendingBuffer.length === 0 && this.pendingBatches.length === 0 && this.isGapDetected) {
+            this.isGapDetected = false;
+            this.emit('status', 'connected');
+        }
+    }
+
+    /**
+     * LWW Reconciliation with Pillar 2: Authority Gate.
+     * Applies the decoded remote `value` to memory and storage if it wins.
+     * `authority` is the server-asserted flag of the op; what it may veto depends on the key's
+     * {@link AuthorityVeto} policy.
+     * @returns The accepted entry, or null if the local state was kept.
+     */
+    private reconcile(key: string, decoded: unknown, payload: Uint8Array, peerId: string, incomingTs: bigint, authority = false): StateEntry | null {
+        const { value: unwrapped, expiresAt } = unwrapTTL(decoded);
+        const value = this.upgrade(key, unwrapped);
+        if (!isCRDTEnvelope(value)) {
+            const invalid = this.options.schemas?.validate(key, value, 'remote');
+            if (invalid) {
+                this.isolate(key, value, peerId, incomingTs, invalid);
+                return null;
+            }
+        }
         const existing = this.state.get(key);
-        const isRemoteAuthority = peerId.startsWith('Ω_');
-        const isLocalAuthority = existing?.peerId.startsWith('Ω_');
+        const veto = this.vetoFor(key);
+        // Only an authority write replacing a non-authority value (or the reverse) is vetoed
+        const isRemoteAuthority = authority && veto !== 'none' && !existing?.authority;
+        const isLocalAuthority = !authority && veto === 'lock' && !!existing?.authority;
 
         let accept = false;
-
-        if (!existing) {
+        let replica: Replica | undefined;
+        // Set when a plain value and per-path object writes were merged: no single delta to log
+        let merged = false;
+
+        if (isCRDTEnvelope(value)) {
+            // Typed ops merge commutatively; LWW only arbitrates against a plain value
+            if (existing?.replica?.type === value.__crdt) {
+                replica = existing.replica;
+                accept = replica.merge(value.delta);
+                this.observeEdit(key, value.__crdt, value.delta);
+            } else if (value.__crdt === 'object' && existing && !existing.replica) {
+                // The plain value is the root write the object starts from, as in setPath, so
+                // both sides order it against the per-path writes by timestamp
+                replica = createReplica('object');
+                replica.merge({ writes: [rootWrite(existing.value, existing.timestamp, existing.peerId)] } satisfies ObjectDelta);
+                replica.merge(value.delta);
+                accept = merged = true;
+            } else if (!existing || incomingTs > existing.timestamp) {
+                replica = createReplica(value.__crdt);
+                replica.merge(value.delta);
+                accept = true;
+            }
+        } else if (!existing) {
             accept = true;
         } else {
             // Pillar 2: Authority Veto Logic
             if (isRemoteAuthority) {
                 accept = true;
-                this.log(`[Ω VETO] Authority ${peerId} overwrote local state for ${key}`);
+                this.log(`[VETO] Authority ${peerId} overwrote local state for ${key}`);
             } else if (isLocalAuthority) {
-                // Local is Authority, Remote is not. Local wins.
+                // The stored value is an authority write and the key is locked
                 accept = false;
+            } else if (existing.replica instanceof ObjectReplica) {
+                // A root write: it replaces older per-path writes and sits under newer ones
+                replica = existing.replica;
+                const write: ObjectDelta = { writes: [rootWrite(value, incomingTs, peerId)] };
+                accept = merged = replica.merge(write);
+                this.observeEdit(key, 'object', write);
             } else if (incomingTs > existing.timestamp) {
                 accept = true;
             } else if (incomingTs === existing.timestamp) {
@@ -302,39 +1225,49 @@ export class SyncEngine extends EventEmitter {
             }
         }
 
-        this.receivedOps.add(opHash);
-
-        // Check buffer for ready ops
-        if (this.pendingBuffer.length > 0) {
-            const processable = this.pendingBuffer.filter(op => op.deps.every(d => this.receivedOps.has(d)));
-            if (processable.length > 0) {
-                this.pendingBuffer = this.pendingBuffer.filter(op => !op.deps.every(d => this.receivedOps.has(d)));
-                for (const op of processable) {
-                    await this.applyRemote(op.key, op.payload, op.peerId, op.timestamp, op.deps);
-                }
-            }
-            if (this.pendingBuffer.length === 0) {
-                this.isGapDetected = false;
-                this.emit('status', 'connected');
-            }
+        if (!replica && !isLocalAuthority) {
+            // Also when a local write hides it: it is what a rollback of that write reveals
+            this.speculation.observe(key, { value, timestamp: incomingTs, peerId, lastCiphertext: payload, expiresAt, authority: authority || undefined });
         }
+        if (!accept) return null;
+
+        const finalValue = replica ? replica.value() : value;
+        const entryTs = existing && replica && existing.timestamp > incomingTs ? existing.timestamp : incomingTs;
+        const entry: StateEntry = {
+            value: finalValue, timestamp: entryTs, peerId, lastCiphertext: merged ? undefined : payload, replica,
+            expiresAt: replica ? undefined : expiresAt, authority: authority || undefined,
+        };
+        this.state.set(key, entry);
+        this.history?.record(key, { value: finalValue, timestamp: incomingTs, peerId, expiresAt });
+        // A newer valid write supersedes a quarantined one
+        if ((this.quarantine.get(key)?.timestamp ?? entryTs) < entryTs) this.quarantine.delete(key);
+        this.persist(key, entry);
+        return entry;
+    }
 
-        if (accept) {
-            this.state.set(key, { value, timestamp: incomingTs, peerId, lastCiphertext: payload });
-            this.storage.set(key, payload).catch(e => { });
-            this.emit('op', key, value, false, incomingTs);
-            this.incrementOps();
+    /** Notifies listeners about an accepted remote change. */
+    private announceRemote(key: string, entry: StateEntry, incomingTs: bigint): void {
+        this.emit('op', key, entry.value, false, incomingTs);
+        this.incrementOps();
+        if (entry.replica instanceof MultiValueRegister) {
+            const conflicts = this.getConflicts(key);
+            if (conflicts.length > 0) this.emit('conflict', key, conflicts);
         }
     }
 
     /** 
      * Compare-And-Swap (Optimistic).
+     * Waits for the server's verdict on this request: true on its Ack, false on its Nack or
+     * Reject, and false after `options.timeout` milliseconds (5000 by default) without one, while
+     * the optimistic write stays speculative until the verdict arrives.
      */
-    async cas<T = unknown>(key: string, expected: T | null, newValue: T): Promise<boolean> {
+    async cas<T = unknown>(key: string, expected: T | null, newValue: T, options: CASOptions = {}): Promise<boolean> {
         // Pillar 3: Guard
         if (this.isGapDetected) return false;
+        this.authorize(key, newValue);
+        this.validate(key, newValue);
 
-        const entry = this.state.get(key);
+        const entry = this.live(key);
         const current = entry?.value as T | undefined;
 
         if (expected === null) {
@@ -343,7 +1276,7 @@ export class SyncEngine extends EventEmitter {
             if (!deepEqual(current, expected)) return false;
         }
 
-        const plainNew = encodeValue(newValue);
+        const plainNew = encodeValue(this.versioned(key, newValue));
         let expectedPayload: Uint8Array | null = null;
         let newPayload: Uint8Array = plainNew;
 
@@ -351,105 +1284,218 @@ export class SyncEngine extends EventEmitter {
             if (expected !== null) expectedPayload = entry?.lastCiphertext || null;
             newPayload = await this.encryption.encrypt(plainNew);
         } else {
-            if (expected !== null) expectedPayload = encodeValue(expected);
+            if (expected !== null) expectedPayload = encodeValue(this.versioned(key, expected));
         }
 
         const timestamp = this.hlc.now();
         this.lastSeenHLC = timestamp;
 
-        this.state.set(key, { value: newValue, timestamp, peerId: this.peerId, lastCiphertext: newPayload });
+        const written: StateEntry = { value: newValue, timestamp, peerId: this.peerId, lastCiphertext: newPayload };
+        const previous = this.state.get(key);
+        this.state.set(key, written);
+        this.history?.record(key, { value: newValue, timestamp, peerId: this.peerId });
         this.incrementOps();
 
         this.emit('op', key, newValue, true, timestamp, false, true);
 
-        const op: Operation = { key, value: newValue, timestamp, peerId: this.peerId, deps: this.getHeads() };
-        this.receivedOps.add(this.getOpHash(key, timestamp, this.peerId));
+        const op: Operation = { key, value: this.versioned(key, newValue), timestamp, peerId: this.peerId, deps: this.getHeads() };
+        // Peers never see this op as an Op (it travels as a CompareAndSwap the server rules on),
+        // so it must stay off the frontier: an op depending on it would wait for it forever
+        this.recordOp(key, timestamp, this.peerId, op.deps, false);
         this.pendingOps.push(op);
+        this.speculate(op, previous);
 
-        this.storage.set(key, newPayload).catch(e => { });
+        this.persist(key, written);
         const pendingKey = `${PENDING_PREFIX}${timestamp}::${key}`;
         this.storage.set(pendingKey, newPayload).catch(e => { });
 
-        const wireData = encodeCAS(key, expectedPayload, newPayload, this.peerId);
+        const hash = this.getOpHash(key, timestamp, this.peerId);
+        this.casRequests.add(hash);
+        const verdict = new Promise<boolean>(resolve => {
+            // Giving up only settles the caller: the write stays speculative until the server rules
+            const timer = setTimeout(() => this.settleCAS(hash, false), options.timeout ?? DEFAULT_CAS_TIMEOUT);
+            this.casVerdicts.set(hash, { resolve, timer });
+        });
+
+        const wireData = encodeCAS(key, expectedPayload, newPayload, this.peerId, timestamp);
         this.emit('cas', wireData);
 
-        return true;
+        return verdict;
     }
 
     // Pillar 4: Incremental Compaction Logic
     private incrementOps() {
         this.opsSinceLastSnapshot++;
-        if (this.opsSinceLastSnapshot >= this.COMPACTION_THRESHOLD) {
+        if (this.opsSinceLastSnapshot >= this.compactionThreshold) {
             this.compact().catch(e => console.error('[NMeshed] Compaction failed', e));
         }
     }
 
-    /**
-     * Pillar 4: Compaction
-     * Saves full snapshot and deletes old deltas (queue items).
-     * Note: In this Light Engine, "deltas" are mainly the PENDING queue or individual keys.
-     * We treat "snapshot" here as dumping the Memory Map to a single blob if we support that,
-     * OR simply asserting that our current key-value storage IS the snapshot.
-     * 
-     * The Rust core deletes "delta_*" keys. Here we persist `pendingOps` which act as deltas?
-     * No, `pendingOps` are for network retry.
-     * 
-     * Implementation: 
-     * 1. Save all current state as a Monolithic Snapshot (if using a snapshot store).
-     * 2. Actually, since we use KV storage, we are already "compacted" per key (LWW).
-     * 3. BUT, we simulate the Rust behavior by resetting the counter and maybe pruning metadata?
-     * 
-     * Detailed Action: Flush memory to disk (ensure consistency) and reset counter.
-     */
     /**
      * Pillar 4: Compaction & GC
+     * 
+     * Collects tombstones once they are stable: older than the stability window and acknowledged
+     * by every known peer, i.e. the version vector shows an op from that peer newer than the
+     * delete. HLC ordering then guarantees none of that peer's future writes is older than the
+     * delete, so nothing can resurrect the key. Tombstones older than `maxTombstoneAge` are
+     * collected regardless, so a peer that never comes back does not pin them forever.
+     *
+     * The remaining state is then written as one checksummed snapshot, replacing the delta log
+     * of the writes since the previous one. Emits a `gc` event with the outcome.
      */
-    async compact(): Promise<void> {
+    compact(): Promise<void> {
+        // Writes that land meanwhile go to the delta log, which the running compaction keeps
+        if (!this.compacting) {
+            this.compacting = this.runCompaction().finally(() => { this.compacting = null; });
+        }
+        return this.compacting;
+    }
+
+    private async runCompaction(): Promise<void> {
         this.log('Running Incremental Compaction & GC...');
+        this.opsSinceLastSnapshot = 0;
 
         const now = BigInt(Date.now());
-        const stabilityBigInt = BigInt(this.STABILITY_WINDOW);
-        // Pack cutoff: (now - window) << 80
-        const cutoffTs = HLC.pack(now - stabilityBigInt, 0n, 0n);
-
-        let pruneCount = 0;
+        // Pack cutoffs: (now - window) << 80
+        const stableTs = HLC.pack(now - BigInt(this.stabilityWindow), 0n, 0n);
+        const expiredTs = HLC.pack(now - BigInt(this.maxTombstoneAge), 0n, 0n);
+        const peers = [...this.versionVector].filter(([peerId]) => peerId !== this.peerId);
+
+        const clock = this.now();
+        let collected = 0;
+        let retained = 0;
+        const waitingOn = new Set<string>();
         for (const [key, entry] of this.state.entries()) {
-            if (entry.value === null && entry.timestamp < cutoffTs) {
-                this.state.delete(key);
-                await this.storage.delete(key);
-                pruneCount++;
+            // Expired values are deleted as of their expiry, and collected like tombstones
+            const expired = this.isExpired(entry, clock);
+            if (!expired && (entry.value !== null || entry.replica)) continue;
+
+            if ((expired ? entry.expiresAt! : entry.timestamp) >= stableTs) {
+                retained++;
+                continue;
+            }
+            const seq = entry.timestamp >> 64n;
+            const lagging = peers.filter(([, acked]) => acked < seq).map(([peerId]) => peerId);
+            if (lagging.length > 0 && entry.timestamp >= expiredTs) {
+                retained++;
+                lagging.forEach(peerId => waitingOn.add(peerId));
+                continue;
             }
+
+            // Collected before its expiry timer got to announce it
+            if (expired && this.state.isWatched(key)) this.emit('op', key, null, false, entry.expiresAt);
+            this.state.delete(key);
+            collected++;
         }
 
-        if (pruneCount > 0) {
-            this.log(`[GC] Pruned ${pruneCount} tombstones.`);
+        if (collected > 0) {
+            this.log(`[GC] Pruned ${collected} tombstones.`);
         }
+        await this.writeSnapshot();
 
-        this.opsSinceLastSnapshot = 0;
+        this.emit('gc', { collected, retained, waitingOn: [...waitingOn] });
+    }
+
+    /** Folds the current state into the local snapshot and drops the delta log it covers. */
+    private async writeSnapshot(): Promise<void> {
+        const logStart = this.logSeq;
+        const entries: Record<string, Uint8Array> = {};
+        for (const [key, entry] of [...this.state]) {
+            entries[key] = encodeRecord({
+                payload: await this.storedPayload(key, entry),
+                timestamp: entry.timestamp,
+                peerId: entry.peerId,
+                tombstone: !entry.replica && entry.value === null,
+                authority: entry.authority,
+            });
+        }
+        await this.storage.set(SNAPSHOT_KEY, encodeSnapshotRecord({
+            entries,
+            logStart,
+            vectorClock: this.getVersionVector(),
+            isEncrypted: !!this.encryption,
+        }));
+
+        for (const [key] of await this.storage.scanPrefix(LOG_PREFIX)) {
+            if (Number(key.slice(LOG_PREFIX.length)) < logStart) await this.storage.delete(key);
+        }
+        for (const key of this.legacyKeys) await this.storage.delete(key);
+        this.legacyKeys.clear();
     }
 
     // ... Load/Snapshot methods updated for BigInt ...
 
+    /**
+     * Restores state from storage: the local snapshot (checksum verified), then the delta log
+     * written after it. Without a snapshot, per-key values from older versions are loaded instead.
+     */
+    /** Takes over the replica id stored by an earlier session of this peer, or stores ours. */
+    private async loadReplicaId(): Promise<void> {
+        try {
+            const stored = await this.storage.get(REPLICA_ID_KEY);
+            const replicaId = stored ? decodeValue<unknown>(stored) : undefined;
+            if (typeof replicaId === 'string' && replicaId.startsWith(`${this.peerId}:`)) {
+                this.replicaId = replicaId;
+                return;
+            }
+        } catch (e) {
+            this.log('Failed to decode stored replica id', e);
+        }
+        await this.persistReplicaId();
+    }
+
+    private async persistReplicaId(): Promise<void> {
+        await this.storage.set(REPLICA_ID_KEY, encodeValue(this.replicaId));
+    }
+
     async loadFromStorage(): Promise<void> {
-        const items = await this.storage.scanPrefix('');
-        const queueItems: { key: string, payload: Uint8Array }[] = [];
+        await this.loadReplicaId();
 
-        for (const [key, payload] of items) {
-            if (key.startsWith(PENDING_PREFIX)) {
-                queueItems.push({ key, payload });
-                continue;
+        let logStart = 0;
+        const snapshot = await this.storage.get(SNAPSHOT_KEY);
+        if (snapshot) {
+            try {
+                const { entries, logStart: start, vectorClock } = decodeSnapshotRecord(snapshot);
+                logStart = start;
+                this.mergeVersionVector(vectorClock);
+                for (const [key, record] of Object.entries(entries)) await this.loadRecord(key, record);
+            } catch (e) {
+                // Still replay the log; the snapshot sent by the server on connect restores the rest
+                console.error('[NMeshed] Local snapshot is corrupted', e);
+            }
+        } else {
+            for (const [key, stored] of await this.storage.scanPrefix('')) {
+                if ([PENDING_PREFIX, META_PREFIX, LOG_PREFIX, HISTORY_PREFIX].some(prefix => key.startsWith(prefix))) continue;
+                this.legacyKeys.add(key);
+                await this.loadRecord(key, stored);
             }
+        }
+        if (logStart > this.logSeq) this.logSeq = logStart;
+
+        const log = await this.storage.scanPrefix(LOG_PREFIX);
+        log.sort(([a], [b]) => a.localeCompare(b));
+        for (const [entryKey, data] of log) {
+            const seq = Number(entryKey.slice(LOG_PREFIX.length));
+            if (seq >= this.logSeq) this.logSeq = seq + 1;
+            // Already in the snapshot: the compaction that wrote it did not get to delete the entry
+            if (seq < logStart) continue;
             try {
-                let finalPayload = payload;
-                if (this.encryption) finalPayload = await this.encryption.decrypt(payload);
-                const value = decodeValue(finalPayload);
-                // BigInt timestamp 0
-                this.state.set(key, { value, timestamp: 0n, peerId: '', lastCiphertext: payload });
+                const { key, record } = decodeLogEntry(data);
+                await this.loadRecord(key, record);
             } catch (e) {
-                this.log(`Failed to decode stored key ${key}`, e);
+                this.log(`Failed to replay delta log entry ${entryKey}`, e);
             }
         }
 
+        await this.history?.load();
+
+        const vector = await this.storage.get(VERSION_VECTOR_KEY);
+        if (vector) {
+            try { this.mergeVersionVector(decodeVersionVector(vector)); }
+            catch (e) { this.log('Failed to decode stored version vector', e); }
+        }
+
+        const queueItems = (await this.storage.scanPrefix(PENDING_PREFIX)).map(([key, payload]) => ({ key, payload }));
         queueItems.sort((a, b) => a.key.localeCompare(b.key));
         for (const item of queueItems) {
             const parts = item.key.split('::');
@@ -472,29 +1518,66 @@ export class SyncEngine extends EventEmitter {
         }
     }
 
-    async loadSnapshot(data: Uint8Array, serverTime?: bigint): Promise<void> {
+    /** Loads one stored record (or a bare payload from before records existed) into the state. */
+    private async loadRecord(key: string, stored: Uint8Array): Promise<void> {
+        try {
+            // Bare payloads predate records: they load without LWW metadata (timestamp 0)
+            const record = decodeRecord(stored);
+            const payload = record ? record.payload : stored;
+            let value: unknown = null;
+            if (!record?.tombstone) {
+                value = decodeValue(this.encryption ? await this.encryption.decrypt(payload) : payload);
+            }
+            const timestamp = record?.timestamp ?? 0n;
+            if (timestamp > 0n) this.lastSeenHLC = this.hlc.update(timestamp);
+            // Typed keys are logged as deltas: merge them into what is loaded so far
+            this.state.set(key, {
+                ...this.materialize(key, value, this.state.get(key)?.replica), timestamp, peerId: record?.peerId ?? '', lastCiphertext: payload,
+                authority: record?.authority || undefined,
+            });
+        } catch (e) {
+            this.log(`Failed to decode stored key ${key}`, e);
+        }
+    }
+
+    /**
+     * Replaces the state with a server snapshot (a map of key to value).
+     * `authorityKeys` are the keys whose value was written by an authority peer.
+     */
+    async loadSnapshot(data: Uint8Array, serverTime?: bigint, authorityKeys: string[] = []): Promise<void> {
         try {
             const snapshot = decodeValue<Record<string, unknown>>(data);
             if (!snapshot || typeof snapshot !== 'object') return;
 
+            const baseTs = serverTime || HLC.pack(BigInt(Date.now()), 0n, 0n);
+
             await this.storage.clearAll();
+            await this.persistReplicaId();
             const entries = await this.processSnapshotEntries(snapshot);
             await this.restorePendingOps();
+            await this.history?.restore();
 
-            const baseTs = serverTime || HLC.pack(BigInt(Date.now()), 0n, 0n);
             this.lastSeenHLC = this.hlc.update(baseTs);
 
-            this.applySnapshotToMemory(entries, baseTs);
+            this.applySnapshotToMemory(entries, baseTs, new Set(authorityKeys));
+            await this.writeSnapshot().catch(e => console.error('[NMeshed] Persistence failed', e));
+
+            // Everything up to the snapshot is delivered. The frontier is kept: the server knows
+            // those ops, so it can still serve a delta from them after the next reconnect.
+            if (baseTs > this.causalFloor) this.causalFloor = baseTs;
+            // Storage was wiped, including the version vector
+            this.persistVersionVector();
 
             // Snapshot clears Gap State
             this.isGapDetected = false;
+            await this.drainBuffer();
 
             this.log(`Loaded snapshot (${entries.length} items)`);
         } catch (e) { this.log('Could not decode snapshot', e); }
     }
 
-    private async processSnapshotEntries(snapshot: Record<string, unknown>): Promise<[string, any][]> {
-        const entries: [string, any][] = [];
+    private async processSnapshotEntries(snapshot: Record<string, unknown>): Promise<[string, any, Uint8Array][]> {
+        const entries: [string, any, Uint8Array][] = [];
         for (const [key, rawValue] of Object.entries(snapshot)) {
             let val = rawValue;
             let storedValue = rawValue;
@@ -505,8 +1588,7 @@ export class SyncEngine extends EventEmitter {
             } else {
                 storedValue = encodeValue(rawValue);
             }
-            entries.push([key, val]);
-            await this.storage.set(key, storedValue as Uint8Array).catch(() => { });
+            entries.push([key, val, storedValue as Uint8Array]);
         }
         return entries;
     }
@@ -520,23 +1602,108 @@ export class SyncEngine extends EventEmitter {
         }
     }
 
-    private applySnapshotToMemory(entries: [string, any][], baseTs: bigint): void {
+    private applySnapshotToMemory(entries: [string, any, Uint8Array][], baseTs: bigint, authorityKeys: Set<string>): void {
         this.state.clear();
-        for (const [key, val] of entries) {
-            // Use 'SNAPSHOT' instead of 'Ω_SNAPSHOT' to prevent Authority Veto on subsequent updates
-            this.state.set(key, { value: val, timestamp: baseTs, peerId: 'SNAPSHOT' });
-            this.emit('op', key, val, false, baseTs);
+        for (const [key, val, payload] of entries) {
+            const entry = this.materialize(key, val);
+            const invalid = entry.replica ? null : this.options.schemas?.validate(key, entry.value, 'remote');
+            if (invalid) {
+                this.isolate(key, entry.value, 'SNAPSHOT', baseTs, invalid);
+                continue;
+            }
+            this.state.set(key, { ...entry, timestamp: baseTs, peerId: 'SNAPSHOT', lastCiphertext: payload, authority: authorityKeys.has(key) || undefined });
+            this.emit('op', key, entry.value, false, baseTs);
         }
+        // Pending ops now speculate on top of the snapshot
+        this.speculation.clear();
+        this.typedEdits.clear();
         for (const op of this.pendingOps) {
-            this.state.set(op.key, { value: op.value, timestamp: op.timestamp, peerId: this.peerId });
-            this.emit('op', op.key, op.value, true, op.timestamp, true);
+            // Pending typed ops are deltas: fold them into the snapshot replica
+            const previous = this.state.get(op.key);
+            if (isCRDTEnvelope(op.value)) {
+                this.trackEdits(op.key, previous?.replica?.type === op.value.__crdt ? previous.replica : undefined);
+                this.typedEdits.get(op.key)!.ops.push(op);
+            }
+            const entry = this.materialize(op.key, op.value, previous?.replica);
+            this.state.set(op.key, { ...entry, timestamp: op.timestamp, peerId: this.peerId });
+            this.speculate(op, previous);
+            this.emit('op', op.key, entry.value, true, op.timestamp, true);
         }
     }
 
-    // ... Standard getters
-    getSnapshot() { return Object.fromEntries(Array.from(this.state.entries()).map(([k, v]) => [k, v.value])); }
+    /**
+     * Turns a decoded value into its in-memory form.
+     * Envelopes are merged into `base` (or a fresh replica); plain values are migrated.
+     */
+    private materialize(key: string, value: unknown, base?: Replica): { value: unknown; replica?: Replica; expiresAt?: bigint } {
+        if (isTTLEnvelope(value)) {
+            const { value: inner, expiresAt } = unwrapTTL(value);
+            return { value: this.upgrade(key, inner), expiresAt };
+        }
+        if (!isCRDTEnvelope(value)) return { value: this.upgrade(key, value) };
+        const replica = base?.type === value.__crdt ? base : createReplica(value.__crdt);
+        replica.merge((this.upgrade(key, value) as CRDTEnvelope).delta);
+        const clock = replica.clock();
+        if (clock > 0n) this.lastSeenHLC = this.hlc.update(clock);
+        return { value: replica.value(), replica };
+    }
+
+    /**
+     * Appends a state entry with its LWW metadata to the delta log (fire-and-forget).
+     * Typed keys append only the delta they were written with (`lastCiphertext`); replaying the
+     * log merges the deltas back into the replica, and snapshots store the full replica state.
+     */
+    private persist(key: string, entry: StateEntry): void {
+        // Taken before any await so the log keeps write order
+        const seq = this.logSeq++;
+        const write = (payload: Uint8Array) => this.storage.set(logKey(seq), encodeLogEntry(key, encodeRecord({
+            payload,
+            timestamp: entry.timestamp,
+            peerId: entry.peerId,
+            tombstone: !entry.replica && entry.value === null,
+            authority: entry.authority,
+        })));
+
+        if (entry.lastCiphertext) {
+            write(entry.lastCiphertext).catch(e => console.error('[NMeshed] Persistence failed', e));
+        } else if (entry.replica) {
+            // Merged from a plain value and a delta: log the whole replica instead
+            this.storedPayload(key, entry).then(write).catch(e => console.error('[NMeshed] Persistence failed', e));
+        }
+    }
+
+    /** The stored form of an entry's value: encrypted when E2EE is on, plain MsgPack otherwise. */
+    private async storedPayload(key: string, entry: StateEntry): Promise<Uint8Array> {
+        let payload: Uint8Array;
+        if (entry.replica) {
+            payload = encodeValue(this.versionedDelta(key, toEnvelope(entry.replica.type, entry.replica.state())));
+        } else if (entry.lastCiphertext) {
+            return entry.lastCiphertext;
+        } else {
+            // In-memory values are always at the registered schema version
+            payload = encodeValue(this.versioned(key, entry.value));
+        }
+        return this.encryption ? this.encryption.encrypt(payload) : payload;
+    }
+
+    // ... Standard getters (lease records are internal and left out, see LOCK_PREFIX)
+    getSnapshot() {
+        const now = this.now();
+        return Object.fromEntries(Array.from(this.state.entries()).filter(([k, v]) => !k.startsWith(LOCK_PREFIX) && !this.isExpired(v, now)).map(([k, v]) => [k, v.value]));
+    }
     getAllValues() { return this.getSnapshot(); }
-    forEach(cb: (v: unknown, k: string) => void) { this.state.forEach((v, k) => cb(v.value, k)); }
+    /** Values of the keys starting with `prefix`, found through the key index. */
+    getByPrefix(prefix: string): Record<string, unknown> {
+        const now = this.now();
+        const internal = prefix.startsWith(LOCK_PREFIX);
+        const keys = this.state.index.under(prefix).filter(key =>
+            (internal || !key.startsWith(LOCK_PREFIX)) && !this.isExpired(this.state.get(key)!, now));
+        return Object.fromEntries(keys.map(key => [key, this.state.get(key)!.value]));
+    }
+    forEach(cb: (v: unknown, k: string) => void) {
+        const now = this.now();
+        this.state.forEach((v, k) => { if (!k.startsWith(LOCK_PREFIX) && !this.isExpired(v, now)) cb(v.value, k); });
+    }
     getStatus() { return this.status; }
     setStatus(s: ConnectionStatus) {
         if (this.status !== s) {
@@ -554,7 +1721,24 @@ export class SyncEngine extends EventEmitter {
         ops.forEach(op => this.storage.delete(`${PENDING_PREFIX}${op.timestamp}::${op.key}`).catch(() => { }));
         return ops;
     }
-    destroy() { this.clear(); this.state.clear(); this.pendingOps = []; }
+    /** Drops queued ops the server confirmed it stored (HLC upper 64 bits at or below `upTo`). */
+    acknowledge(upTo: bigint) {
+        // A CAS request may still be refused: only the Ack or Nack for the request itself settles it
+        const isAcked = (op: Operation) => op.timestamp >> 64n <= upTo && !this.casRequests.has(this.getOpHash(op.key, op.timestamp, this.peerId));
+        this.speculation.confirmWhere(isAcked);
+        for (const key of this.typedEdits.keys()) {
+            if (!this.speculation.isSpeculative(key)) this.typedEdits.delete(key);
+        }
+        const acked = this.pendingOps.filter(isAcked);
+        if (acked.length === 0) return;
+        this.pendingOps = this.pendingOps.filter(op => !isAcked(op));
+        acked.forEach(op => this.storage.delete(`${PENDING_PREFIX}${op.timestamp}::${op.key}`).catch(() => { }));
+    }
+    destroy() {
+        for (const hash of [...this.casVerdicts.keys()]) this.settleCAS(hash, false);
+        this.casRequests.clear();
+        this.clear(); this.state.clear(); this.pendingOps = []; this.speculation.clear(); this.typedEdits.clear(); this.quarantine.clear(); this.history?.clear();
+    }
     attachCore(core: CRDTCore) { this.core = core; }
     setClockOffset(offset: number) {
         // We accumulate offset into HLC if possible, but HLC is monotonic.
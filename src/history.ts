@@ -0,0 +1,173 @@
+/**
+ * @module History
+ * @description
+ * Optional op-log retention (see `NMeshedConfig.history`): past values of every key, with the
+ * HLC timestamp and writer of each, so earlier states can be inspected and restored.
+ *
+ * Every write this client applies (its own, and remote ones that won LWW) is kept in timestamp
+ * order, up to `maxVersions` per key, and persisted under `history::`. Values in a server
+ * snapshot are not ops and are not recorded, so a key is only known from its first write seen
+ * here. A local write the server rejects is dropped again.
+ */
+
+import type { HistoryEntry, HistoryOptions, HistoryQuery, IStorage } from './types';
+import { encodeValue, decodeValue } from './protocol';
+
+/** Storage prefix of history entries: `history::<key>:<timestamp>:<peerId>` */
+export const HISTORY_PREFIX = 'history::';
+const DEFAULT_MAX_VERSIONS = 100;
+
+/** How values are sealed in storage (encrypted when E2EE is on). */
+export interface HistoryCodec {
+    encode(value: unknown): Promise<Uint8Array>;
+    decode(data: Uint8Array): Promise<unknown>;
+}
+
+/** On-disk layout (MsgPack) */
+interface StoredEntry {
+    key: string;
+    /** HLC timestamp as a decimal string */
+    ts: string;
+    peer: string;
+    payload: Uint8Array;
+    /** HLC expiry as a decimal string, for a value written with a TTL */
+    expires?: string;
+}
+
+function storageKey(key: string, entry: HistoryEntry): string {
+    return `${HISTORY_PREFIX}${key}:${entry.timestamp}:${entry.peerId}`;
+}
+
+/** LWW order: timestamp, then peer id. */
+function compare(a: HistoryEntry, b: HistoryEntry): number {
+    if (a.timestamp !== b.timestamp) return a.timestamp < b.timestamp ? -1 : 1;
+    return a.peerId < b.peerId ? -1 : a.peerId > b.peerId ? 1 : 0;
+}
+
+function clone<T>(value: T): T {
+    return typeof structuredClone === 'function' ? structuredClone(value) : JSON.parse(JSON.stringify(value));
+}
+
+export class HistoryLog {
+    private storage: IStorage;
+    private codec: HistoryCodec;
+    private maxVersions: number;
+    // Past values by key, oldest first
+    private entries = new Map<string, HistoryEntry[]>();
+
+    constructor(storage: IStorage, codec: HistoryCodec, options: HistoryOptions = {}) {
+        this.storage = storage;
+        this.codec = codec;
+        this.maxVersions = options.maxVersions ?? DEFAULT_MAX_VERSIONS;
+    }
+
+    /** Records a write applied to `key`, and persists it (fire-and-forget). */
+    record(key: string, entry: HistoryEntry): void {
+        entry = { ...entry, value: clone(entry.value) };
+        if (!this.insert(key, entry)) return;
+        this.persist(key, entry).catch(e => console.error('[NMeshed] History persistence failed', e));
+    }
+
+    /** Drops the write `peerId` made to `key` at `timestamp` (a rolled back local op). */
+    forget(key: string, timestamp: bigint, peerId: string): void {
+        const list = this.entries.get(key);
+        const index = list?.findIndex(e => e.timestamp === timestamp && e.peerId === peerId) ?? -1;
+        if (index < 0) return;
+        const [removed] = list!.splice(index, 1);
+        if (list!.length === 0) this.entries.delete(key);
+        this.storage.delete(storageKey(key, removed)).catch(() => { });
+    }
+
+    /** Past values of `key`, oldest first, narrowed by `query`. */
+    get(key: string, query: HistoryQuery = {}): HistoryEntry[] {
+        const since = query.since ?? -1n;
+        return (this.entries.get(key) ?? [])
+            .filter(e => e.timestamp > since)
+            .slice(0, query.limit ?? Infinity)
+            .map(e => ({ ...e, value: clone(e.value) }));
+    }
+
+    /**
+     * The newest recorded write to `key` at or before `timestamp`, if any. A value whose TTL had
+     * run out by then shows as `null`, like a delete.
+     */
+    valueAt(key: string, timestamp: bigint): HistoryEntry | undefined {
+        const list = this.entries.get(key) ?? [];
+        for (let i = list.length - 1; i >= 0; i--) {
+            const entry = list[i];
+            if (entry.timestamp > timestamp) continue;
+            const expired = entry.expiresAt !== undefined && entry.expiresAt <= timestamp;
+            return { ...entry, value: expired ? null : clone(entry.value) };
+        }
+        return undefined;
+    }
+
+    /** Every recorded key as of `timestamp`. Keys deleted, expired or not yet written by then are left out. */
+    stateAt(timestamp: bigint): Record<string, unknown> {
+        const state: Record<string, unknown> = {};
+        for (const key of this.entries.keys()) {
+            const entry = this.valueAt(key, timestamp);
+            if (entry && entry.value !== null) state[key] = entry.value;
+        }
+        return state;
+    }
+
+    /** Loads the persisted history. */
+    async load(): Promise<void> {
+        for (const [storedKey, data] of await this.storage.scanPrefix(HISTORY_PREFIX)) {
+            try {
+                const stored = decodeValue<StoredEntry>(data);
+                const entry: HistoryEntry = { value: await this.codec.decode(stored.payload), timestamp: BigInt(stored.ts), peerId: stored.peer };
+                if (stored.expires !== undefined) entry.expiresAt = BigInt(stored.expires);
+                if (!this.insert(stored.key, entry)) await this.storage.delete(storedKey);
+            } catch (e) {
+                console.error(`[NMeshed] Failed to load history entry ${storedKey}`, e);
+            }
+        }
+    }
+
+    /** Writes the whole history back, e.g. after storage was wiped for a server snapshot. */
+    async restore(): Promise<void> {
+        for (const [key, list] of this.entries) {
+            for (const entry of list) await this.persist(key, entry);
+        }
+    }
+
+    clear(): void {
+        this.entries.clear();
+    }
+
+    /**
+     * Inserts in LWW order and trims the oldest past `maxVersions`.
+     * @returns False if the entry is a duplicate or was trimmed right away.
+     */
+    private insert(key: string, entry: HistoryEntry): boolean {
+        let list = this.entries.get(key);
+        if (!list) {
+            list = [];
+            this.entries.set(key, list);
+        }
+        let index = list.length;
+        while (index > 0 && compare(list[index - 1], entry) > 0) index--;
+        if (index > 0 && compare(list[index - 1], entry) === 0) return false;
+        list.splice(index, 0, entry);
+
+        while (list.length > this.maxVersions) {
+            const [trimmed] = list.splice(0, 1);
+            if (trimmed === entry) return false;
+            this.storage.delete(storageKey(key, trimmed)).catch(() => { });
+        }
+        return true;
+    }
+
+    private async persist(key: string, entry: HistoryEntry): Promise<void> {
+        const stored: StoredEntry = {
+            key,
+            ts: entry.timestamp.toString(),
+            peer: entry.peerId,
+            payload: await this.codec.encode(entry.value),
+        };
+        if (entry.expiresAt !== undefined) stored.expires = entry.expiresAt.toString();
+        await this.storage.set(storageKey(key, entry), encodeValue(stored));
+    }
+}
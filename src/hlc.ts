@@ -38,13 +38,20 @@ export class HLC {
 
     constructor(nodeId: string | bigint) {
         if (typeof nodeId === 'string') {
-            // Hash string to 64-bit BigInt if string provided
-            this.nodeId = BigInt('0x' + this.hashString(nodeId).slice(0, 16));
+            this.nodeId = HLC.nodeIdFor(nodeId);
         } else {
             this.nodeId = nodeId;
         }
     }
 
+    /**
+     * Hashes a peer id to the 64-bit node id used in the low bits of its timestamps.
+     * Lets compact encodings ship only the upper 64 bits and rebuild the rest from the actor.
+     */
+    static nodeIdFor(peerId: string): bigint {
+        return BigInt('0x' + HLC.hashString(peerId).slice(0, 16));
+    }
+
     /**
      * Unpacks a 128-bit hybrid timestamp.
      */
@@ -125,7 +132,7 @@ export class HLC {
         return a > b ? a : b;
     }
 
-    private hashString(str: string): string {
+    private static hashString(str: string): string {
         // Simple hash fallback for demo - in prod use robust hash
         let hash = 5381n;
         for (let i = 0; i < str.length; i++) {
@@ -16,10 +16,34 @@ export {
     Operation,
     EventHandler,
     CRDTCore,
+    ConflictValue,
+    Transaction,
+    GCOptions,
+    GCStats,
+    SetOptions,
+    CASOptions,
+    AccessPolicy,
+    PolicyOperation,
+    AuthorityVeto,
+    RollbackChange,
+    Schema,
+    VersionedSchema,
+    QuarantinedValue,
+    HistoryEntry,
+    HistoryOptions,
+    HistoryQuery,
 } from './types';
 
 // Engine (for advanced usage)
-export { SyncEngine } from './engine';
+export { SyncEngine, type EngineOptions } from './engine';
+export type { ListItem, TextAnchor } from './crdt';
+export { UndoManager, type UndoManagerOptions } from './undo';
+export { LiveQuery, type QueryOptions, type OrderBy } from './query';
+export { Awareness, type AwarenessListener, type AwarenessOptions } from './awareness';
+export { AccessControl, PolicyError } from './policy';
+export { LockManager, Lease, type LeaseOptions, type LockSource } from './locks';
+export { SchemaRegistry, SchemaError } from './schemas';
+export { Branch, type BranchSource } from './branch';
 
 // Transport (for custom implementations)
 export * from "./client";
@@ -0,0 +1,142 @@
+/**
+ * @module Locks
+ * @description
+ * Leases: distributed locks that expire, built on server-acknowledged CAS and HLC time.
+ *
+ * A lease is a plain value under `__locks.<name>`: its owner, its fencing token and its expiry
+ * (a packed HLC timestamp). Acquiring swaps a free, released or expired lease for one naming this
+ * peer, so a lock held by a crashed peer is free again once its lease runs out. Every
+ * acquisition increments the token; hand it to the resource being protected, which should
+ * refuse any token older than the newest it has seen (a holder whose lease lapsed while it was
+ * paused then cannot overwrite its successor's work).
+ *
+ * @example
+ * ```ts
+ * const lease = await client.locks.acquire('billing-export', { ttl: 30_000 });
+ * if (lease) {
+ *     try { await exportInvoices({ fencingToken: lease.token }); }
+ *     finally { await lease.release(); }
+ * }
+ * ```
+ */
+
+import { HLC } from './hlc';
+
+/**
+ * Storage prefix of lease values. They are internal: snapshots, prefix reads and prefix
+ * subscriptions leave them out unless the prefix itself starts with it.
+ */
+export const LOCK_PREFIX = '__locks.';
+
+/** Value stored for a lock. */
+interface LeaseRecord {
+    /** Peer holding the lease, or null once released */
+    owner: string | null;
+    /** Fencing token of the latest acquisition */
+    token: number;
+    /** Packed HLC timestamp (decimal) at which the lease lapses */
+    expiresAt: string;
+}
+
+export interface LeaseOptions {
+    /** Lease duration in milliseconds */
+    ttl: number;
+}
+
+/** What the lock manager needs from the client. */
+export interface LockSource {
+    get<T = unknown>(key: string): T | undefined;
+    cas<T = unknown>(key: string, expected: T | null, newValue: T): Promise<boolean>;
+    getPeerId(): string;
+    /** Current HLC time, which lease expiry is measured against */
+    now(): bigint;
+}
+
+/** A held lock. It is lost when it expires without being renewed. */
+export class Lease {
+    readonly name: string;
+    /** Increases with every acquisition of this lock, by any peer */
+    readonly token: number;
+    private locks: LockManager;
+    private record: LeaseRecord;
+    private ttl: number;
+
+    /** @internal Created by {@link LockManager.acquire}. */
+    constructor(locks: LockManager, name: string, record: LeaseRecord, ttl: number) {
+        this.locks = locks;
+        this.name = name;
+        this.token = record.token;
+        this.record = record;
+        this.ttl = ttl;
+    }
+
+    /** HLC timestamp at which the lease lapses unless renewed. */
+    get expiresAt(): bigint {
+        return BigInt(this.record.expiresAt);
+    }
+
+    /**
+     * Extends the lease to `ttl` milliseconds from now (default: the ttl it was acquired with).
+     * @returns False if the lease was lost to another peer.
+     */
+    async renew(ttl = this.ttl): Promise<boolean> {
+        const renewed = { ...this.record, expiresAt: this.locks.expiryFrom(ttl) };
+        if (!await this.locks.swap(this.name, this.record, renewed)) return false;
+        this.record = renewed;
+        this.ttl = ttl;
+        return true;
+    }
+
+    /**
+     * Frees the lock for other peers. The fencing token is kept, so the next holder's is higher.
+     * @returns False if the lease was already lost.
+     */
+    async release(): Promise<boolean> {
+        const released: LeaseRecord = { owner: null, token: this.record.token, expiresAt: '0' };
+        if (!await this.locks.swap(this.name, this.record, released)) return false;
+        this.record = released;
+        return true;
+    }
+}
+
+export class LockManager {
+    private source: LockSource;
+
+    constructor(source: LockSource) {
+        this.source = source;
+    }
+
+    /**
+     * Acquires the lock `name` for `ttl` milliseconds.
+     * @returns The lease, or null if another holder's lease (or one of ours) is still running,
+     * or the server gave the lock to a competing peer.
+     */
+    async acquire(name: string, options: LeaseOptions): Promise<Lease | null> {
+        const current = this.source.get<LeaseRecord>(LOCK_PREFIX + name) ?? null;
+        if (current?.owner && BigInt(current.expiresAt) > this.source.now()) return null;
+
+        const record: LeaseRecord = {
+            owner: this.source.getPeerId(),
+            token: (current?.token ?? 0) + 1,
+            expiresAt: this.expiryFrom(options.ttl),
+        };
+        if (!await this.swap(name, current, record)) return null;
+        return new Lease(this, name, record, options.ttl);
+    }
+
+    /** True if a lease on `name` is held and has not expired. */
+    isLocked(name: string): boolean {
+        const current = this.source.get<LeaseRecord>(LOCK_PREFIX + name);
+        return !!current?.owner && BigInt(current.expiresAt) > this.source.now();
+    }
+
+    /** @internal */
+    expiryFrom(ttl: number): string {
+        return HLC.pack(HLC.unpack(this.source.now()).wall + BigInt(ttl), 0n, 0n).toString();
+    }
+
+    /** @internal */
+    swap(name: string, expected: LeaseRecord | null, next: LeaseRecord): Promise<boolean> {
+        return this.source.cas<LeaseRecord>(LOCK_PREFIX + name, expected, next);
+    }
+}
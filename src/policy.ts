@@ -0,0 +1,53 @@
+/**
+ * @module Policy
+ * @description
+ * Declarative, prefix-based access control for local writes (see `NMeshedConfig.policies`).
+ *
+ * The check runs before a write touches state, so a denied write never shows up locally or on
+ * the wire. It mirrors the server's rules and does not replace them: a write the server rejects
+ * anyway is rolled back by the engine and reported with the same {@link PolicyError}.
+ */
+
+import type { AccessPolicy, PolicyOperation } from './types';
+import { PrefixTrie } from './utils/trie';
+
+/** A write denied by an access policy, locally or by the server. Emitted as the `error` event. */
+export class PolicyError extends Error {
+    readonly key: string;
+    readonly operation: PolicyOperation;
+    /** `local` when the configured policy denied it, `server` when the server rejected it */
+    readonly source: 'local' | 'server';
+
+    constructor(key: string, operation: PolicyOperation, source: 'local' | 'server', reason?: string) {
+        super(`[NMeshed] ${operation} on ${key} denied${source === 'server' ? ' by the server' : ''}${reason ? `: ${reason}` : ''}`);
+        this.name = 'PolicyError';
+        this.key = key;
+        this.operation = operation;
+        this.source = source;
+    }
+}
+
+export class AccessControl {
+    private policies: Record<string, AccessPolicy>;
+    private roles: Set<string>;
+    private prefixes = new PrefixTrie<string>();
+
+    constructor(policies: Record<string, AccessPolicy>, roles: string[] = []) {
+        this.policies = policies;
+        this.roles = new Set(roles);
+        for (const prefix of Object.keys(policies)) this.prefixes.add(prefix, prefix);
+    }
+
+    /** True if this user's roles allow `operation` on `key`. Keys without a policy are open. */
+    allows(key: string, operation: PolicyOperation): boolean {
+        // matching() lists shorter prefixes first
+        const prefix = this.prefixes.matching(key).pop();
+        const allowed = prefix === undefined ? undefined : this.policies[prefix][operation];
+        return !allowed || allowed.some(role => this.roles.has(role));
+    }
+
+    /** @throws {PolicyError} If the policy denies `operation` on `key`. */
+    check(key: string, operation: PolicyOperation): void {
+        if (!this.allows(key, operation)) throw new PolicyError(key, operation, 'local');
+    }
+}
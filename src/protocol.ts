@@ -15,6 +15,7 @@ import { Builder, ByteBuffer } from 'flatbuffers';
 import { encode, decode } from '@msgpack/msgpack';
 import * as FBS from './schema/nmeshed';
 import { Hlc } from './schema/nmeshed/hlc';
+import { HLC } from './hlc';
 
 // =============================================================================
 // Message Types
@@ -44,8 +45,10 @@ export function decodeValue<T = unknown>(data: Uint8Array): T {
  * Encode a standard Operation (Set/Delete).
  * 
  * Uses strict FlatBuffers Schema (Op Table).
+ * `isAuthority` is asserted by the server for ops from authority peers. Clients never set it,
+ * and the server clears it on every op it relays from a client.
  */
-export function encodeOp(key: string, payload: Uint8Array, timestamp?: bigint, isEncrypted = false, actorId?: string, deps: string[] = []): Uint8Array {
+export function encodeOp(key: string, payload: Uint8Array, timestamp?: bigint, isEncrypted = false, actorId?: string, deps: string[] = [], isAuthority = false): Uint8Array {
     const builder = new Builder(256);
 
     // 1. Prepare Strings/Vectors
@@ -53,6 +56,9 @@ export function encodeOp(key: string, payload: Uint8Array, timestamp?: bigint, i
     const valVector = builder.createByteVector(payload);
     const actorOffset = actorId ? builder.createString(actorId) : 0;
     const wsOffset = builder.createString("");
+    const depsOffset = deps.length > 0
+        ? FBS.Op.createDepsVector(builder, deps.map(d => builder.createString(d)))
+        : 0;
 
     // 2. Encode HLC (Timestamp)
     // 2. Encode HLC (Timestamp)
@@ -90,6 +96,8 @@ export function encodeOp(key: string, payload: Uint8Array, timestamp?: bigint, i
     FBS.Op.addIsDelete(builder, false);
     FBS.Op.addSeq(builder, 0n); // Default seq
     FBS.Op.addIsEncrypted(builder, isEncrypted);
+    if (depsOffset) FBS.Op.addDeps(builder, depsOffset);
+    if (isAuthority) FBS.Op.addIsAuthority(builder, true);
 
     const opOffset = FBS.Op.endOp(builder);
 
@@ -105,14 +113,75 @@ export function encodeOp(key: string, payload: Uint8Array, timestamp?: bigint, i
     return builder.asUint8Array();
 }
 
-/** Encode Init/Snapshot */
-export function encodeInit(snapshot: Uint8Array, serverTime = 0): Uint8Array {
+/** One write inside a {@link encodeBatch} packet. */
+export interface BatchOp {
+    key: string;
+    payload: Uint8Array;
+    timestamp: bigint;
+}
+
+/**
+ * Encode an atomic group of writes from one actor (ColumnarOpBatch).
+ * 
+ * The `timestamps` column is int64, so it carries the upper half of each 128-bit HLC
+ * (physical + logical). The lower half is the actor's node id, which the decoder rebuilds
+ * from the actor registry sent alongside the batch.
+ *
+ * `deps` is the causal frontier the transaction was made on (the deps of its first write);
+ * the writes after it each depend on the one before. `isAuthority` is server-asserted, as for
+ * {@link encodeOp}.
+ */
+export function encodeBatch(ops: BatchOp[], actorId: string, deps: string[] = [], isAuthority = false): Uint8Array {
+    const builder = new Builder(256 + ops.reduce((n, op) => n + op.payload.length + op.key.length, 0));
+
+    const wsOffset = builder.createString("");
+    const keysVector = FBS.ColumnarOpBatch.createKeysVector(builder, ops.map(op => builder.createString(op.key)));
+    const blobsVector = FBS.ColumnarOpBatch.createValueBlobsVector(builder, ops.map(op =>
+        FBS.ValueBlob.createValueBlob(builder, builder.createByteVector(op.payload))
+    ));
+    const timestampsVector = FBS.ColumnarOpBatch.createTimestampsVector(builder, ops.map(op => op.timestamp >> 64n));
+    const actorsVector = FBS.ColumnarOpBatch.createActorIdxsVector(builder, ops.map(() => 0));
+    const seqsVector = FBS.ColumnarOpBatch.createSeqsVector(builder, ops.map(() => 0n));
+    const deletesVector = FBS.ColumnarOpBatch.createIsDeletesVector(builder, ops.map(() => false));
+    const depsVector = deps.length > 0
+        ? FBS.ColumnarOpBatch.createDepsVector(builder, deps.map(d => builder.createString(d)))
+        : 0;
+
+    const batchOffset = FBS.ColumnarOpBatch.createColumnarOpBatch(
+        builder, wsOffset, keysVector, timestampsVector, 0, blobsVector, actorsVector, seqsVector, deletesVector, depsVector, isAuthority
+    );
+
+    const mapping = FBS.ActorMapping.createActorMapping(builder, 0, builder.createString(actorId));
+    const registryOffset = FBS.ActorRegistry.createActorRegistry(
+        builder, FBS.ActorRegistry.createMappingsVector(builder, [mapping])
+    );
+
+    FBS.WirePacket.startWirePacket(builder);
+    FBS.WirePacket.addMsgType(builder, FBS.MsgType.ColumnarBatch);
+    FBS.WirePacket.addBatch(builder, batchOffset);
+    FBS.WirePacket.addActorRegistry(builder, registryOffset);
+    FBS.WirePacket.addTimestamp(builder, Date.now());
+
+    const packet = FBS.WirePacket.endWirePacket(builder);
+    builder.finish(packet);
+    return builder.asUint8Array();
+}
+
+/**
+ * Encode Init/Snapshot.
+ * `authorityKeys` lists the keys whose value was written by an authority peer (server-asserted).
+ */
+export function encodeInit(snapshot: Uint8Array, serverTime = 0, authorityKeys: string[] = []): Uint8Array {
     const builder = new Builder(1024);
     const dataOffset = builder.createByteVector(snapshot);
+    const authorityOffset = authorityKeys.length > 0
+        ? FBS.Snapshot.createAuthorityKeysVector(builder, authorityKeys.map(k => builder.createString(k)))
+        : 0;
 
     FBS.Snapshot.startSnapshot(builder);
     FBS.Snapshot.addData(builder, dataOffset);
     FBS.Snapshot.addSchemaVersion(builder, 2);
+    if (authorityOffset) FBS.Snapshot.addAuthorityKeys(builder, authorityOffset);
     const snapOffset = FBS.Snapshot.endSnapshot(builder);
 
     FBS.WirePacket.startWirePacket(builder);
@@ -125,6 +194,62 @@ export function encodeInit(snapshot: Uint8Array, serverTime = 0): Uint8Array {
     return builder.asUint8Array();
 }
 
+/**
+ * Encode a SyncRequest: the client's causal frontier (op hashes), so the server can reply
+ * with only the ops the client is missing. The server streams those as regular Op/ColumnarBatch
+ * packets and finishes with a Sync packet (see {@link encodeSyncPacket}).
+ */
+export function encodeSyncRequest(localHeads: string[]): Uint8Array {
+    const builder = new Builder(256);
+    const wsOffset = builder.createString("");
+    const headsOffset = FBS.SyncRequest.createLocalHeadsVector(builder, localHeads.map(h => builder.createString(h)));
+    const requestOffset = FBS.SyncRequest.createSyncRequest(builder, wsOffset, headsOffset);
+
+    FBS.WirePacket.startWirePacket(builder);
+    FBS.WirePacket.addMsgType(builder, FBS.MsgType.SyncRequest);
+    FBS.WirePacket.addSyncRequest(builder, requestOffset);
+
+    const packet = FBS.WirePacket.endWirePacket(builder);
+    builder.finish(packet);
+    return builder.asUint8Array();
+}
+
+/** Reply to a SyncRequest, sent by the server after the missing ops. */
+export interface SyncReply {
+    /** Per-peer version vector of the server: upper 64 bits of the newest HLC it holds per peer */
+    stateVector: Record<string, bigint>;
+    /** Upper 64 bits of the newest HLC of the requesting client's own ops the server has stored */
+    ackSeq?: bigint;
+    /** Full snapshot, when the server could not work out a delta from the heads */
+    snapshot?: Uint8Array;
+}
+
+/** Encode a Sync packet (see {@link SyncReply}). */
+export function encodeSyncPacket(reply: SyncReply, serverTime = 0): Uint8Array {
+    const builder = new Builder(256 + (reply.snapshot?.length ?? 0));
+
+    const entries = Object.entries(reply.stateVector).map(([peerId, seq]) =>
+        FBS.StateVectorEntry.createStateVectorEntry(builder, builder.createString(peerId), seq)
+    );
+    const vectorOffset = FBS.SyncPacket.createStateVectorVector(builder, entries);
+    const snapshotOffset = reply.snapshot ? FBS.SyncPacket.createSnapshotVector(builder, reply.snapshot) : 0;
+
+    FBS.SyncPacket.startSyncPacket(builder);
+    FBS.SyncPacket.addStateVector(builder, vectorOffset);
+    if (snapshotOffset) FBS.SyncPacket.addSnapshot(builder, snapshotOffset);
+    FBS.SyncPacket.addAckSeq(builder, reply.ackSeq ?? 0n);
+    const syncOffset = FBS.SyncPacket.endSyncPacket(builder);
+
+    FBS.WirePacket.startWirePacket(builder);
+    FBS.WirePacket.addMsgType(builder, FBS.MsgType.Sync);
+    FBS.WirePacket.addSync(builder, syncOffset);
+    if (serverTime > 0) FBS.WirePacket.addTimestamp(builder, serverTime);
+
+    const packet = FBS.WirePacket.endWirePacket(builder);
+    builder.finish(packet);
+    return builder.asUint8Array();
+}
+
 /** Encode Ping */
 export function encodePing(): Uint8Array {
     const builder = new Builder(32);
@@ -160,8 +285,11 @@ export function encodeEncrypted(payload: Uint8Array): Uint8Array {
     return builder.asUint8Array();
 }
 
-/** Encode CAS */
-export function encodeCAS(key: string, expected: Uint8Array | null, newValue: Uint8Array, actorId: string): Uint8Array {
+/**
+ * Encode CAS. The HLC `timestamp` of the optimistic write identifies the request: the server
+ * answers with an Ack or a Nack for it.
+ */
+export function encodeCAS(key: string, expected: Uint8Array | null, newValue: Uint8Array, actorId: string, timestamp?: bigint): Uint8Array {
     const builder = new Builder(256);
 
     const keyOffset = builder.createString(key);
@@ -174,9 +302,15 @@ export function encodeCAS(key: string, expected: Uint8Array | null, newValue: Ui
     FBS.CompareAndSwap.addNewValue(builder, newOffset);
     if (expOffset) FBS.CompareAndSwap.addExpectedValue(builder, expOffset);
     FBS.CompareAndSwap.addActorId(builder, actorOffset);
-
-    // CAS Timestamp
-    // FBS.CompareAndSwap.addTimestamp(builder, ...);
+    if (timestamp !== undefined) {
+        // Inline struct: see encodeOp
+        // @ts-ignore
+        builder.isNested = false;
+        const hlcOffset = Hlc.createHlc(builder, timestamp >> 64n, timestamp & 0xFFFFFFFFFFFFFFFFn);
+        // @ts-ignore
+        builder.isNested = true;
+        FBS.CompareAndSwap.addTimestamp(builder, hlcOffset);
+    }
 
     const casOffset = FBS.CompareAndSwap.endCompareAndSwap(builder);
 
@@ -189,10 +323,116 @@ export function encodeCAS(key: string, expected: Uint8Array | null, newValue: Ui
     return builder.asUint8Array();
 }
 
+/**
+ * Encode a Relay Signal: an opaque payload the server forwards to the other peers of the
+ * workspace (or only to `toPeer`) without storing it. Used for ephemeral awareness state.
+ */
+export function encodeRelay(fromPeer: string, data: Uint8Array, toPeer?: string): Uint8Array {
+    const builder = new Builder(128 + data.length);
+
+    const relayOffset = FBS.Relay.createRelay(builder, FBS.Relay.createDataVector(builder, data));
+    const fromOffset = builder.createString(fromPeer);
+    const toOffset = toPeer ? builder.createString(toPeer) : 0;
+
+    FBS.Signal.startSignal(builder);
+    if (toOffset) FBS.Signal.addToPeer(builder, toOffset);
+    FBS.Signal.addFromPeer(builder, fromOffset);
+    FBS.Signal.addDataType(builder, FBS.SignalData.Relay);
+    FBS.Signal.addData(builder, relayOffset);
+    const signalOffset = FBS.Signal.endSignal(builder);
+
+    FBS.WirePacket.startWirePacket(builder);
+    FBS.WirePacket.addMsgType(builder, FBS.MsgType.Signal);
+    FBS.WirePacket.addSignal(builder, signalOffset);
+
+    const packet = FBS.WirePacket.endWirePacket(builder);
+    builder.finish(packet);
+    return builder.asUint8Array();
+}
+
+/**
+ * Encode an Ack: the server stored the op `actorId` wrote to `key` at `timestamp`.
+ */
+export function encodeAck(key: string, timestamp: bigint, actorId: string): Uint8Array {
+    return encodeOpVerdict(FBS.MsgType.Ack, key, timestamp, actorId);
+}
+
+/**
+ * Encode a Reject: the server refused the op `actorId` wrote to `key` at `timestamp`.
+ */
+export function encodeReject(key: string, timestamp: bigint, actorId: string, reason?: string): Uint8Array {
+    return encodeOpVerdict(FBS.MsgType.Reject, key, timestamp, actorId, encodeValue({ reason }));
+}
+
+/**
+ * Encode a Nack: the server refused the CAS `actorId` sent for `key` at `timestamp` because the
+ * expected value did not match. `current` is the write the server holds for the key, if any.
+ */
+export function encodeNack(key: string, timestamp: bigint, actorId: string, current?: CurrentValue): Uint8Array {
+    const details = current
+        ? { value: current.payload, timestamp: current.timestamp.toString(), actorId: current.actorId }
+        : {};
+    return encodeOpVerdict(FBS.MsgType.Nack, key, timestamp, actorId, encodeValue(details));
+}
+
+/**
+ * The server's verdict on a single op (Ack/Reject/Nack).
+ * The op is identified through an Op table without a value; details travel in `payload`.
+ */
+function encodeOpVerdict(msgType: FBS.MsgType, key: string, timestamp: bigint, actorId: string, payload?: Uint8Array): Uint8Array {
+    const builder = new Builder(128);
+
+    const keyOffset = builder.createString(key);
+    const actorOffset = builder.createString(actorId);
+    const payloadOffset = payload ? builder.createByteVector(payload) : 0;
+
+    FBS.Op.startOp(builder);
+    // Inline struct: see encodeOp
+    // @ts-ignore
+    builder.isNested = false;
+    const hlcOffset = Hlc.createHlc(builder, timestamp >> 64n, timestamp & 0xFFFFFFFFFFFFFFFFn);
+    // @ts-ignore
+    builder.isNested = true;
+    FBS.Op.addTimestamp(builder, hlcOffset);
+    FBS.Op.addKey(builder, keyOffset);
+    FBS.Op.addActorId(builder, actorOffset);
+    const opOffset = FBS.Op.endOp(builder);
+
+    FBS.WirePacket.startWirePacket(builder);
+    FBS.WirePacket.addMsgType(builder, msgType);
+    FBS.WirePacket.addOp(builder, opOffset);
+    if (payload) FBS.WirePacket.addPayload(builder, payloadOffset);
+
+    const packet = FBS.WirePacket.endWirePacket(builder);
+    builder.finish(packet);
+    return builder.asUint8Array();
+}
+
 // Snapshot helpers (MsgPack wrappers for consistency)
 export const encodeSnapshot = encodeValue;
 export const decodeSnapshot = decodeValue;
 
+/** Encode a per-peer version vector as a standalone VersionVector table. */
+export function encodeVersionVector(vector: Record<string, bigint>): Uint8Array {
+    const builder = new Builder(128);
+    const entries = Object.entries(vector).map(([peerId, seq]) =>
+        FBS.StateVectorEntry.createStateVectorEntry(builder, builder.createString(peerId), seq)
+    );
+    const root = FBS.VersionVector.createVersionVector(builder, FBS.VersionVector.createItemsVector(builder, entries));
+    builder.finish(root);
+    return builder.asUint8Array();
+}
+
+export function decodeVersionVector(data: Uint8Array): Record<string, bigint> {
+    const vector = FBS.VersionVector.getRootAsVersionVector(new ByteBuffer(data));
+    const result: Record<string, bigint> = {};
+    for (let i = 0; i < vector.itemsLength(); i++) {
+        const entry = vector.items(i);
+        if (entry?.peerId()) result[entry.peerId()!] = entry.seq();
+    }
+    return result;
+}
+
 // Decoder
 export interface DecodedMessage {
     type: FBS.MsgType;
@@ -203,7 +443,33 @@ export interface DecodedMessage {
     isEncrypted?: boolean;
     actorId?: string;
     serverTime?: number;
+    /** Causal dependencies of an Op, or of the first write of a ColumnarBatch */
     deps?: string[];
+    /** Server-asserted: the op (or every write of the batch) comes from an authority peer */
+    isAuthority?: boolean;
+    /** Init: keys whose snapshot value was written by an authority peer */
+    authorityKeys?: string[];
+    /** Writes of a ColumnarBatch, to be applied all-or-nothing */
+    ops?: (BatchOp & { actorId: string })[];
+    /** Frontier of a SyncRequest */
+    localHeads?: string[];
+    /** Version vector of a Sync packet (see {@link SyncReply}) */
+    stateVector?: Record<string, bigint>;
+    ackSeq?: bigint;
+    /** Addressee of a Signal (absent when it went to the whole workspace) */
+    toPeer?: string;
+    /** Why the server refused an op (Reject) */
+    reason?: string;
+    /** The write the server holds instead of a refused CAS (Nack) */
+    current?: CurrentValue;
+}
+
+/** A write as the server holds it, sent back with a Nack. */
+export interface CurrentValue {
+    /** Wire payload of the value (encrypted if the workspace is) */
+    payload: Uint8Array;
+    timestamp: bigint;
+    actorId: string;
 }
 
 export function decodeMessage(data: Uint8Array): DecodedMessage | null {
@@ -228,20 +494,28 @@ export function decodeMessage(data: Uint8Array): DecodedMessage | null {
                 const hlc = op.timestamp();
                 const ts = hlc ? ((hlc.upper() << 64n) | hlc.lower()) : 0n;
 
+                // Causal parents (op hashes) the sender had applied before this op
+                const deps: string[] = [];
+                for (let i = 0; i < op.depsLength(); i++) deps.push(op.deps(i));
+
                 return {
                     ...baseMsg,
                     key: key || undefined,
                     payload: valArray || new Uint8Array(),
                     timestamp: ts,
                     actorId: op.actorId() || undefined,
-                    isEncrypted: op.isEncrypted()
+                    isEncrypted: op.isEncrypted(),
+                    deps,
+                    isAuthority: op.isAuthority(),
                 };
             }
             case FBS.MsgType.Init: {
                 const snap = packet.snapshot();
                 if (snap) {
                     const data = snap.dataArray();
-                    return { ...baseMsg, payload: data || new Uint8Array() };
+                    const authorityKeys: string[] = [];
+                    for (let i = 0; i < snap.authorityKeysLength(); i++) authorityKeys.push(snap.authorityKeys(i));
+                    return { ...baseMsg, payload: data || new Uint8Array(), authorityKeys };
                 }
                 const payload = packet.payloadArray();
                 return { ...baseMsg, payload: payload || new Uint8Array() };
@@ -249,19 +523,109 @@ export function decodeMessage(data: Uint8Array): DecodedMessage | null {
             case FBS.MsgType.CompareAndSwap: {
                 const cas = packet.cas();
                 if (!cas) return null;
+                const hlc = cas.timestamp();
                 return {
                     ...baseMsg,
                     key: cas.key() || undefined,
                     payload: cas.newValueArray() || new Uint8Array(),
                     expectedValue: cas.expectedValueArray(),
                     actorId: cas.actorId() || undefined,
+                    timestamp: hlc ? ((hlc.upper() << 64n) | hlc.lower()) : undefined,
+                };
+            }
+            case FBS.MsgType.ColumnarBatch: {
+                const batch = packet.batch();
+                if (!batch) return null;
+
+                const actors = new Map<number, string>();
+                const registry = packet.actorRegistry();
+                for (let i = 0; i < (registry?.mappingsLength() ?? 0); i++) {
+                    const mapping = registry!.mappings(i)!;
+                    actors.set(mapping.idx(), mapping.id() || '');
+                }
+
+                const ops: (BatchOp & { actorId: string })[] = [];
+                for (let i = 0; i < batch.keysLength(); i++) {
+                    const actorId = actors.get(batch.actorIdxs(i) ?? 0) ?? '';
+                    const upper = batch.timestamps(i) ?? 0n;
+                    ops.push({
+                        key: batch.keys(i),
+                        payload: batch.valueBlobs(i)?.dataArray() || new Uint8Array(),
+                        timestamp: (upper << 64n) | HLC.nodeIdFor(actorId),
+                        actorId,
+                    });
+                }
+                const deps: string[] = [];
+                for (let i = 0; i < batch.depsLength(); i++) deps.push(batch.deps(i));
+                return { ...baseMsg, ops, deps, isAuthority: batch.isAuthority() };
+            }
+            case FBS.MsgType.SyncRequest: {
+                const request = packet.syncRequest();
+                if (!request) return null;
+                const localHeads: string[] = [];
+                for (let i = 0; i < request.localHeadsLength(); i++) localHeads.push(request.localHeads(i));
+                return { ...baseMsg, localHeads };
+            }
+            case FBS.MsgType.Sync: {
+                const sync = packet.sync();
+                if (!sync) return null;
+                // Servers may send the vector either inline or as a VersionVector table
+                const vector = sync.currentVector();
+                const count = sync.stateVectorLength() || (vector?.itemsLength() ?? 0);
+                const entryAt = (i: number) => (sync.stateVectorLength() ? sync.stateVector(i) : vector!.items(i));
+
+                const stateVector: Record<string, bigint> = {};
+                for (let i = 0; i < count; i++) {
+                    const entry = entryAt(i);
+                    if (entry?.peerId()) stateVector[entry.peerId()!] = entry.seq();
+                }
+                const snapshot = sync.snapshotArray();
+                return {
+                    ...baseMsg,
+                    stateVector,
+                    ackSeq: sync.ackSeq(),
+                    payload: snapshot && snapshot.length > 0 ? snapshot : undefined,
                 };
             }
             case FBS.MsgType.Encrypted: {
                 const payload = packet.encryptedPayloadArray();
                 return { ...baseMsg, payload: payload || new Uint8Array() };
             }
-            // Ping/Pong/Signal/etc
+            case FBS.MsgType.Ack:
+            case FBS.MsgType.Reject:
+            case FBS.MsgType.Nack: {
+                const op = packet.op();
+                if (!op) return null;
+                const hlc = op.timestamp();
+                const payload = packet.payloadArray();
+                const details = payload && payload.length > 0
+                    ? decodeValue<{ reason?: string; value?: Uint8Array; timestamp?: string; actorId?: string }>(payload)
+                    : {};
+                return {
+                    ...baseMsg,
+                    key: op.key() || undefined,
+                    timestamp: hlc ? ((hlc.upper() << 64n) | hlc.lower()) : 0n,
+                    actorId: op.actorId() || undefined,
+                    reason: details.reason,
+                    current: details.value && details.timestamp
+                        ? { payload: details.value, timestamp: BigInt(details.timestamp), actorId: details.actorId || 'remote' }
+                        : undefined,
+                };
+            }
+            case FBS.MsgType.Signal: {
+                const signal = packet.signal();
+                if (!signal) return null;
+                const message = {
+                    ...baseMsg,
+                    actorId: signal.fromPeer() || undefined,
+                    toPeer: signal.toPeer() || undefined,
+                };
+                // WebRTC negotiation (Offer/Answer/...) is not handled here: only Relay carries a payload
+                if (signal.dataType() !== FBS.SignalData.Relay) return message;
+                const relay: FBS.Relay | null = signal.data(new FBS.Relay());
+                return { ...message, payload: relay?.dataArray() || new Uint8Array() };
+            }
+            // Ping/Pong/etc
             default:
                 return baseMsg;
         }
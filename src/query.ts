@@ -0,0 +1,206 @@
+/**
+ * @module Query
+ * @description
+ * Live queries over a key prefix: filter, sort and limit, kept up to date as ops arrive.
+ *
+ * A query holds every matching row in sorted order (not just the first `limit`). Each op under
+ * the prefix removes the key's old row and binary-searches the new one into place, so an update
+ * costs O(log n) comparisons instead of re-filtering and re-sorting the whole collection.
+ * Listeners only fire when the visible window (the first `limit` rows) changed.
+ *
+ * A snapshot replaces the state wholesale and only reports the keys it holds, so the query
+ * re-reads its prefix whenever the client becomes ready.
+ *
+ * @example
+ * ```ts
+ * const open = client.query<Todo>({
+ *     prefix: 'todos.',
+ *     where: todo => !todo.done,
+ *     orderBy: { field: 'createdAt', direction: 'desc' },
+ *     limit: 20,
+ * });
+ * open.subscribe(() => render(open.getResults()));
+ * ```
+ */
+
+import type { NMeshedClient } from './client';
+
+/** Sort order: a field name (ascending), a field with a direction, or a comparator. */
+export type OrderBy<T> =
+    | (keyof T & string)
+    | { field: keyof T & string; direction?: 'asc' | 'desc' }
+    | ((a: T, b: T) => number);
+
+export interface QueryOptions<T> {
+    /** Only keys starting with this prefix (default: every key) */
+    prefix?: string;
+    /** Keeps the rows this returns true for. Deleted keys never match. */
+    where?: (value: T, key: string) => boolean;
+    /** Result order. Ties, and queries without `orderBy`, are ordered by key. */
+    orderBy?: OrderBy<T>;
+    /** Maximum number of results */
+    limit?: number;
+}
+
+/** What a query needs from the client. */
+type QuerySource = Pick<NMeshedClient, 'getByPrefix' | 'subscribePrefix' | 'on'>;
+
+interface Row<T> {
+    key: string;
+    value: T;
+}
+
+type Comparable = string | number | bigint | boolean;
+
+function isComparable(value: unknown): value is Comparable {
+    const type = typeof value;
+    return type === 'string' || type === 'number' || type === 'bigint' || type === 'boolean';
+}
+
+/**
+ * Field comparison for {@link OrderBy}. Missing values sort last in either direction; values
+ * that are not primitives (objects, arrays) keep their relative order.
+ */
+function fieldComparator<T>(field: keyof T & string, direction: 'asc' | 'desc'): (a: T, b: T) => number {
+    const sign = direction === 'desc' ? -1 : 1;
+    return (a, b) => {
+        const x = (a as Record<string, unknown> | null)?.[field];
+        const y = (b as Record<string, unknown> | null)?.[field];
+        if (x === y) return 0;
+        if (x == null) return 1;
+        if (y == null) return -1;
+        if (!isComparable(x) || !isComparable(y)) return 0;
+        return x < y ? -sign : x > y ? sign : 0;
+    };
+}
+
+function toComparator<T>(orderBy?: OrderBy<T>): ((a: T, b: T) => number) | undefined {
+    if (!orderBy) return undefined;
+    if (typeof orderBy === 'function') return orderBy;
+    if (typeof orderBy === 'string') return fieldComparator<T>(orderBy, 'asc');
+    return fieldComparator<T>(orderBy.field, orderBy.direction ?? 'asc');
+}
+
+export class LiveQuery<T = unknown> {
+    private source: QuerySource;
+    private prefix: string;
+    private where?: (value: T, key: string) => boolean;
+    private compare?: (a: T, b: T) => number;
+    private limit: number;
+    // Every matching row, sorted
+    private rows: Row<T>[] = [];
+    private byKey = new Map<string, Row<T>>();
+    private results: T[] = [];
+    private resultKeys: string[] = [];
+    private listeners = new Set<() => void>();
+    private unsubscribers: (() => void)[];
+
+    constructor(source: QuerySource, options: QueryOptions<T> = {}) {
+        this.source = source;
+        this.prefix = options.prefix ?? '';
+        this.where = options.where;
+        this.compare = toComparator(options.orderBy);
+        this.limit = options.limit ?? Infinity;
+
+        this.reload();
+        this.unsubscribers = [
+            source.subscribePrefix(this.prefix, (key, value) => this.apply(key, value)),
+            source.on('ready', () => this.reload()),
+        ];
+    }
+
+    /** Current results (values), in order. The array is replaced, never mutated, on change. */
+    getResults(): T[] {
+        return this.results;
+    }
+
+    /** Keys of the current results, index-aligned with {@link getResults}. */
+    getKeys(): string[] {
+        return this.resultKeys;
+    }
+
+    /**
+     * Notifies `listener` whenever the results change.
+     * @returns Unsubscribe function.
+     */
+    subscribe(listener: () => void): () => void {
+        this.listeners.add(listener);
+        return () => this.listeners.delete(listener);
+    }
+
+    /** Stops following ops. The results stay as they are. */
+    destroy(): void {
+        this.unsubscribers.forEach(unsubscribe => unsubscribe());
+        this.unsubscribers = [];
+        this.listeners.clear();
+    }
+
+    private matches(key: string, value: unknown): value is T {
+        return value !== null && value !== undefined && (!this.where || this.where(value as T, key));
+    }
+
+    private compareRows(a: Row<T>, b: Row<T>): number {
+        const order = this.compare ? this.compare(a.value, b.value) : 0;
+        if (order !== 0) return order;
+        return a.key < b.key ? -1 : a.key > b.key ? 1 : 0;
+    }
+
+    /** First index whose row does not sort before `row`. */
+    private lowerBound(row: Row<T>): number {
+        let low = 0;
+        let high = this.rows.length;
+        while (low < high) {
+            const mid = (low + high) >>> 1;
+            if (this.compareRows(this.rows[mid], row) < 0) low = mid + 1;
+            else high = mid;
+        }
+        return low;
+    }
+
+    /** Folds one op into the sorted rows. */
+    private apply(key: string, value: unknown): void {
+        let changedAt = Infinity;
+
+        const existing = this.byKey.get(key);
+        if (existing) {
+            let index = this.lowerBound(existing);
+            // The stored value may have been mutated in place since it was sorted
+            if (this.rows[index] !== existing) index = this.rows.indexOf(existing);
+            this.rows.splice(index, 1);
+            this.byKey.delete(key);
+            changedAt = index;
+        }
+
+        if (this.matches(key, value)) {
+            const row = { key, value };
+            const index = this.lowerBound(row);
+            this.rows.splice(index, 0, row);
+            this.byKey.set(key, row);
+            changedAt = Math.min(changedAt, index);
+        }
+
+        // Rows past the visible window do not change the results
+        if (changedAt < this.limit) this.publish();
+    }
+
+    /** Rebuilds the rows from the client's current state. */
+    private reload(): void {
+        this.rows = [];
+        this.byKey.clear();
+        for (const [key, value] of Object.entries(this.source.getByPrefix(this.prefix))) {
+            if (!this.matches(key, value)) continue;
+            const row = { key, value };
+            this.rows.push(row);
+            this.byKey.set(key, row);
+        }
+        this.rows.sort((a, b) => this.compareRows(a, b));
+        this.publish();
+    }
+
+    private publish(): void {
+        const visible = this.rows.slice(0, this.limit);
+        this.results = visible.map(row => row.value);
+        this.resultKeys = visible.map(row => row.key);
+        this.listeners.forEach(listener => listener());
+    }
+}
@@ -1,5 +1,6 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useMemo } from 'react';
 import { useNMeshed } from './context';
+import type { ListItem, TextAnchor } from '../crdt';
 
 /**
  * Shallow equality check for CRDT values.
@@ -41,40 +42,30 @@ export function useSyncedMap<T>(prefix: string): [
     useEffect(() => {
         if (!client) return;
 
-        // Initial load: scan all keys matching prefix
+        // Initial load: keys matching prefix, from the engine's key index
         const initial: Record<string, T> = {};
-        const all = client.getAllValues();
         const prefixWithSep = `${prefix}.`;
 
-        Object.entries(all).forEach(([k, v]) => {
-            if (k.startsWith(prefixWithSep)) {
-                const subKey = k.slice(prefixWithSep.length);
-                initial[subKey] = v as T;
-            }
+        Object.entries(client.getByPrefix(prefixWithSep)).forEach(([k, v]) => {
+            initial[k.slice(prefixWithSep.length)] = v as T;
         });
         setMap(initial);
 
-        // Subscription
-        // Note: This still receives all ops, but only triggers React state update if relevant.
-        // In the future, we can add prefix-based filters at the Engine level.
-        const unsub = client.on('op', (key, value) => {
-            if (key.startsWith(prefixWithSep)) {
-                const subKey = key.slice(prefixWithSep.length);
-                setMap(prev => {
-                    if (value === null || value === undefined) {
-                        // Delete
-                        const next = { ...prev };
-                        delete next[subKey];
-                        return next;
-                    } else {
-                        // Update
-                        return { ...prev, [subKey]: value as T };
-                    }
-                });
-            }
+        // Subscription: only ops under the prefix reach this hook
+        return client.subscribePrefix(prefixWithSep, (key, value) => {
+            const subKey = key.slice(prefixWithSep.length);
+            setMap(prev => {
+                if (value === null || value === undefined) {
+                    // Delete
+                    const next = { ...prev };
+                    delete next[subKey];
+                    return next;
+                } else {
+                    // Update
+                    return { ...prev, [subKey]: value as T };
+                }
+            });
         });
-
-        return unsub;
     }, [client, prefix]);
 
     const setItem = useCallback((subKey: string, value: T) => {
@@ -92,28 +83,183 @@ export function useSyncedMap<T>(prefix: string): [
     return [map, setItem, removeItem];
 }
 
+/** Positional mutators returned by {@link useSyncedList}, next to `push` and `remove`. */
+export interface SyncedListActions<T> {
+    /** Stable item ids, index-aligned with the list */
+    ids: string[];
+    /** Inserts an item at `index`. Resolves to its id. */
+    insert: (index: number, item: T) => Promise<string | undefined>;
+    /** Moves the item at `from` so it ends up at `to` */
+    move: (from: number, to: number) => void;
+}
+
 /**
- * Hook for a list of values.
- * Under the hood, this uses random UUIDs as keys: `prefix.uuid`
+ * Hook for an ordered list backed by the engine's replicated sequence.
+ * Concurrent inserts and moves from different peers converge on the same order everywhere.
+ * 
+ * @remarks
+ * The whole list lives under the single key `key`. Items written by earlier versions as
+ * separate `key.<id>` values are not read here; `useSyncedMap(key)` still reads them.
+ * 
+ * @param key The list key
+ * @returns [list, push, remove, { ids, insert, move }]
  */
-export function useSyncedList<T>(prefix: string): [
+export function useSyncedList<T>(key: string): [
     T[],
-    (item: T) => string, // push returns id
-    (id: string) => void // remove by id
+    (item: T) => Promise<string | undefined>, // push resolves to the new id
+    (id: string) => void, // remove by id
+    SyncedListActions<T>
 ] {
-    const [map, setItem, removeItem] = useSyncedMap<T>(prefix);
+    const { client } = useNMeshed();
+    const [items, setItems] = useState<ListItem<T>[]>([]);
 
-    // Convert map to list (unstable order unless sorted by content)
-    // For V2, we return values array.
-    const list = Object.values(map);
+    useEffect(() => {
+        if (!client) return;
+
+        const syncFromEngine = () => setItems(client.getListItems<T>(key));
+        syncFromEngine();
+
+        // O(1) key dispatch instead of filtering every global op
+        return client.subscribe(key, syncFromEngine);
+    }, [client, key]);
+
+    const insert = useCallback(async (index: number, item: T) => {
+        if (!client) return undefined;
+        return client.listInsert(key, index, item);
+    }, [client, key]);
 
     const push = useCallback((item: T) => {
-        const id = Math.random().toString(36).substring(2, 9);
-        setItem(id, item);
-        return id;
-    }, [setItem]);
+        return insert(client ? client.getListItems(key).length : 0, item);
+    }, [client, key, insert]);
+
+    const move = useCallback((from: number, to: number) => {
+        if (client) {
+            client.listMove(key, from, to).catch(e => console.error('[NMeshed] List move failed', e));
+        }
+    }, [client, key]);
+
+    const remove = useCallback((id: string) => {
+        if (client) {
+            client.listRemove(key, id).catch(e => console.error('[NMeshed] List remove failed', e));
+        }
+    }, [client, key]);
+
+    const list = useMemo(() => items.map(item => item.value), [items]);
+    const ids = useMemo(() => items.map(item => item.id), [items]);
+    const actions = useMemo(() => ({ ids, insert, move }), [ids, insert, move]);
+
+    return [list, push, remove, actions];
+}
+
+/** Mutators returned by {@link useSyncedCounter}. */
+export interface SyncedCounterActions {
+    /** Adds `by` (default 1) */
+    increment: (by?: number) => void;
+    /** Subtracts `by` (default 1) */
+    decrement: (by?: number) => void;
+}
+
+/**
+ * Hook for a counter that never loses concurrent increments (PN-Counter).
+ * Use it for likes, votes and stock levels instead of `set(key, n + 1)`.
+ * 
+ * @param key The counter key
+ * @returns [count, actions]
+ */
+export function useSyncedCounter(key: string): [number, SyncedCounterActions] {
+    const { client } = useNMeshed();
+    const [count, setCount] = useState(0);
+
+    useEffect(() => {
+        if (!client) return;
+
+        const syncFromEngine = () => {
+            const value = client.get<number>(key);
+            setCount(typeof value === 'number' ? value : 0);
+        };
+        syncFromEngine();
+
+        return client.subscribe(key, syncFromEngine);
+    }, [client, key]);
+
+    const increment = useCallback((by = 1) => {
+        if (client) {
+            client.increment(key, by).catch(e => console.error('[NMeshed] Counter increment failed', e));
+        }
+    }, [client, key]);
+
+    const decrement = useCallback((by = 1) => increment(-by), [increment]);
+
+    const actions = useMemo(() => ({ increment, decrement }), [increment, decrement]);
+
+    return [count, actions];
+}
+
+/** Mutators returned by {@link useSyncedText}. */
+export interface SyncedTextActions {
+    /** Inserts `text` at character `index` */
+    insert: (index: number, text: string) => Promise<void>;
+    /** Deletes `length` characters at `index` */
+    delete: (index: number, length: number) => Promise<void>;
+    /** Replaces `deleteCount` characters at `index` with `text` (Array.prototype.splice semantics) */
+    splice: (index: number, deleteCount: number, text?: string) => Promise<void>;
+    /** Pins a cursor position so it follows concurrent remote edits */
+    anchor: (index: number) => TextAnchor;
+    /** Current index of a pinned cursor position */
+    resolve: (anchor: TextAnchor) => number;
+}
+
+/**
+ * Hook for collaborative text backed by the engine's character-level sequence.
+ * Keystrokes from concurrent editors interleave instead of overwriting each other.
+ * 
+ * @param key The text key
+ * @returns [text, actions]
+ */
+export function useSyncedText(key: string): [string, SyncedTextActions] {
+    const { client } = useNMeshed();
+    const [text, setText] = useState('');
+
+    useEffect(() => {
+        if (!client) return;
+
+        const syncFromEngine = () => {
+            const value = client.get<string>(key);
+            setText(typeof value === 'string' ? value : '');
+        };
+        syncFromEngine();
+
+        return client.subscribe(key, syncFromEngine);
+    }, [client, key]);
+
+    const insert = useCallback(async (index: number, chars: string) => {
+        if (client) await client.textInsert(key, index, chars);
+    }, [client, key]);
+
+    const remove = useCallback(async (index: number, length: number) => {
+        if (client) await client.textDelete(key, index, length);
+    }, [client, key]);
 
-    return [list, push, removeItem];
+    const splice = useCallback(async (index: number, deleteCount: number, chars = '') => {
+        if (!client) return;
+        if (deleteCount > 0) await client.textDelete(key, index, deleteCount);
+        if (chars.length > 0) await client.textInsert(key, index, chars);
+    }, [client, key]);
+
+    const anchor = useCallback((index: number): TextAnchor => {
+        return client ? client.textAnchor(key, index) : { after: null };
+    }, [client, key]);
+
+    const resolve = useCallback((pos: TextAnchor) => {
+        return client ? client.resolveTextAnchor(key, pos) : 0;
+    }, [client, key]);
+
+    const actions = useMemo(
+        () => ({ insert, delete: remove, splice, anchor, resolve }),
+        [insert, remove, splice, anchor, resolve]
+    );
+
+    return [text, actions];
 }
 
 /**
@@ -137,17 +283,9 @@ export function useSyncedDict<T extends Record<string, any>>(prefix: string): [
 
         // Function to load current state from engine
         const syncFromEngine = () => {
-            const all = client.getAllValues();
             const newData: Record<string, any> = {};
-            Object.entries(all).forEach(([k, v]) => {
-                if (prefix) {
-                    if (k.startsWith(prefixWithSep)) {
-                        const subKey = k.slice(prefixWithSep.length);
-                        newData[subKey] = v;
-                    }
-                } else {
-                    newData[k] = v;
-                }
+            Object.entries(client.getByPrefix(prefixWithSep)).forEach(([k, v]) => {
+                newData[k.slice(prefixWithSep.length)] = v;
             });
             setData(newData as T);
         };
@@ -160,22 +298,13 @@ export function useSyncedDict<T extends Record<string, any>>(prefix: string): [
             syncFromEngine();
         });
 
-        // Subscribe to ops for real-time updates
-        const unsubOp = client.on('op', (key, value) => {
-            if (prefix) {
-                if (key.startsWith(prefixWithSep)) {
-                    const subKey = key.slice(prefixWithSep.length);
-                    setData(prev => {
-                        if (shallowEqual(prev[subKey], value)) return prev;
-                        return { ...prev, [subKey]: value };
-                    });
-                }
-            } else {
-                setData(prev => {
-                    if (shallowEqual(prev[key], value)) return prev;
-                    return { ...prev, [key]: value };
-                });
-            }
+        // Subscribe to ops under the prefix for real-time updates (an empty prefix gets every op)
+        const unsubOp = client.subscribePrefix(prefixWithSep, (key, value) => {
+            const subKey = key.slice(prefixWithSep.length);
+            setData(prev => {
+                if (shallowEqual(prev[subKey], value)) return prev;
+                return { ...prev, [subKey]: value };
+            });
         });
 
         return () => {
@@ -4,8 +4,10 @@
  * High-Level React Hooks for the "Zen" Developer Experience.
  */
 
-import { useState, useEffect, useMemo, useCallback, useSyncExternalStore } from 'react';
+import { useState, useEffect, useMemo, useCallback, useRef, useSyncExternalStore, type DependencyList } from 'react';
 import { useNMeshed } from './context';
+import type { UndoManager } from '../undo';
+import type { QueryOptions } from '../query';
 
 /**
  * **The Facade Hook (Recommended)**
@@ -107,3 +109,116 @@ export function useConnection() {
         isReady: status === 'ready'
     };
 }
+
+/** Controls returned by {@link useUndo}. */
+export interface UndoControls {
+    undo: () => void;
+    redo: () => void;
+    canUndo: boolean;
+    canRedo: boolean;
+}
+
+/**
+ * Undo/redo for the local user's changes.
+ * 
+ * @remarks
+ * Only this peer's writes are undone; remote collaborators' changes are left in place.
+ * 
+ * @param prefix - Only track keys starting with this prefix (e.g. `'board.'`).
+ * 
+ * @example
+ * ```tsx
+ * const { undo, canUndo } = useUndo('board.');
+ * return <button disabled={!canUndo} onClick={undo}>Undo</button>;
+ * ```
+ */
+export function useUndo(prefix?: string): UndoControls {
+    const { client } = useNMeshed();
+    const [manager, setManager] = useState<UndoManager | null>(null);
+    const [, setVersion] = useState(0);
+
+    useEffect(() => {
+        if (!client) return;
+
+        const undoManager = client.createUndoManager({ prefix });
+        setManager(undoManager);
+        const unsubscribe = undoManager.subscribe(() => setVersion(v => v + 1));
+
+        return () => {
+            unsubscribe();
+            undoManager.destroy();
+        };
+    }, [client, prefix]);
+
+    const undo = useCallback(() => {
+        manager?.undo().catch(e => console.error('[NMeshed] Undo failed', e));
+    }, [manager]);
+
+    const redo = useCallback(() => {
+        manager?.redo().catch(e => console.error('[NMeshed] Redo failed', e));
+    }, [manager]);
+
+    return {
+        undo,
+        redo,
+        canUndo: manager?.canUndo() ?? false,
+        canRedo: manager?.canRedo() ?? false,
+    };
+}
+
+/**
+ * Live query over a key prefix: filtered, sorted and limited, updated incrementally as ops arrive.
+ * 
+ * @remarks
+ * `where` and a comparator `orderBy` may be inline functions: the query always calls the latest
+ * ones, but only re-runs when `prefix`, `limit`, a field `orderBy` or `deps` change. List what the
+ * predicate reads (e.g. a search term) in `deps`.
+ * 
+ * @param options - Prefix, filter, sort order and limit.
+ * @param deps - Values the `where`/`orderBy` functions depend on.
+ * @returns The matching values, in order.
+ * 
+ * @example
+ * ```tsx
+ * const todos = useSyncedQuery<Todo>({
+ *   prefix: 'todos.',
+ *   where: todo => todo.title.includes(search),
+ *   orderBy: { field: 'createdAt', direction: 'desc' },
+ *   limit: 50,
+ * }, [search]);
+ * ```
+ */
+export function useSyncedQuery<T>(options: QueryOptions<T>, deps: DependencyList = []): T[] {
+    const { client } = useNMeshed();
+    const [results, setResults] = useState<T[]>([]);
+    const { prefix, limit, where, orderBy } = options;
+
+    // Latest functions, so inline lambdas do not restart the query on every render
+    const latest = useRef({ where, orderBy });
+    latest.current = { where, orderBy };
+    const orderKey = typeof orderBy === 'function' ? 'fn' : JSON.stringify(orderBy);
+    const hasWhere = !!where;
+
+    useEffect(() => {
+        if (!client) return;
+
+        const current = latest.current.orderBy;
+        const query = client.query<T>({
+            prefix,
+            limit,
+            where: hasWhere ? (value, key) => latest.current.where!(value, key) : undefined,
+            orderBy: typeof current === 'function'
+                ? (a, b) => (latest.current.orderBy as (a: T, b: T) => number)(a, b)
+                : current,
+        });
+        setResults(query.getResults());
+        const unsubscribe = query.subscribe(() => setResults(query.getResults()));
+
+        return () => {
+            unsubscribe();
+            query.destroy();
+        };
+    }, [client, prefix, limit, orderKey, hasWhere, ...deps]);
+
+    return results;
+}
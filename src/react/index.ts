@@ -15,11 +15,16 @@ export {
 export {
     useSyncedMap,
     useSyncedList,
+    useSyncedText,
+    useSyncedCounter,
     useSyncedDict,
+    type SyncedListActions,
+    type SyncedTextActions,
+    type SyncedCounterActions,
 } from './collections';
 
 export { useSyncedSchema, useSyncedStore } from './schema';
-export { useStore, useConnection } from './hooks';
+export { useStore, useConnection, useUndo, useSyncedQuery, type UndoControls } from './hooks';
 export { usePresence, type UsePresenceOptions } from './presence';
 export { useSuspenseStore } from './suspense';
 export { useSyncedChat, useSignalQueue } from '../ai';
@@ -119,8 +119,25 @@ isDeletesArray():Int8Array|null {
   return offset ? new Int8Array(this.bb!.bytes().buffer, this.bb!.bytes().byteOffset + this.bb!.__vector(this.bb_pos + offset), this.bb!.__vector_len(this.bb_pos + offset)) : null;
 }
 
+deps(index: number):string
+deps(index: number,optionalEncoding:flatbuffers.Encoding):string|Uint8Array
+deps(index: number,optionalEncoding?:any):string|Uint8Array|null {
+  const offset = this.bb!.__offset(this.bb_pos, 20);
+  return offset ? this.bb!.__string(this.bb!.__vector(this.bb_pos + offset) + index * 4, optionalEncoding) : null;
+}
+
+depsLength():number {
+  const offset = this.bb!.__offset(this.bb_pos, 20);
+  return offset ? this.bb!.__vector_len(this.bb_pos + offset) : 0;
+}
+
+isAuthority():boolean {
+  const offset = this.bb!.__offset(this.bb_pos, 22);
+  return offset ? !!this.bb!.readInt8(this.bb_pos + offset) : false;
+}
+
 static startColumnarOpBatch(builder:flatbuffers.Builder) {
-  builder.startObject(8);
+  builder.startObject(10);
 }
 
 static addWorkspaceId(builder:flatbuffers.Builder, workspaceIdOffset:flatbuffers.Offset) {
@@ -244,12 +261,32 @@ static startIsDeletesVector(builder:flatbuffers.Builder, numElems:number) {
   builder.startVector(1, numElems, 1);
 }
 
+static addDeps(builder:flatbuffers.Builder, depsOffset:flatbuffers.Offset) {
+  builder.addFieldOffset(8, depsOffset, 0);
+}
+
+static createDepsVector(builder:flatbuffers.Builder, data:flatbuffers.Offset[]):flatbuffers.Offset {
+  builder.startVector(4, data.length, 4);
+  for (let i = data.length - 1; i >= 0; i--) {
+    builder.addOffset(data[i]!);
+  }
+  return builder.endVector();
+}
+
+static startDepsVector(builder:flatbuffers.Builder, numElems:number) {
+  builder.startVector(4, numElems, 4);
+}
+
+static addIsAuthority(builder:flatbuffers.Builder, isAuthority:boolean) {
+  builder.addFieldInt8(9, +isAuthority, +false);
+}
+
 static endColumnarOpBatch(builder:flatbuffers.Builder):flatbuffers.Offset {
   const offset = builder.endObject();
   return offset;
 }
 
-static createColumnarOpBatch(builder:flatbuffers.Builder, workspaceIdOffset:flatbuffers.Offset, keysOffset:flatbuffers.Offset, timestampsOffset:flatbuffers.Offset, valuesOffset:flatbuffers.Offset, valueBlobsOffset:flatbuffers.Offset, actorIdxsOffset:flatbuffers.Offset, seqsOffset:flatbuffers.Offset, isDeletesOffset:flatbuffers.Offset):flatbuffers.Offset {
+static createColumnarOpBatch(builder:flatbuffers.Builder, workspaceIdOffset:flatbuffers.Offset, keysOffset:flatbuffers.Offset, timestampsOffset:flatbuffers.Offset, valuesOffset:flatbuffers.Offset, valueBlobsOffset:flatbuffers.Offset, actorIdxsOffset:flatbuffers.Offset, seqsOffset:flatbuffers.Offset, isDeletesOffset:flatbuffers.Offset, depsOffset:flatbuffers.Offset, isAuthority:boolean):flatbuffers.Offset {
   ColumnarOpBatch.startColumnarOpBatch(builder);
   ColumnarOpBatch.addWorkspaceId(builder, workspaceIdOffset);
   ColumnarOpBatch.addKeys(builder, keysOffset);
@@ -259,6 +296,8 @@ static createColumnarOpBatch(builder:flatbuffers.Builder, workspaceIdOffset:flat
   ColumnarOpBatch.addActorIdxs(builder, actorIdxsOffset);
   ColumnarOpBatch.addSeqs(builder, seqsOffset);
   ColumnarOpBatch.addIsDeletes(builder, isDeletesOffset);
+  ColumnarOpBatch.addDeps(builder, depsOffset);
+  ColumnarOpBatch.addIsAuthority(builder, isAuthority);
   return ColumnarOpBatch.endColumnarOpBatch(builder);
 }
 
@@ -271,7 +310,9 @@ unpack(): ColumnarOpBatchT {
     this.bb!.createObjList<ValueBlob, ValueBlobT>(this.valueBlobs.bind(this), this.valueBlobsLength()),
     this.bb!.createScalarList<number>(this.actorIdxs.bind(this), this.actorIdxsLength()),
     this.bb!.createScalarList<bigint>(this.seqs.bind(this), this.seqsLength()),
-    this.bb!.createScalarList<boolean>(this.isDeletes.bind(this), this.isDeletesLength())
+    this.bb!.createScalarList<boolean>(this.isDeletes.bind(this), this.isDeletesLength()),
+    this.bb!.createScalarList<string>(this.deps.bind(this), this.depsLength()),
+    this.isAuthority()
   );
 }
 
@@ -285,6 +326,8 @@ unpackTo(_o: ColumnarOpBatchT): void {
   _o.actorIdxs = this.bb!.createScalarList<number>(this.actorIdxs.bind(this), this.actorIdxsLength());
   _o.seqs = this.bb!.createScalarList<bigint>(this.seqs.bind(this), this.seqsLength());
   _o.isDeletes = this.bb!.createScalarList<boolean>(this.isDeletes.bind(this), this.isDeletesLength());
+  _o.deps = this.bb!.createScalarList<string>(this.deps.bind(this), this.depsLength());
+  _o.isAuthority = this.isAuthority();
 }
 }
 
@@ -297,7 +340,9 @@ constructor(
   public valueBlobs: (ValueBlobT)[] = [],
   public actorIdxs: (number)[] = [],
   public seqs: (bigint)[] = [],
-  public isDeletes: (boolean)[] = []
+  public isDeletes: (boolean)[] = [],
+  public deps: (string)[] = [],
+  public isAuthority: boolean = false
 ){}
 
 
@@ -310,6 +355,7 @@ pack(builder:flatbuffers.Builder): flatbuffers.Offset {
   const actorIdxs = ColumnarOpBatch.createActorIdxsVector(builder, this.actorIdxs);
   const seqs = ColumnarOpBatch.createSeqsVector(builder, this.seqs);
   const isDeletes = ColumnarOpBatch.createIsDeletesVector(builder, this.isDeletes);
+  const deps = ColumnarOpBatch.createDepsVector(builder, builder.createObjectOffsetList(this.deps));
 
   return ColumnarOpBatch.createColumnarOpBatch(builder,
     workspaceId,
@@ -319,7 +365,9 @@ pack(builder:flatbuffers.Builder): flatbuffers.Offset {
     valueBlobs,
     actorIdxs,
     seqs,
-    isDeletes
+    isDeletes,
+    deps,
+    this.isAuthority
   );
 }
 }
@@ -15,5 +15,8 @@ export enum MsgType {
   SyncRequest = 9,
   Snapshot = 10,
   Ping = 11,
-  Pong = 12
+  Pong = 12,
+  Reject = 13,
+  Ack = 14,
+  Nack = 15
 }
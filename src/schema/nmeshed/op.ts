@@ -81,8 +81,25 @@ isEncrypted():boolean {
   return offset ? !!this.bb!.readInt8(this.bb_pos + offset) : false;
 }
 
+deps(index: number):string
+deps(index: number,optionalEncoding:flatbuffers.Encoding):string|Uint8Array
+deps(index: number,optionalEncoding?:any):string|Uint8Array|null {
+  const offset = this.bb!.__offset(this.bb_pos, 20);
+  return offset ? this.bb!.__string(this.bb!.__vector(this.bb_pos + offset) + index * 4, optionalEncoding) : null;
+}
+
+depsLength():number {
+  const offset = this.bb!.__offset(this.bb_pos, 20);
+  return offset ? this.bb!.__vector_len(this.bb_pos + offset) : 0;
+}
+
+isAuthority():boolean {
+  const offset = this.bb!.__offset(this.bb_pos, 22);
+  return offset ? !!this.bb!.readInt8(this.bb_pos + offset) : false;
+}
+
 static startOp(builder:flatbuffers.Builder) {
-  builder.startObject(8);
+  builder.startObject(10);
 }
 
 static addWorkspaceId(builder:flatbuffers.Builder, workspaceIdOffset:flatbuffers.Offset) {
@@ -129,6 +146,26 @@ static addIsEncrypted(builder:flatbuffers.Builder, isEncrypted:boolean) {
   builder.addFieldInt8(7, +isEncrypted, +false);
 }
 
+static addDeps(builder:flatbuffers.Builder, depsOffset:flatbuffers.Offset) {
+  builder.addFieldOffset(8, depsOffset, 0);
+}
+
+static createDepsVector(builder:flatbuffers.Builder, data:flatbuffers.Offset[]):flatbuffers.Offset {
+  builder.startVector(4, data.length, 4);
+  for (let i = data.length - 1; i >= 0; i--) {
+    builder.addOffset(data[i]!);
+  }
+  return builder.endVector();
+}
+
+static startDepsVector(builder:flatbuffers.Builder, numElems:number) {
+  builder.startVector(4, numElems, 4);
+}
+
+static addIsAuthority(builder:flatbuffers.Builder, isAuthority:boolean) {
+  builder.addFieldInt8(9, +isAuthority, +false);
+}
+
 static endOp(builder:flatbuffers.Builder):flatbuffers.Offset {
   const offset = builder.endObject();
   return offset;
@@ -144,7 +181,9 @@ unpack(): OpT {
     this.actorId(),
     this.seq(),
     this.isDelete(),
-    this.isEncrypted()
+    this.isEncrypted(),
+    this.bb!.createScalarList<string>(this.deps.bind(this), this.depsLength()),
+    this.isAuthority()
   );
 }
 
@@ -158,6 +197,8 @@ unpackTo(_o: OpT): void {
   _o.seq = this.seq();
   _o.isDelete = this.isDelete();
   _o.isEncrypted = this.isEncrypted();
+  _o.deps = this.bb!.createScalarList<string>(this.deps.bind(this), this.depsLength());
+  _o.isAuthority = this.isAuthority();
 }
 }
 
@@ -170,7 +211,9 @@ constructor(
   public actorId: string|Uint8Array|null = null,
   public seq: bigint = BigInt('0'),
   public isDelete: boolean = false,
-  public isEncrypted: boolean = false
+  public isEncrypted: boolean = false,
+  public deps: (string)[] = [],
+  public isAuthority: boolean = false
 ){}
 
 
@@ -179,6 +222,7 @@ pack(builder:flatbuffers.Builder): flatbuffers.Offset {
   const key = (this.key !== null ? builder.createString(this.key!) : 0);
   const value = Op.createValueVector(builder, this.value);
   const actorId = (this.actorId !== null ? builder.createString(this.actorId!) : 0);
+  const deps = Op.createDepsVector(builder, builder.createObjectOffsetList(this.deps));
 
   Op.startOp(builder);
   Op.addWorkspaceId(builder, workspaceId);
@@ -189,6 +233,8 @@ pack(builder:flatbuffers.Builder): flatbuffers.Offset {
   Op.addSeq(builder, this.seq);
   Op.addIsDelete(builder, this.isDelete);
   Op.addIsEncrypted(builder, this.isEncrypted);
+  Op.addDeps(builder, deps);
+  Op.addIsAuthority(builder, this.isAuthority);
 
   return Op.endOp(builder);
 }
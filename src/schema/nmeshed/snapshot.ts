@@ -60,8 +60,20 @@ isEncrypted():boolean {
   return offset ? !!this.bb!.readInt8(this.bb_pos + offset) : false;
 }
 
+authorityKeys(index: number):string
+authorityKeys(index: number,optionalEncoding:flatbuffers.Encoding):string|Uint8Array
+authorityKeys(index: number,optionalEncoding?:any):string|Uint8Array|null {
+  const offset = this.bb!.__offset(this.bb_pos, 14);
+  return offset ? this.bb!.__string(this.bb!.__vector(this.bb_pos + offset) + index * 4, optionalEncoding) : null;
+}
+
+authorityKeysLength():number {
+  const offset = this.bb!.__offset(this.bb_pos, 14);
+  return offset ? this.bb!.__vector_len(this.bb_pos + offset) : 0;
+}
+
 static startSnapshot(builder:flatbuffers.Builder) {
-  builder.startObject(5);
+  builder.startObject(6);
 }
 
 static addData(builder:flatbuffers.Builder, dataOffset:flatbuffers.Offset) {
@@ -96,6 +108,22 @@ static addIsEncrypted(builder:flatbuffers.Builder, isEncrypted:boolean) {
   builder.addFieldInt8(4, +isEncrypted, +false);
 }
 
+static addAuthorityKeys(builder:flatbuffers.Builder, authorityKeysOffset:flatbuffers.Offset) {
+  builder.addFieldOffset(5, authorityKeysOffset, 0);
+}
+
+static createAuthorityKeysVector(builder:flatbuffers.Builder, data:flatbuffers.Offset[]):flatbuffers.Offset {
+  builder.startVector(4, data.length, 4);
+  for (let i = data.length - 1; i >= 0; i--) {
+    builder.addOffset(data[i]!);
+  }
+  return builder.endVector();
+}
+
+static startAuthorityKeysVector(builder:flatbuffers.Builder, numElems:number) {
+  builder.startVector(4, numElems, 4);
+}
+
 static endSnapshot(builder:flatbuffers.Builder):flatbuffers.Offset {
   const offset = builder.endObject();
   return offset;
@@ -108,7 +136,8 @@ unpack(): SnapshotT {
     (this.vectorClock() !== null ? this.vectorClock()!.unpack() : null),
     this.schemaVersion(),
     this.checksum(),
-    this.isEncrypted()
+    this.isEncrypted(),
+    this.bb!.createScalarList<string>(this.authorityKeys.bind(this), this.authorityKeysLength())
   );
 }
 
@@ -119,6 +148,7 @@ unpackTo(_o: SnapshotT): void {
   _o.schemaVersion = this.schemaVersion();
   _o.checksum = this.checksum();
   _o.isEncrypted = this.isEncrypted();
+  _o.authorityKeys = this.bb!.createScalarList<string>(this.authorityKeys.bind(this), this.authorityKeysLength());
 }
 }
 
@@ -128,13 +158,15 @@ constructor(
   public vectorClock: VersionVectorT|null = null,
   public schemaVersion: number = 0,
   public checksum: number = 0,
-  public isEncrypted: boolean = false
+  public isEncrypted: boolean = false,
+  public authorityKeys: (string)[] = []
 ){}
 
 
 pack(builder:flatbuffers.Builder): flatbuffers.Offset {
   const data = Snapshot.createDataVector(builder, this.data);
   const vectorClock = (this.vectorClock !== null ? this.vectorClock!.pack(builder) : 0);
+  const authorityKeys = Snapshot.createAuthorityKeysVector(builder, builder.createObjectOffsetList(this.authorityKeys));
 
   Snapshot.startSnapshot(builder);
   Snapshot.addData(builder, data);
@@ -142,6 +174,7 @@ pack(builder:flatbuffers.Builder): flatbuffers.Offset {
   Snapshot.addSchemaVersion(builder, this.schemaVersion);
   Snapshot.addChecksum(builder, this.checksum);
   Snapshot.addIsEncrypted(builder, this.isEncrypted);
+  Snapshot.addAuthorityKeys(builder, authorityKeys);
 
   return Snapshot.endSnapshot(builder);
 }
@@ -0,0 +1,117 @@
+/**
+ * @module Schemas
+ * @description
+ * Registered schemas (see `NMeshedConfig.schemas`) and the migrations that keep old values readable.
+ *
+ * A schema can be registered with a version. Once it is past version 1, every plain value written
+ * under it travels and is stored in a `{ __nmeshed: 'schema', version, value }` envelope, so
+ * readers know which shape it has. When an older value turns up (from local storage, a server
+ * snapshot or a remote op), the schema's `migrate(fromVersion, value)` is applied one version at
+ * a time until the value reaches the registered version. Values without an envelope are version 1,
+ * so version 1 writes stay bare and readable by clients that register no schema.
+ *
+ * Local writes must match the registered schema: `set`, `cas` and transactions throw a
+ * {@link SchemaError} otherwise. Remote values that do not match (after migration) are
+ * quarantined by the engine instead of entering live state.
+ *
+ * Typed keys (lists, text, counters, per-path objects) merge deltas rather than whole values and
+ * are neither migrated nor validated. Per-path objects (`client.store`) are the exception: the
+ * whole value they start from is tagged and migrated like a plain value, and a local per-path
+ * write must leave the object matching its schema. Later remote per-path writes are taken as
+ * they are.
+ */
+
+import type { ZodIssue } from 'zod';
+import type { Schema, VersionedSchema } from './types';
+import { ENVELOPE_FIELD, isEnvelope } from './utils/envelope';
+
+/** A value that does not match the schema registered for its key. */
+export class SchemaError extends Error {
+    readonly key: string;
+    readonly issues: ZodIssue[];
+    /** `local` for a write refused before it was applied, `remote` for a quarantined value */
+    readonly source: 'local' | 'remote';
+
+    constructor(key: string, issues: ZodIssue[], source: 'local' | 'remote') {
+        const detail = issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`).join('; ');
+        super(`[NMeshed] ${source === 'remote' ? 'Remote value' : 'Value'} for ${key} does not match its schema: ${detail}`);
+        this.name = 'SchemaError';
+        this.key = key;
+        this.issues = issues;
+        this.source = source;
+    }
+}
+
+/** Wire/storage form of a value written under a versioned schema. */
+interface SchemaEnvelope {
+    [ENVELOPE_FIELD]: 'schema';
+    version: number;
+    value: unknown;
+}
+
+function isSchemaEnvelope(value: unknown): value is SchemaEnvelope {
+    return isEnvelope(value, 'schema') && typeof (value as SchemaEnvelope).version === 'number';
+}
+
+/** Splits a decoded value into the value itself and the schema version it was written with. */
+export function unwrapSchema(value: unknown): { value: unknown; version: number } {
+    return isSchemaEnvelope(value) ? { value: value.value, version: value.version } : { value, version: 1 };
+}
+
+function isVersioned(entry: Schema | VersionedSchema): entry is VersionedSchema {
+    return typeof (entry as VersionedSchema).version === 'number';
+}
+
+export class SchemaRegistry {
+    private schemas = new Map<string, VersionedSchema>();
+
+    constructor(schemas: Record<string, Schema | VersionedSchema>) {
+        for (const [key, entry] of Object.entries(schemas)) {
+            this.schemas.set(key, isVersioned(entry) ? entry : { schema: entry, version: 1 });
+        }
+    }
+
+    /** The schema registered for `key`, if any. */
+    get(key: string): VersionedSchema | undefined {
+        return this.schemas.get(key);
+    }
+
+    /** Wire form of a value written to `key`: tagged with the schema version once it is past 1. */
+    wrap(key: string, value: unknown): unknown {
+        const entry = this.schemas.get(key);
+        if (!entry || entry.version <= 1 || value === null) return value;
+        return { [ENVELOPE_FIELD]: 'schema', version: entry.version, value } satisfies SchemaEnvelope;
+    }
+
+    /**
+     * Checks `value` against the schema registered for `key`. Deletes (null) always pass.
+     * @returns The mismatch, or null if the value matches or no schema is registered.
+     */
+    validate(key: string, value: unknown, source: 'local' | 'remote'): SchemaError | null {
+        const entry = this.schemas.get(key);
+        if (!entry || value === null) return null;
+        const result = entry.schema.safeParse(value);
+        return result.success ? null : new SchemaError(key, result.error.issues, source);
+    }
+
+    /**
+     * Unwraps a decoded value and migrates it to the version registered for `key`.
+     * A value from a newer version, or one a migration fails on, is returned as far as it got.
+     */
+    upgrade(key: string, decoded: unknown): unknown {
+        let { value, version } = unwrapSchema(decoded);
+        const entry = this.schemas.get(key);
+        if (!entry || value === null) return value;
+
+        if (version < entry.version && !entry.migrate) {
+            console.error(`[NMeshed] No migration for ${key} from version ${version} to ${entry.version}`);
+            return value;
+        }
+        try {
+            for (; version < entry.version; version++) value = entry.migrate!(version, value);
+        } catch (e) {
+            console.error(`[NMeshed] Migration of ${key} from version ${version} failed`, e);
+        }
+        return value;
+    }
+}
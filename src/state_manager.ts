@@ -1,60 +1,136 @@
-export class SpeculativeStateManager {
-    private committedState: Uint8Array; // The "Last Known Good" binary
-    private speculativeState: Uint8Array; // The current "Optimistic" binary
-    private pendingOps: Map<string, any>; // Track by TaskID
+/**
+ * @module SpeculativeState
+ * @description
+ * Tracks local ops the server has not verified yet, so a rejected one can be taken back.
+ *
+ * Local writes are applied optimistically. For every key with unverified ops the manager keeps
+ * the committed entry (the newest one the server has vouched for: a confirmed op of ours or a
+ * remote write) and the speculative entries written on top of it, by op id.
+ *
+ * - **Confirm** promotes an op: it may become the committed entry.
+ * - **Reject** drops an op and rebases the key: what remains visible is the Last-Write-Wins
+ *   winner of the committed entry and the other speculative entries, so later valid writes
+ *   survive the rollback of an earlier one.
+ *
+ * Remote writes keep the committed entry current even when a speculative entry hides them, so a
+ * rollback reveals the newest remote value rather than a stale one.
+ */
 
-    constructor(initialState: Uint8Array) {
-        this.committedState = new Uint8Array(initialState);
-        this.speculativeState = new Uint8Array(initialState);
-        this.pendingOps = new Map();
+/** What the manager needs from a state entry: its LWW position. */
+export interface SpeculativeEntry {
+    timestamp: bigint;
+    peerId: string;
+}
+
+interface KeySpeculation<E, O> {
+    committed?: E;
+    // Speculative entries and their ops by op id, oldest first
+    pending: Map<string, { entry: E; op: O }>;
+}
+
+/** Result of a rejection: the rejected op and the entry that should now be visible. */
+export interface Rebase<E, O> {
+    key: string;
+    rejected: E;
+    op: O;
+    /** LWW winner of what is left, or undefined if the key had no value before */
+    view?: E;
+}
+
+/** True if `a` wins over `b` under Last-Write-Wins (newer timestamp, then higher peer id). */
+function wins(a: SpeculativeEntry, b: SpeculativeEntry | undefined): boolean {
+    if (!b) return true;
+    return a.timestamp > b.timestamp || (a.timestamp === b.timestamp && a.peerId > b.peerId);
+}
+
+export class SpeculativeStateManager<E extends SpeculativeEntry, O = unknown> {
+    private keys = new Map<string, KeySpeculation<E, O>>();
+    // Op id -> key, oldest first
+    private ops = new Map<string, string>();
+    private maxOps: number;
+
+    /** @param maxOps Unverified ops kept; past it the oldest are treated as confirmed. */
+    constructor(maxOps = Infinity) {
+        this.maxOps = maxOps;
     }
 
     /**
-     * Called when the user performs an action. 
-     * Updates the UI immediately (0ms).
+     * Records a local op applied optimistically.
+     * @param entry The entry the op wrote
+     * @param current The entry it replaced, which becomes the committed one if the key had no
+     * unverified ops yet.
      */
-    public applyLocalChange(taskId: string, opData: Uint8Array, wasmInstance: any) {
-        // 1. Update the Speculative View
-        // Assuming wasmInstance exports `apply_change(state, op)` returning new state
-        this.speculativeState = wasmInstance.apply_change(this.speculativeState, opData);
+    applyLocalChange(id: string, key: string, entry: E, op: O, current?: E): void {
+        let speculation = this.keys.get(key);
+        if (!speculation) {
+            speculation = { committed: current, pending: new Map() };
+            this.keys.set(key, speculation);
+        }
+        speculation.pending.set(id, { entry, op });
+        this.ops.set(id, key);
 
-        // 2. Track it for potential rollback
-        this.pendingOps.set(taskId, opData);
+        if (this.ops.size > this.maxOps) this.handleVerificationSuccess(this.ops.keys().next().value!);
+    }
 
-        return this.speculativeState;
+    /** Records a remote write to `key`, whether or not it won against a speculative entry. */
+    observe(key: string, entry: E): void {
+        const speculation = this.keys.get(key);
+        if (speculation && wins(entry, speculation.committed)) speculation.committed = entry;
     }
 
     /**
-     * Handles the 'VerificationFailed' event from the Rust Core.
+     * Promotes a confirmed op.
+     * @returns False if the op was not (or no longer) unverified.
      */
-    public handleVerificationFailure(failedTaskId: string, wasmInstance: any) {
-        console.warn(`nMeshed: Security Violation on Task ${failedTaskId}. Rolling back.`);
+    handleVerificationSuccess(id: string): boolean {
+        const key = this.ops.get(id);
+        if (key === undefined) return false;
+        this.ops.delete(id);
 
-        // 1. Purge the invalid op from the pending set
-        this.pendingOps.delete(failedTaskId);
-
-        // 2. The REBASE: 
-        // We reset the Speculative state to the Committed state (The Truth).
-        this.speculativeState = new Uint8Array(this.committedState);
+        const speculation = this.keys.get(key)!;
+        const { entry } = speculation.pending.get(id)!;
+        speculation.pending.delete(id);
+        if (wins(entry, speculation.committed)) speculation.committed = entry;
+        if (speculation.pending.size === 0) this.keys.delete(key);
+        return true;
+    }
 
-        // 3. Re-apply any OTHER pending ops that haven't failed.
-        // This ensures we don't lose subsequent VALID user work.
-        for (const opData of this.pendingOps.values()) {
-            this.speculativeState = wasmInstance.apply_change(this.speculativeState, opData);
+    /** Promotes every op `isConfirmed` accepts. */
+    confirmWhere(isConfirmed: (op: O) => boolean): void {
+        for (const [id, key] of [...this.ops]) {
+            if (isConfirmed(this.keys.get(key)!.pending.get(id)!.op)) this.handleVerificationSuccess(id);
         }
-
-        // 5. Audit: Push metric to the observability layer (Mocked)
-        // metrics.increment("nmeshed_ui_snapback_total");
-
-        return this.speculativeState;
     }
 
     /**
-     * Handles 'VerificationSuccess' - Promoting speculative data to truth.
+     * Drops a rejected op and rebases its key on the committed entry and the remaining
+     * speculative entries.
+     * @returns null if the op was not (or no longer) unverified.
      */
-    public handleVerificationSuccess(taskId: string, finalVerifiedState: Uint8Array) {
-        this.pendingOps.delete(taskId);
-        // Update the anchor point for future rollbacks
-        this.committedState = new Uint8Array(finalVerifiedState);
+    handleVerificationFailure(id: string): Rebase<E, O> | null {
+        const key = this.ops.get(id);
+        if (key === undefined) return null;
+        this.ops.delete(id);
+
+        const speculation = this.keys.get(key)!;
+        const { entry: rejected, op } = speculation.pending.get(id)!;
+        speculation.pending.delete(id);
+
+        let view = speculation.committed;
+        for (const { entry } of speculation.pending.values()) {
+            if (wins(entry, view)) view = entry;
+        }
+        if (speculation.pending.size === 0) this.keys.delete(key);
+        return { key, rejected, op, view };
+    }
+
+    /** True if `key` has unverified ops. */
+    isSpeculative(key: string): boolean {
+        return this.keys.has(key);
+    }
+
+    clear(): void {
+        this.keys.clear();
+        this.ops.clear();
     }
 }
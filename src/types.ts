@@ -6,6 +6,7 @@
  */
 
 import type { EncryptionAdapter } from './encryption';
+import type { SchemaError } from './schemas';
 
 // =============================================================================
 // Configuration
@@ -23,6 +24,18 @@ import { ZodType, ZodTypeDef } from 'zod';
  */
 export type Schema = ZodType<any, ZodTypeDef, any>;
 
+/** A schema registered with a version, and how older values are brought up to it. */
+export interface VersionedSchema {
+    schema: Schema;
+    /** Version of the values written now (an integer; unversioned values are version 1) */
+    version: number;
+    /**
+     * Upgrades a value written at `fromVersion` to `fromVersion + 1`. Called once per step, so a
+     * version 1 value registered at version 3 goes through `migrate(1, v)` then `migrate(2, v)`.
+     */
+    migrate?: (fromVersion: number, value: any) => unknown;
+}
+
 /** Configuration for NMeshed client */
 export interface NMeshedConfig {
     /** Workspace/room identifier */
@@ -40,8 +53,9 @@ export interface NMeshedConfig {
     /** 
      * Registered schemas for strict typing and CRDT inference.
      * Keys here map to store names (e.g. client.store('board')).
+     * Register a {@link VersionedSchema} to migrate values written with an older shape.
      */
-    schemas?: Record<string, Schema>;
+    schemas?: Record<string, Schema | VersionedSchema>;
     /**
      * Custom storage adapter.
      * If not provided, defaults to IndexedDB in browser and InMemory in Node.
@@ -76,8 +90,97 @@ export interface NMeshedConfig {
      * If not provided, one will be generated for the session.
      */
     traceparent?: string;
+    /**
+     * Key prefixes stored as multi-value registers.
+     * Concurrent writes to these keys are all kept (see `getConflicts` and the `conflict` event)
+     * instead of the older one being discarded by Last-Write-Wins.
+     */
+    multiValuePrefixes?: string[];
+    /**
+     * Tombstone garbage collection tuning.
+     * Deleted keys are kept until every known peer has acknowledged the delete, so that a stale
+     * write from a peer that was offline cannot bring them back.
+     */
+    gc?: GCOptions;
+    /**
+     * Roles of this user, matched against `policies`. They should mirror what the server grants
+     * the token: the local check only spares a round trip, the server has the final say.
+     */
+    roles?: string[];
+    /**
+     * Access policies by key prefix; the longest matching prefix applies.
+     * A write the policy denies throws a `PolicyError` (also emitted as `error`) without touching
+     * state. A write the server rejects is rolled back and reported the same way.
+     *
+     * @example
+     * ```ts
+     * policies: {
+     *     'settings.': { write: ['admin'], delete: ['admin'] },
+     *     'docs.': { write: ['editor', 'admin'], delete: ['admin'] },
+     * }
+     * ```
+     */
+    policies?: Record<string, AccessPolicy>;
+    /**
+     * How authority writes are treated, by key prefix; the longest matching prefix applies and
+     * other keys use `'lock'`. Authority is asserted by the server on the ops it relays from
+     * authority peers (e.g. a game server or an admin backend), never claimed by a client.
+     */
+    authority?: Record<string, AuthorityVeto>;
+    /**
+     * Milliseconds `cas()` waits for the server's verdict before resolving to false. The
+     * optimistic write stays speculative until the verdict (or a resync) arrives. Defaults to 5000.
+     */
+    casTimeout?: number;
+    /**
+     * Keep past values of every key, with their HLC timestamp and writer, for `history()`,
+     * `stateAt()` and `restore()`. Off by default; `true` uses the default {@link HistoryOptions}.
+     */
+    history?: boolean | HistoryOptions;
+}
+
+/** Tuning for tombstone garbage collection (see {@link NMeshedConfig.gc}). */
+export interface GCOptions {
+    /** Minimum age in ms before a tombstone may be collected. Defaults to 5000. */
+    stabilityWindow?: number;
+    /**
+     * Age in ms after which a tombstone is collected even if some peer never acknowledged it
+     * (e.g. a peer that left for good). Defaults to 7 days.
+     */
+    maxTombstoneAge?: number;
+    /** Local writes between automatic compactions. Defaults to 1000. */
+    compactionThreshold?: number;
 }
 
+/** Result of one garbage collection pass, emitted as the `gc` event. */
+export interface GCStats {
+    /** Tombstones removed from memory and storage */
+    collected: number;
+    /** Tombstones kept because they are too recent or not yet acknowledged */
+    retained: number;
+    /** Peers whose acknowledgement is still missing for some retained tombstone */
+    waitingOn: string[];
+}
+
+/** Operations an access policy controls: `write` covers set, cas, transactions and typed-key edits. */
+export type PolicyOperation = 'write' | 'delete';
+
+/**
+ * Roles allowed to perform each operation under a key prefix (see {@link NMeshedConfig.policies}).
+ * An operation left out is open to every role.
+ */
+export type AccessPolicy = Partial<Record<PolicyOperation, string[]>>;
+
+/**
+ * Veto rights of authority writes under a key prefix (see {@link NMeshedConfig.authority}):
+ * - `lock`: an authority write always wins, and other peers cannot overwrite it afterwards
+ * - `override`: an authority write always wins when it arrives; later writes replace it by LWW
+ * - `none`: authority writes are ordinary Last-Write-Wins writes
+ *
+ * Between two authority writes, the newer one wins.
+ */
+export type AuthorityVeto = 'lock' | 'override' | 'none';
+
 // =============================================================================
 // Connection State
 // =============================================================================
@@ -126,6 +229,53 @@ export interface WireOp {
 // Events
 // =============================================================================
 
+/** A past value of a key, as kept by op-log retention (see {@link NMeshedConfig.history}). */
+export interface HistoryEntry<T = unknown> {
+    value: T | null;
+    /** HLC timestamp of the write */
+    timestamp: bigint;
+    /** Writer of the value */
+    peerId: string;
+    /** HLC time the value expires at, if it was written with a TTL */
+    expiresAt?: bigint;
+}
+
+/** Op-log retention tuning (see {@link NMeshedConfig.history}). */
+export interface HistoryOptions {
+    /** Past values kept per key; older ones are dropped. Defaults to 100. */
+    maxVersions?: number;
+}
+
+/** Narrows `history()` results. */
+export interface HistoryQuery {
+    /** Only values written after this HLC timestamp */
+    since?: bigint;
+    /** At most this many values (the oldest matching ones) */
+    limit?: number;
+}
+
+/** A remote value that failed its schema and was kept out of live state (see `getQuarantined()`). */
+export interface QuarantinedValue {
+    key: string;
+    value: unknown;
+    /** Writer of the value (`SNAPSHOT` for a server snapshot) */
+    peerId: string;
+    timestamp: bigint;
+    /** Why the value was refused */
+    error: SchemaError;
+}
+
+/** A local write the server rejected, as it disappears from view (see the `rollback` event). */
+export interface RollbackChange {
+    key: string;
+    /** The rejected value that was shown optimistically */
+    from: unknown;
+    /** The value shown now: the newest remaining write, or null if there is none */
+    to: unknown;
+    /** Reason given by the server, if any */
+    reason?: string;
+}
+
 /** Event types emitted by the client */
 export interface ClientEvents {
     /** Fired when a key's value changes (local or remote) */
@@ -142,6 +292,54 @@ export interface ClientEvents {
     ready: () => void;
     /** Fired when a CAS operation needs to be sent to server */
     cas: (wireData: Uint8Array) => void;
+    /** Fired when local operations need to be sent to server (value is the wire form) */
+    outbound: (ops: Operation[]) => void;
+    /** Fired when a multi-value key ends up with concurrent values (newest first) */
+    conflict: (key: string, siblings: ConflictValue[]) => void;
+    /** Fired once per atomic transaction, after every `op` event of it */
+    transaction: (changes: { key: string; value: unknown }[], isLocal: boolean) => void;
+    /** Fired when a remote op arrives before its dependencies (the client then requests a resync) */
+    gap: (missing: string[]) => void;
+    /** Fired after each tombstone garbage collection pass */
+    gc: (stats: GCStats) => void;
+    /**
+     * Fired when a rejected local write is rolled back, after its `op` event (e.g. to animate it).
+     * For typed keys (lists, text, counters, per-path objects), `to` is the value rebuilt without
+     * the rejected edit.
+     */
+    rollback: (change: RollbackChange) => void;
+}
+
+/** Options for a single `set()`. */
+export interface SetOptions {
+    /**
+     * Time-to-live in milliseconds. The expiry travels with the value as an HLC timestamp, so
+     * every peer hides it at the same moment and emits it as a delete (`op` with `null`);
+     * `compact()` then removes it.
+     */
+    ttl?: number;
+}
+
+/** Options for a single `cas()`. */
+export interface CASOptions {
+    /**
+     * Milliseconds to wait for the server's verdict before resolving to false. The write stays
+     * speculative: a late Ack confirms it, a late Nack or rejection rolls it back. Defaults to 5000.
+     */
+    timeout?: number;
+}
+
+/** Write handle passed to `client.transaction()`. */
+export interface Transaction {
+    set<T = unknown>(key: string, value: T): void;
+    delete(key: string): void;
+}
+
+/** One of several concurrent values of a multi-value key. */
+export interface ConflictValue {
+    value: unknown;
+    peerId: string;
+    timestamp: bigint;
 }
 
 /** Type-safe event emitter interface */
@@ -202,7 +400,7 @@ export interface INMeshedClient {
     /** Get a value by key */
     get<T = unknown>(key: string): T | undefined;
     /** Set a key-value pair */
-    set<T = unknown>(key: string, value: T): void;
+    set<T = unknown>(key: string, value: T, options?: SetOptions): void;
     /** Delete a key */
     delete(key: string): void;
     /** 
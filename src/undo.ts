@@ -0,0 +1,186 @@
+/**
+ * @module Undo
+ * @description
+ * Per-peer undo/redo built on the engine's op stream.
+ *
+ * The manager mirrors every value it sees in `op` events, so when a local op arrives it knows
+ * what the key held just before and can record the inverse. Remote ops only refresh the mirror:
+ * they are never undone, and undoing a key that a remote peer has overwritten since leaves the
+ * remote value alone.
+ *
+ * ## Grouping
+ * Local ops within `captureTimeout` of each other collapse into one undo step, as do all writes of
+ * a `transaction()` (they share one HLC timestamp). `stopCapturing()` forces the next op into a
+ * new step.
+ *
+ * Undo covers plain values (including multi-value keys). Typed keys such as lists, text and
+ * counters carry their own merge semantics and are not recorded.
+ */
+
+import type { SyncEngine } from './engine';
+import { deepEqual } from './utils/equality';
+
+export interface UndoManagerOptions {
+    /** Only record keys starting with this prefix */
+    prefix?: string;
+    /** Local ops closer together than this (ms) form one undo step. Defaults to 500. */
+    captureTimeout?: number;
+}
+
+interface Change {
+    before: unknown;
+    after: unknown;
+}
+
+interface UndoStep {
+    changes: Map<string, Change>;
+    timestamp: bigint;
+    lastAt: number;
+}
+
+export class UndoManager {
+    private engine: SyncEngine;
+    private prefix: string;
+    private captureTimeout: number;
+    private mirror = new Map<string, unknown>();
+    private undoStack: UndoStep[] = [];
+    private redoStack: UndoStep[] = [];
+    private capturing = true;
+    // Collects the ops produced while an undo/redo is being applied
+    private replaying: UndoStep | null = null;
+    private listeners = new Set<() => void>();
+    private unsubscribe: () => void;
+
+    constructor(engine: SyncEngine, options: UndoManagerOptions = {}) {
+        this.engine = engine;
+        this.prefix = options.prefix ?? '';
+        this.captureTimeout = options.captureTimeout ?? 500;
+
+        for (const [key, value] of Object.entries(engine.getAllValues())) {
+            this.mirror.set(key, value);
+        }
+        this.unsubscribe = engine.on('op', (key, value, isLocal, timestamp, isReplay) => {
+            this.capture(key, value, isLocal && !isReplay, timestamp ?? 0n);
+        });
+    }
+
+    canUndo(): boolean {
+        return this.undoStack.length > 0;
+    }
+
+    canRedo(): boolean {
+        return this.redoStack.length > 0;
+    }
+
+    /**
+     * Reverts the most recent local step.
+     * @returns false if there was nothing to undo.
+     */
+    async undo(): Promise<boolean> {
+        const step = this.undoStack.pop();
+        if (!step) return false;
+        await this.replay(step, this.redoStack);
+        return true;
+    }
+
+    /**
+     * Re-applies the most recently undone step.
+     * @returns false if there was nothing to redo.
+     */
+    async redo(): Promise<boolean> {
+        const step = this.redoStack.pop();
+        if (!step) return false;
+        await this.replay(step, this.undoStack);
+        return true;
+    }
+
+    /** Starts a new undo step with the next local op, regardless of timing. */
+    stopCapturing(): void {
+        this.capturing = false;
+    }
+
+    /** Drops all undo and redo history. */
+    clear(): void {
+        this.undoStack = [];
+        this.redoStack = [];
+        this.notify();
+    }
+
+    /**
+     * Registers a callback for changes to `canUndo`/`canRedo`.
+     * @returns A function to unsubscribe.
+     */
+    subscribe(listener: () => void): () => void {
+        this.listeners.add(listener);
+        return () => this.listeners.delete(listener);
+    }
+
+    /** Stops listening to the engine. */
+    destroy(): void {
+        this.unsubscribe();
+        this.listeners.clear();
+    }
+
+    private capture(key: string, value: unknown, isLocal: boolean, timestamp: bigint): void {
+        const before = this.mirror.get(key);
+        this.mirror.set(key, value);
+
+        if (!isLocal || !key.startsWith(this.prefix)) return;
+        const type = this.engine.getCRDTType(key);
+        if (type && type !== 'mvr') return;
+
+        if (this.replaying) {
+            record(this.replaying, key, before, value);
+            return;
+        }
+
+        const now = Date.now();
+        const last = this.undoStack[this.undoStack.length - 1];
+        const sameStep = last && this.capturing
+            && (last.timestamp === timestamp || now - last.lastAt < this.captureTimeout);
+
+        if (sameStep) {
+            record(last, key, before, value);
+            last.lastAt = now;
+            last.timestamp = timestamp;
+        } else {
+            const step: UndoStep = { changes: new Map(), timestamp, lastAt: now };
+            record(step, key, before, value);
+            this.undoStack.push(step);
+        }
+        this.capturing = true;
+        this.redoStack = [];
+        this.notify();
+    }
+
+    /** Writes the `before` side of `step` back, skipping keys a remote peer has changed since. */
+    private async replay(step: UndoStep, inverseStack: UndoStep[]): Promise<void> {
+        const revertible = [...step.changes].filter(([key, change]) => deepEqual(this.mirror.get(key), change.after));
+
+        this.replaying = { changes: new Map(), timestamp: 0n, lastAt: 0 };
+        try {
+            await this.engine.transaction(tx => {
+                for (const [key, change] of revertible) {
+                    if (change.before === undefined || change.before === null) tx.delete(key);
+                    else tx.set(key, change.before);
+                }
+            });
+        } finally {
+            const inverse = this.replaying;
+            this.replaying = null;
+            if (inverse.changes.size > 0) inverseStack.push(inverse);
+            this.capturing = false;
+            this.notify();
+        }
+    }
+
+    private notify(): void {
+        this.listeners.forEach(listener => listener());
+    }
+}
+
+function record(step: UndoStep, key: string, before: unknown, after: unknown): void {
+    const existing = step.changes.get(key);
+    // Keep the oldest `before` so undoing the step restores the state prior to all of it
+    step.changes.set(key, { before: existing ? existing.before : before, after });
+}
@@ -0,0 +1,18 @@
+/**
+ * SDK envelopes around a written value (its TTL, its schema version) are tagged with a reserved
+ * field naming their kind. Local writes of an object carrying that field are refused, so a user
+ * value is never mistaken for an envelope.
+ */
+export const ENVELOPE_FIELD = '__nmeshed';
+
+/** Whether `value` is an SDK envelope of `kind`. */
+export function isEnvelope(value: unknown, kind: string): boolean {
+    return typeof value === 'object' && value !== null && !Array.isArray(value)
+        && (value as Record<string, unknown>)[ENVELOPE_FIELD] === kind;
+}
+
+/** Whether `value` is an object using the reserved envelope field. */
+export function usesReservedField(value: unknown): boolean {
+    return typeof value === 'object' && value !== null && !Array.isArray(value)
+        && Object.prototype.hasOwnProperty.call(value, ENVELOPE_FIELD);
+}
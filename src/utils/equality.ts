@@ -0,0 +1,33 @@
+/**
+ * @module Equality
+ * @description
+ * Structural comparison helpers shared by the engine (CAS) and higher-level managers.
+ */
+
+/**
+ * Deep equality check for CAS operations.
+ * Unlike JSON.stringify, this is order-independent for object keys.
+ */
+export function deepEqual(a: unknown, b: unknown): boolean {
+    if (a === b) return true;
+    if (a == null || b == null) return a === b;
+    if (typeof a !== typeof b) return false;
+
+    if (typeof a !== 'object') return a === b;
+
+    // Arrays
+    if (Array.isArray(a)) {
+        if (!Array.isArray(b) || a.length !== b.length) return false;
+        return a.every((item, i) => deepEqual(item, b[i]));
+    }
+
+    // Objects - order-independent comparison
+    const keysA = Object.keys(a as object);
+    const keysB = Object.keys(b as object);
+    if (keysA.length !== keysB.length) return false;
+
+    return keysA.every(key =>
+        key in (b as object) &&
+        deepEqual((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key])
+    );
+}
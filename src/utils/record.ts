@@ -0,0 +1,156 @@
+/**
+ * @module StorageRecord
+ * @description
+ * Versioned format of the values the engine persists.
+ *
+ * A record keeps the LWW metadata (HLC timestamp, writer peer id, tombstone flag) next to the
+ * value payload, so a reloaded value still wins or loses against remote ops exactly like it did
+ * before the reload. The payload is stored as-is: encrypted when E2EE is on, plain MsgPack otherwise.
+ *
+ * Older versions stored the bare payload. {@link decodeRecord} returns null for those, and callers
+ * load them with no metadata.
+ *
+ * Records are not stored one key per value. `compact()` folds them into a single
+ * {@link SnapshotRecord}, and every write after it is appended to a delta log
+ * ({@link encodeLogEntry}). A cold start reads one snapshot and replays only the log.
+ */
+
+import { Builder, ByteBuffer } from 'flatbuffers';
+import { encodeValue, decodeValue } from '../protocol';
+import * as FBS from '../schema/nmeshed';
+import { crc32 } from './checksum';
+
+/** Current record version. Bump when the layout changes and keep decoding the older ones. */
+export const RECORD_VERSION = 1;
+
+/** A persisted value with its LWW metadata. */
+export interface StorageRecord {
+    payload: Uint8Array;
+    timestamp: bigint;
+    peerId: string;
+    tombstone: boolean;
+    /** Written by an authority peer (server-asserted) */
+    authority?: boolean;
+}
+
+/** On-disk layout (MsgPack). `__record` marks the bytes as a record and carries its version. */
+interface RecordV1 {
+    __record: 1;
+    payload: Uint8Array;
+    /** HLC timestamp as a decimal string (128 bits do not fit a MsgPack integer) */
+    ts: string;
+    peer: string;
+    del?: true;
+    auth?: true;
+}
+
+export function encodeRecord(record: StorageRecord): Uint8Array {
+    const raw: RecordV1 = {
+        __record: RECORD_VERSION,
+        payload: record.payload,
+        ts: record.timestamp.toString(),
+        peer: record.peerId,
+    };
+    if (record.tombstone) raw.del = true;
+    if (record.authority) raw.auth = true;
+    return encodeValue(raw);
+}
+
+/**
+ * Decodes a stored record.
+ * @returns null if `data` is a bare payload written before records existed.
+ */
+export function decodeRecord(data: Uint8Array): StorageRecord | null {
+    let raw: unknown;
+    try {
+        raw = decodeValue(data);
+    } catch {
+        return null; // Ciphertext, or not MsgPack at all
+    }
+    if (typeof raw !== 'object' || raw === null || !('__record' in raw)) return null;
+
+    const record = raw as RecordV1;
+    if (record.__record !== 1 || !(record.payload instanceof Uint8Array)) return null;
+    return {
+        payload: record.payload,
+        timestamp: BigInt(record.ts),
+        peerId: record.peer,
+        tombstone: record.del === true,
+        authority: record.auth === true,
+    };
+}
+
+// =============================================================================
+// Snapshot + delta log
+// =============================================================================
+
+/** Current local snapshot layout. Snapshots with a newer version are not read. */
+export const SNAPSHOT_VERSION = 1;
+
+/** Every record at the time of a compaction, plus what is needed to replay the log on top. */
+export interface SnapshotRecord {
+    /** Encoded records ({@link encodeRecord}) by key */
+    entries: Record<string, Uint8Array>;
+    /** First delta log sequence number the snapshot does not cover */
+    logStart: number;
+    vectorClock: Record<string, bigint>;
+    isEncrypted: boolean;
+}
+
+/**
+ * Encodes a snapshot as a Snapshot table. `data` holds the entries (MsgPack) and `checksum`
+ * its CRC-32, so a torn or corrupted write is detected instead of loaded.
+ */
+export function encodeSnapshotRecord(snapshot: SnapshotRecord): Uint8Array {
+    const data = encodeValue({ entries: snapshot.entries, logStart: snapshot.logStart });
+    const builder = new Builder(data.length + 256);
+    const dataOffset = FBS.Snapshot.createDataVector(builder, data);
+    const items = Object.entries(snapshot.vectorClock).map(([peerId, seq]) =>
+        FBS.StateVectorEntry.createStateVectorEntry(builder, builder.createString(peerId), seq)
+    );
+    const clockOffset = FBS.VersionVector.createVersionVector(builder, FBS.VersionVector.createItemsVector(builder, items));
+
+    FBS.Snapshot.startSnapshot(builder);
+    FBS.Snapshot.addData(builder, dataOffset);
+    FBS.Snapshot.addVectorClock(builder, clockOffset);
+    FBS.Snapshot.addSchemaVersion(builder, SNAPSHOT_VERSION);
+    FBS.Snapshot.addChecksum(builder, crc32(data));
+    FBS.Snapshot.addIsEncrypted(builder, snapshot.isEncrypted);
+    builder.finish(FBS.Snapshot.endSnapshot(builder));
+    return builder.asUint8Array();
+}
+
+/**
+ * Decodes and verifies a stored snapshot.
+ * @throws If the checksum does not match or the snapshot was written by a newer version.
+ */
+export function decodeSnapshotRecord(bytes: Uint8Array): SnapshotRecord {
+    const table = FBS.Snapshot.getRootAsSnapshot(new ByteBuffer(bytes));
+    if (table.schemaVersion() > SNAPSHOT_VERSION) {
+        throw new Error(`Unsupported snapshot version ${table.schemaVersion()}`);
+    }
+    const data = table.dataArray() ?? new Uint8Array(0);
+    if (crc32(data) !== table.checksum()) throw new Error('Snapshot checksum mismatch');
+
+    const { entries, logStart } = decodeValue<{ entries: Record<string, Uint8Array>; logStart: number }>(data);
+    const vectorClock: Record<string, bigint> = {};
+    const clock = table.vectorClock();
+    for (let i = 0; i < (clock?.itemsLength() ?? 0); i++) {
+        const item = clock!.items(i);
+        if (item?.peerId()) vectorClock[item.peerId()!] = item.seq();
+    }
+    return { entries, logStart, vectorClock, isEncrypted: table.isEncrypted() };
+}
+
+/** Delta log entry: a key and its encoded record ({@link encodeRecord}). */
+export function encodeLogEntry(key: string, record: Uint8Array): Uint8Array {
+    return encodeValue({ key, record });
+}
+
+export function decodeLogEntry(data: Uint8Array): { key: string; record: Uint8Array } {
+    const entry = decodeValue<{ key: string; record: Uint8Array }>(data);
+    if (typeof entry?.key !== 'string' || !(entry.record instanceof Uint8Array)) {
+        throw new Error('Malformed delta log entry');
+    }
+    return entry;
+}
@@ -0,0 +1,88 @@
+/**
+ * @module PrefixTrie
+ * @description
+ * Character trie used for prefix lookups on keys: the engine's key index (`getByPrefix`) and
+ * the client's prefix subscriptions (`subscribePrefix`). Both cost O(key length + matches)
+ * instead of a `startsWith` over every key or every listener.
+ */
+
+interface TrieNode<T> {
+    children: Map<string, TrieNode<T>>;
+    values: Set<T>;
+}
+
+const createNode = <T>(): TrieNode<T> => ({ children: new Map(), values: new Set() });
+
+export class PrefixTrie<T> {
+    private root: TrieNode<T> = createNode();
+
+    /** Attaches `value` to `path`. */
+    add(path: string, value: T): void {
+        let node = this.root;
+        for (const char of path) {
+            let child = node.children.get(char);
+            if (!child) {
+                child = createNode();
+                node.children.set(char, child);
+            }
+            node = child;
+        }
+        node.values.add(value);
+    }
+
+    /** Detaches `value` from `path`, pruning nodes left empty. */
+    delete(path: string, value: T): void {
+        const trail: [TrieNode<T>, string][] = [];
+        let node = this.root;
+        for (const char of path) {
+            const child = node.children.get(char);
+            if (!child) return;
+            trail.push([node, char]);
+            node = child;
+        }
+        node.values.delete(value);
+
+        while (trail.length > 0 && node.values.size === 0 && node.children.size === 0) {
+            const [parent, char] = trail.pop()!;
+            parent.children.delete(char);
+            node = parent;
+        }
+    }
+
+    /**
+     * Values attached to `key` or to any prefix of it (including the empty prefix), or only
+     * to the prefixes at least `minLength` long.
+     */
+    matching(key: string, minLength = 0): T[] {
+        const result = minLength === 0 ? [...this.root.values] : [];
+        let node: TrieNode<T> | undefined = this.root;
+        let depth = 0;
+        for (const char of key) {
+            node = node.children.get(char);
+            if (!node) break;
+            if (++depth >= minLength) result.push(...node.values);
+        }
+        return result;
+    }
+
+    /** Values attached to `prefix` or to any path below it. */
+    under(prefix: string): T[] {
+        let node: TrieNode<T> | undefined = this.root;
+        for (const char of prefix) {
+            node = node.children.get(char);
+            if (!node) return [];
+        }
+        const result: T[] = [];
+        const stack = [node];
+        while (stack.length > 0) {
+            const next = stack.pop()!;
+            result.push(...next.values);
+            stack.push(...next.children.values());
+        }
+        return result;
+    }
+
+    clear(): void {
+        this.root = createNode();
+    }
+}
@@ -6,8 +6,10 @@ import { useSignalQueue } from '../../src/ai/signals';
 import { NMeshedProvider } from '../../src/react/context';
 import { NMeshedClient } from '../../src/client';
 import { InMemoryAdapter } from '../../src/adapters/InMemoryAdapter';
+import { decodeMessage, encodeAck, MsgType } from '../../src/protocol';
 
-// Stub WebSocket globally and permanently for this file
+// Stub WebSocket globally and permanently for this file.
+// It plays a server that grants every CAS request.
 class StubWebSocket {
     static OPEN = 1;
     static CLOSED = 3;
@@ -15,7 +17,12 @@ class StubWebSocket {
     onopen: any;
     onclose: any;
     onmessage: any;
-    send() { }
+    send(data: Uint8Array) {
+        const msg = decodeMessage(data);
+        if (msg?.type !== MsgType.CompareAndSwap) return;
+        const ack = encodeAck(msg.key!, msg.timestamp!, msg.actorId!);
+        setTimeout(() => this.onmessage?.({ data: ack.slice().buffer }), 0);
+    }
     close() { }
     constructor() {
         // Delay onopen to simulate async connection
@@ -34,6 +41,7 @@ describe('useSignalQueue', () => {
             storage: new InMemoryAdapter(),
             initialSnapshot: new Uint8Array([0])
         });
+        await client.connect();
     });
 
     const wrapper = ({ children }: { children: React.ReactNode }) => (
@@ -147,6 +155,30 @@ describe('useSignalQueue', () => {
         expect(signal.status).toBe('pending');
     });
 
+    it('should reclaim a claimed signal whose lease has run out', async () => {
+        const { result, rerender } = renderHook(() => useSignalQueue('stale-queue'), { wrapper });
+
+        // A worker claimed it, then crashed without ever holding (or renewing) a live lease
+        await act(async () => {
+            client.set('signals.stale-queue.job-1', {
+                id: 'job-1', type: 'EXPORT', payload: {}, status: 'claimed',
+                createdAt: Date.now(), claimedBy: 'crashed-worker', claimedAt: Date.now(),
+            });
+        });
+
+        const handler = vi.fn().mockResolvedValue('exported');
+        await act(async () => {
+            await result.current.process('EXPORT', handler);
+        });
+
+        rerender();
+        const signal = result.current.signals['job-1'];
+        expect(handler).toHaveBeenCalledTimes(1);
+        expect(signal.status).toBe('completed');
+        expect(signal.claimedBy).toBe(client.getPeerId());
+        expect(Object.keys(result.current.signals)).toEqual(['job-1']);
+    });
+
     // -------------------------------------------------------------------------
     // 5. Concurrency Gating limits active handlers
     // -------------------------------------------------------------------------
@@ -0,0 +1,115 @@
+/**
+ * Authority Veto Tests
+ *
+ * Authority is the server-asserted `isAuthority` flag of an op, never derived from the peer id.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { SyncEngine } from '../src/engine';
+import { PolicyError } from '../src/policy';
+import { HLC } from '../src/hlc';
+import { InMemoryAdapter } from '../src/adapters/InMemoryAdapter';
+import { encodeValue } from '../src/protocol';
+
+describe('Authority veto', () => {
+    let storage: InMemoryAdapter;
+    let engine: SyncEngine;
+
+    const at = (offsetMs: number) => HLC.pack(BigInt(Date.now() + offsetMs), 0n, 0n);
+    const remote = (key: string, value: unknown, peerId: string, ts: bigint, authority = false) =>
+        engine.applyRemote(key, encodeValue(value), peerId, ts, [], authority);
+
+    beforeEach(() => {
+        storage = new InMemoryAdapter();
+        engine = new SyncEngine('local', storage, false, undefined, {
+            authority: { 'score.': 'override', 'chat.': 'none' },
+        });
+    });
+
+    it('gives no special rights to a peer id that looks like an authority', async () => {
+        await remote('board', 'mine', 'peer-a', at(0));
+        await remote('board', 'takeover', 'Ω_attacker', at(-1000));
+
+        expect(engine.get('board')).toBe('mine');
+    });
+
+    it('lets an older authority write win and locks the key by default', async () => {
+        await remote('board', 'peer', 'peer-a', at(0));
+        await remote('board', 'official', 'server', at(-1000), true);
+        expect(engine.get('board')).toBe('official');
+
+        await remote('board', 'late', 'peer-a', at(1000));
+        expect(engine.get('board')).toBe('official');
+    });
+
+    it('refuses local writes to a locked key', async () => {
+        await remote('board', 'official', 'server', at(0), true);
+        const error = vi.fn();
+        engine.on('error', error);
+
+        await expect(engine.set('board', 'mine')).rejects.toBeInstanceOf(PolicyError);
+
+        expect(engine.get('board')).toBe('official');
+        expect(error).toHaveBeenCalledWith(expect.objectContaining({ key: 'board', source: 'local' }));
+    });
+
+    it('orders authority writes among themselves by LWW', async () => {
+        await remote('board', 'second', 'server', at(0), true);
+        await remote('board', 'first', 'server', at(-1000), true);
+
+        expect(engine.get('board')).toBe('second');
+    });
+
+    it('lets newer writes replace an authority write under an override prefix', async () => {
+        await remote('score.alice', 10, 'peer-a', at(0));
+        await remote('score.alice', 5, 'server', at(-1000), true);
+        expect(engine.get('score.alice')).toBe(5);
+
+        await remote('score.alice', 6, 'peer-a', at(1000));
+        expect(engine.get('score.alice')).toBe(6);
+    });
+
+    it('treats authority writes as plain LWW under a none prefix', async () => {
+        await remote('chat.1', 'edited', 'peer-a', at(0));
+        await remote('chat.1', 'moderated', 'server', at(-1000), true);
+
+        expect(engine.get('chat.1')).toBe('edited');
+    });
+
+    it('keeps the lock across a reload', async () => {
+        await remote('board', 'official', 'server', at(0), true);
+        await engine.compact();
+        await remote('rules', 'strict', 'server', at(0), true);
+
+        const reloaded = new SyncEngine('local', storage);
+        await reloaded.loadFromStorage();
+        await reloaded.applyRemote('board', encodeValue('late'), 'peer-a', at(1000));
+        await reloaded.applyRemote('rules', encodeValue('lax'), 'peer-a', at(1000));
+
+        expect(reloaded.get('board')).toBe('official');
+        expect(reloaded.get('rules')).toBe('strict');
+    });
+
+    it('carries the flag of a remote transaction to each of its writes', async () => {
+        await engine.applyRemoteBatch([
+            { key: 'board', payload: encodeValue('official'), peerId: 'server', timestamp: at(0) },
+            { key: 'rules', payload: encodeValue('strict'), peerId: 'server', timestamp: at(0) },
+        ], [], true);
+
+        await remote('board', 'late', 'peer-a', at(1000));
+        await expect(engine.set('rules', 'lax')).rejects.toBeInstanceOf(PolicyError);
+
+        expect(engine.get('board')).toBe('official');
+        expect(engine.get('rules')).toBe('strict');
+    });
+
+    it('keeps the lock of the keys a server snapshot marks as authority writes', async () => {
+        await engine.loadSnapshot(encodeValue({ board: 'official', notes: 'draft' }), at(0), ['board']);
+
+        await remote('board', 'late', 'peer-a', at(1000));
+        await remote('notes', 'final', 'peer-a', at(1000));
+
+        expect(engine.get('board')).toBe('official');
+        expect(engine.get('notes')).toBe('final');
+    });
+});
@@ -0,0 +1,192 @@
+/**
+ * Awareness Tests
+ *
+ * Clients talk through an in-memory hub that, like the server, forwards Signal packets to every
+ * other connected peer and drops everything else.
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { NMeshedClient } from '../src/client';
+import { InMemoryAdapter } from '../src/adapters/InMemoryAdapter';
+import { MsgType, decodeMessage, encodeRelay } from '../src/protocol';
+import type { Transport } from '../src/types';
+
+class HubTransport implements Transport {
+    connected = false;
+    sent: Uint8Array[] = [];
+    private messageHandlers = new Set<(data: Uint8Array) => void>();
+    private openHandlers = new Set<() => void>();
+    private closeHandlers = new Set<() => void>();
+
+    constructor(private hub: Set<HubTransport>) { }
+
+    async connect() {
+        this.connected = true;
+        this.hub.add(this);
+        this.openHandlers.forEach(h => h());
+    }
+    disconnect() {
+        this.connected = false;
+        this.hub.delete(this);
+        this.closeHandlers.forEach(h => h());
+    }
+    async reconnect() {
+        this.disconnect();
+        await this.connect();
+    }
+    send(data: Uint8Array) {
+        this.sent.push(data);
+        if (decodeMessage(data)?.type !== MsgType.Signal) return;
+        this.hub.forEach(peer => { if (peer !== this) peer.deliver(data); });
+    }
+    deliver(data: Uint8Array) {
+        this.messageHandlers.forEach(h => h(data));
+    }
+    onMessage(handler: (data: Uint8Array) => void) {
+        this.messageHandlers.add(handler);
+        return () => this.messageHandlers.delete(handler);
+    }
+    onOpen(handler: () => void) {
+        this.openHandlers.add(handler);
+        return () => this.openHandlers.delete(handler);
+    }
+    onClose(handler: () => void) {
+        this.closeHandlers.add(handler);
+        return () => this.closeHandlers.delete(handler);
+    }
+    isConnected() {
+        return this.connected;
+    }
+}
+
+describe('Awareness', () => {
+    const hub = new Set<HubTransport>();
+    const clients: NMeshedClient[] = [];
+
+    const connectClient = async (userId: string, storage = new InMemoryAdapter()) => {
+        const transport = new HubTransport(hub);
+        const client = new NMeshedClient({ workspaceId: 'test', token: 'token', userId, connectJitter: 0, transport, storage });
+        clients.push(client);
+        await vi.waitFor(() => expect(transport.isConnected()).toBe(true));
+        return { client, transport, storage };
+    };
+
+    afterEach(() => {
+        vi.useRealTimers();
+        clients.splice(0).forEach(client => client.disconnect());
+        hub.clear();
+    });
+
+    it('broadcasts state to the other peers', async () => {
+        const { client: alice } = await connectClient('alice');
+        const { client: bob } = await connectClient('bob');
+        const listener = vi.fn();
+        bob.awareness.subscribe(listener);
+
+        alice.awareness.set({ cursor: 3 });
+
+        expect(bob.awareness.getStates()).toEqual({ alice: { cursor: 3 } });
+        expect(listener).toHaveBeenCalledWith('alice', { cursor: 3 });
+    });
+
+    it('catches a newly connected peer up on existing states', async () => {
+        const { client: alice } = await connectClient('alice');
+        alice.awareness.set({ typing: true });
+
+        const { client: bob } = await connectClient('bob');
+        const listener = vi.fn();
+        bob.awareness.subscribe(listener);
+
+        expect(bob.awareness.getStates()).toEqual({ alice: { typing: true } });
+        expect(listener).toHaveBeenCalledWith('alice', { typing: true });
+    });
+
+    it('sends nothing for clients that never use it', async () => {
+        const { transport } = await connectClient('alice');
+        const { client: bob } = await connectClient('bob');
+        bob.awareness.set({ cursor: 1 });
+
+        expect(transport.sent.some(data => decodeMessage(data)?.type === MsgType.Signal)).toBe(false);
+    });
+
+    it('is never persisted or queued', async () => {
+        const { client: alice, transport, storage } = await connectClient('alice');
+        transport.disconnect();
+
+        alice.awareness.set({ cursor: 1 });
+        alice.awareness.set({ cursor: 2 });
+
+        // Only engine bookkeeping (its replica id) is in storage
+        expect((await storage.scanPrefix('')).map(([key]) => key)).toEqual(['meta::replicaId']);
+        expect(alice.get('cursor')).toBeUndefined();
+
+        // Only the latest state goes out on reconnect
+        transport.sent = [];
+        await transport.connect();
+        const relays = transport.sent.map(data => decodeMessage(data)!).filter(msg => msg.type === MsgType.Signal);
+        expect(relays).toHaveLength(1);
+    });
+
+    it('clears a peer state when it disconnects', async () => {
+        const { client: alice } = await connectClient('alice');
+        const { client: bob } = await connectClient('bob');
+        alice.awareness.set({ cursor: 3 });
+
+        const listener = vi.fn();
+        bob.awareness.subscribe(listener);
+        alice.disconnect();
+
+        expect(bob.awareness.getStates()).toEqual({});
+        expect(listener).toHaveBeenLastCalledWith('alice', null);
+    });
+
+    it('clears a peer state when the server reports its socket dropped', async () => {
+        const { client: alice, transport } = await connectClient('alice');
+        const { client: bob } = await connectClient('bob');
+        bob.awareness.set({ cursor: 3 });
+        expect(alice.awareness.getStates()).toEqual({ bob: { cursor: 3 } });
+
+        transport.deliver(encodeRelay('bob', new Uint8Array()));
+
+        expect(alice.awareness.getStates()).toEqual({});
+    });
+
+    it('forgets remote states when its own connection closes', async () => {
+        const { client: alice, transport } = await connectClient('alice');
+        const { client: bob } = await connectClient('bob');
+        bob.awareness.set({ cursor: 3 });
+
+        transport.disconnect();
+
+        expect(alice.awareness.getStates()).toEqual({});
+    });
+
+    it('renews presence with heartbeats without notifying again', async () => {
+        const { client: alice } = await connectClient('alice');
+        const { client: bob } = await connectClient('bob');
+        vi.useFakeTimers();
+        const listener = vi.fn();
+        bob.awareness.subscribe(listener);
+        alice.awareness.set({ cursor: 3 });
+
+        await vi.advanceTimersByTimeAsync(120_000);
+
+        expect(bob.awareness.getStates()).toEqual({ alice: { cursor: 3 } });
+        expect(listener).toHaveBeenCalledTimes(1);
+    });
+
+    it('drops a peer that stops sending heartbeats', async () => {
+        const { client: alice, transport } = await connectClient('alice');
+        const { client: bob } = await connectClient('bob');
+        vi.useFakeTimers();
+        bob.awareness.subscribe(() => { });
+        alice.awareness.set({ cursor: 3 });
+
+        // A crashed tab: no leave message, and the server has not noticed yet
+        hub.delete(transport);
+        transport.connected = false;
+        await vi.advanceTimersByTimeAsync(60_000);
+
+        expect(bob.awareness.getStates()).toEqual({});
+    });
+});
@@ -0,0 +1,178 @@
+/**
+ * Branch (draft mode) Tests
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { z } from 'zod';
+import { PolicyError } from '../src/policy';
+import { SchemaError } from '../src/schemas';
+import { decodeMessage, encodeOp, MsgType } from '../src/protocol';
+import { HLC } from '../src/hlc';
+import { createTestClient, createTestTransport, tick, type TestTransport } from './test-utils';
+import type { NMeshedConfig } from '../src/types';
+
+describe('Branch', () => {
+    let transport: TestTransport;
+
+    const createClient = (config: Partial<NMeshedConfig> = {}) => createTestClient(config, transport);
+
+    beforeEach(() => {
+        transport = createTestTransport();
+    });
+
+    it('keeps writes off the main state and overlays them on reads', async () => {
+        const client = createClient();
+        client.set('plans.free', 0);
+        client.set('plans.pro', 20);
+        await tick();
+        transport.sent.length = 0;
+
+        const draft = client.fork('pricing');
+        draft.set('plans.pro', 24);
+        draft.delete('plans.free');
+
+        expect(draft.get('plans.pro')).toBe(24);
+        expect(draft.get('plans.free')).toBeUndefined();
+        expect(draft.getByPrefix('plans.')).toEqual({ 'plans.pro': 24, 'plans.free': null });
+        expect(client.get('plans.pro')).toBe(20);
+        expect(client.get('plans.free')).toBe(0);
+        expect(transport.sent).toHaveLength(0);
+    });
+
+    it('sees remote changes to keys it has not written', async () => {
+        const client = createClient();
+        const draft = client.fork('pricing');
+        draft.set('plans.pro', 24);
+
+        transport.deliver(encodeOp('plans.team', new Uint8Array([0x32]), HLC.pack(BigInt(Date.now()), 0n, 0n), false, 'peer-b'));
+        await tick();
+
+        expect(draft.getByPrefix('plans.')).toEqual({ 'plans.pro': 24, 'plans.team': 50 });
+    });
+
+    it('publishes every write as one transaction on merge', async () => {
+        const client = createClient();
+        client.set('plans.free', 0);
+        await tick();
+        transport.sent.length = 0;
+
+        const draft = client.fork('pricing');
+        draft.set('plans.pro', 24);
+        draft.set('plans.team', 50);
+        draft.delete('plans.free');
+        await draft.merge();
+
+        expect(client.getByPrefix('plans.')).toEqual({ 'plans.pro': 24, 'plans.team': 50, 'plans.free': null });
+        expect(transport.sent).toHaveLength(1);
+        expect(decodeMessage(transport.sent[0])?.type).toBe(MsgType.ColumnarBatch);
+        expect(draft.getChanges()).toEqual({});
+    });
+
+    it('wins over main-state writes made after the fork', async () => {
+        const client = createClient();
+        const draft = client.fork('pricing');
+        draft.set('plans.pro', 24);
+        client.set('plans.pro', 30);
+        await tick();
+
+        await draft.merge();
+
+        expect(client.get('plans.pro')).toBe(24);
+    });
+
+    it('drops its writes on discard', async () => {
+        const client = createClient();
+        client.set('plans.pro', 20);
+        const draft = client.fork('pricing');
+        draft.set('plans.pro', 24);
+
+        draft.discard();
+
+        expect(draft.get('plans.pro')).toBe(20);
+        expect(draft.getChanges()).toEqual({});
+    });
+
+    it('closes on discard, telling subscribers the live value is back', () => {
+        const client = createClient();
+        client.set('plans.pro', 20);
+        const draft = client.fork('pricing');
+        draft.set('plans.pro', 24);
+        const seen: [string, unknown][] = [];
+        draft.subscribePrefix('plans.', (key, value) => seen.push([key, value]));
+
+        draft.discard();
+
+        expect(seen).toEqual([['plans.pro', 20]]);
+        expect(client.fork('pricing')).not.toBe(draft);
+    });
+
+    it('refuses writes and merges once discarded', async () => {
+        const client = createClient();
+        const draft = client.fork('pricing');
+        draft.discard();
+
+        expect(() => draft.set('plans.pro', 24)).toThrow(/discarded/);
+        expect(() => draft.delete('plans.pro')).toThrow(/discarded/);
+        await expect(draft.merge()).rejects.toThrow(/discarded/);
+        expect(client.get('plans.pro')).toBeUndefined();
+    });
+
+    it('notifies subscribers of its writes and of remote changes it does not hide', async () => {
+        const client = createClient();
+        const draft = client.fork('pricing');
+        const seen: [string, unknown][] = [];
+        draft.subscribePrefix('plans.', (key, value) => seen.push([key, value]));
+        const onPro = vi.fn();
+        draft.subscribe('plans.pro', onPro);
+
+        draft.set('plans.pro', 24);
+        const now = HLC.pack(BigInt(Date.now()), 0n, 0n);
+        transport.deliver(encodeOp('plans.team', new Uint8Array([0x32]), now, false, 'peer-b'));
+        await tick();
+        // Hidden by the branch write
+        transport.deliver(encodeOp('plans.pro', new Uint8Array([0x1e]), now, false, 'peer-b'));
+        await tick();
+
+        expect(seen).toEqual([['plans.pro', 24], ['plans.team', 50]]);
+        expect(onPro).toHaveBeenCalledTimes(1);
+        expect(client.get('plans.pro')).toBe(30);
+    });
+
+    it('hands out copies, so its values only change through set', () => {
+        const client = createClient();
+        const draft = client.fork('pricing');
+        const plan = { price: 24 };
+
+        draft.set('plans.pro', plan);
+        plan.price = 1;
+        draft.get<{ price: number }>('plans.pro')!.price = 2;
+        (draft.getByPrefix('plans.')['plans.pro'] as { price: number }).price = 3;
+
+        expect(draft.get('plans.pro')).toEqual({ price: 24 });
+    });
+
+    it('returns the open branch for the same name', () => {
+        const client = createClient();
+
+        expect(client.fork('pricing')).toBe(client.fork('pricing'));
+        expect(client.fork('pricing')).not.toBe(client.fork('copy'));
+    });
+
+    it('checks writes against registered schemas', () => {
+        const client = createClient({ schemas: { 'plans.pro': z.number() } });
+
+        expect(() => client.fork('pricing').set('plans.pro', 'cheap')).toThrow(SchemaError);
+    });
+
+    it('keeps its writes when the merge is refused', async () => {
+        const client = createClient({ policies: { 'plans.': { write: ['admin'] } }, roles: ['viewer'] });
+        client.on('error', () => { });
+        const draft = client.fork('pricing');
+        draft.set('plans.pro', 24);
+
+        await expect(draft.merge()).rejects.toThrow(PolicyError);
+
+        expect(draft.getChanges()).toEqual({ 'plans.pro': 24 });
+        expect(client.get('plans.pro')).toBeUndefined();
+    });
+});
@@ -0,0 +1,179 @@
+/**
+ * Server-Acknowledged CAS Tests
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { NMeshedClient } from '../src/client';
+import { SyncEngine } from '../src/engine';
+import { HLC } from '../src/hlc';
+import { InMemoryAdapter } from '../src/adapters/InMemoryAdapter';
+import { encodeAck, encodeNack, encodeValue, decodeMessage, MsgType } from '../src/protocol';
+import { createTestClient, createTestTransport, type TestTransport } from './test-utils';
+
+describe('Engine CAS verdicts', () => {
+    let engine: SyncEngine;
+    let sent: Uint8Array[];
+
+    beforeEach(() => {
+        engine = new SyncEngine('peer-a', new InMemoryAdapter());
+        engine.on('error', () => { });
+        sent = [];
+        engine.on('cas', wire => sent.push(wire));
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    const requestTimestamp = () => decodeMessage(sent.at(-1)!)!.timestamp!;
+
+    it('waits for a verdict even without a timeout, giving up after the default', async () => {
+        vi.useFakeTimers();
+        let settled = false;
+        const result = engine.cas('job', null, 'claimed').then(won => { settled = true; return won; });
+
+        await vi.advanceTimersByTimeAsync(4999);
+        expect(settled).toBe(false);
+        await vi.advanceTimersByTimeAsync(1);
+
+        expect(await result).toBe(false);
+    });
+
+    it('correlates the request with its Ack through the HLC timestamp', async () => {
+        const result = engine.cas('job', null, 'claimed', { timeout: 1000 });
+        await Promise.resolve();
+
+        const timestamp = requestTimestamp();
+        expect(decodeMessage(sent[0])).toMatchObject({ type: MsgType.CompareAndSwap, key: 'job', actorId: 'peer-a' });
+        engine.confirm('job', timestamp);
+
+        expect(await result).toBe(true);
+        expect(engine.get('job')).toBe('claimed');
+        expect(engine.getPendingCount()).toBe(0);
+    });
+
+    it('reverts on a Nack and applies the value the server holds', async () => {
+        const rollback = vi.fn();
+        engine.on('rollback', rollback);
+        const result = engine.cas('job', null, 'claimed', { timeout: 1000 });
+        await Promise.resolve();
+        expect(engine.get('job')).toBe('claimed');
+
+        const winner = HLC.pack(BigInt(Date.now() - 1000), 0n, 0n);
+        await engine.refuse('job', requestTimestamp(), { payload: encodeValue('taken'), timestamp: winner, peerId: 'peer-b' });
+
+        expect(await result).toBe(false);
+        expect(engine.get('job')).toBe('taken');
+        expect(rollback).toHaveBeenCalledWith(expect.objectContaining({ key: 'job', from: 'claimed', to: null }));
+    });
+
+    it('is not settled by a Sync ack covering it, and reverts on the Nack that follows', async () => {
+        let settled = false;
+        const result = engine.cas('job', null, 'claimed', { timeout: 1000 }).then(won => { settled = true; return won; });
+        await Promise.resolve();
+        const timestamp = requestTimestamp();
+
+        engine.acknowledge(timestamp >> 64n);
+        await Promise.resolve();
+        expect(settled).toBe(false);
+        expect(engine.getPendingCount()).toBe(1);
+
+        await engine.refuse('job', timestamp);
+
+        expect(await result).toBe(false);
+        expect(engine.get('job')).toBeNull();
+        expect(engine.getPendingCount()).toBe(0);
+    });
+
+    it('resolves to false when the server rejects it by policy', async () => {
+        const result = engine.cas('job', null, 'claimed', { timeout: 1000 });
+        await Promise.resolve();
+
+        engine.reject('job', requestTimestamp());
+
+        expect(await result).toBe(false);
+        expect(engine.get('job')).toBeNull();
+    });
+
+    it('resolves to false without a verdict in time, but keeps the write speculative', async () => {
+        vi.useFakeTimers();
+        await engine.set('job', 'open');
+        const result = engine.cas('job', 'open', 'claimed', { timeout: 1000 });
+        await vi.advanceTimersByTimeAsync(0);
+        const timestamp = requestTimestamp();
+
+        await vi.advanceTimersByTimeAsync(1000);
+
+        expect(await result).toBe(false);
+        expect(engine.get('job')).toBe('claimed');
+        expect(engine.getPendingCount()).toBe(2);
+
+        // A late rejection still rolls it back
+        engine.reject('job', timestamp);
+        expect(engine.get('job')).toBe('open');
+    });
+
+    it('keeps the request out of the deps of later ops', async () => {
+        const outbound = vi.fn();
+        engine.on('outbound', outbound);
+        await engine.set('title', 'draft');
+        const [set] = outbound.mock.calls[0][0];
+
+        void engine.cas('job', null, 'claimed', { timeout: 1000 });
+        await Promise.resolve();
+        await engine.set('title', 'final');
+
+        expect(outbound.mock.calls[1][0][0].deps).toEqual([`title:${set.timestamp}:peer-a`]);
+    });
+});
+
+describe('Client CAS', () => {
+    let transport: TestTransport;
+    let client: NMeshedClient;
+
+    beforeEach(() => {
+        transport = createTestTransport();
+        client = createTestClient({ casTimeout: 1000 }, transport);
+    });
+
+    afterEach(() => {
+        client.disconnect();
+    });
+
+    const casRequest = async () => {
+        await vi.waitFor(() => expect(transport.sent.some(p => decodeMessage(p)?.type === MsgType.CompareAndSwap)).toBe(true));
+        return decodeMessage(transport.sent.find(p => decodeMessage(p)?.type === MsgType.CompareAndSwap)!)!;
+    };
+
+    it('resolves only once the server acknowledges the request', async () => {
+        let settled = false;
+        const result = client.cas('job', null, 'claimed').then(won => { settled = true; return won; });
+        const request = await casRequest();
+        expect(settled).toBe(false);
+
+        transport.deliver(encodeAck('job', request.timestamp!, 'peer-a'));
+
+        expect(await result).toBe(true);
+    });
+
+    it('applies the authoritative value from a Nack', async () => {
+        const result = client.cas('job', null, 'claimed');
+        const request = await casRequest();
+
+        const packet = encodeNack('job', request.timestamp!, 'peer-a', {
+            payload: encodeValue('taken'), timestamp: HLC.pack(BigInt(Date.now() - 1000), 0n, 0n), actorId: 'peer-b',
+        });
+        expect(decodeMessage(packet)).toMatchObject({ type: MsgType.Nack, current: { actorId: 'peer-b' } });
+        transport.deliver(packet);
+
+        expect(await result).toBe(false);
+        await vi.waitFor(() => expect(client.get('job')).toBe('taken'));
+    });
+
+    it('fails offline without touching local state', async () => {
+        transport.connected = false;
+
+        expect(await client.cas('job', null, 'claimed')).toBe(false);
+        expect(client.get('job')).toBeUndefined();
+    });
+});
@@ -1,5 +1,5 @@
 import { SyncEngine } from '../src/engine';
-import { IStorage } from '../src/types';
+import { IStorage, Operation } from '../src/types';
 import { HLC } from '../src/hlc';
 import { encodeValue } from '../src/protocol';
 
@@ -99,4 +99,90 @@ describe('Causal Barrier Verification', () => {
         // B should be unbuffered and applied
         expect(engine.get(keyB)).toBeDefined();
     });
+
+    describe('Causal frontier', () => {
+        const capture = (e: SyncEngine) => {
+            const sent: Operation[] = [];
+            e.on('outbound', ops => sent.push(...ops));
+            return sent;
+        };
+        const hashOf = (op: Operation) => `${op.key}:${op.timestamp.toString()}:${op.peerId}`;
+        const deliver = (ops: Operation[], to: SyncEngine) =>
+            Promise.all(ops.map(op => to.applyRemote(op.key, encodeValue(op.value), op.peerId, op.timestamp, op.deps)));
+
+        test('each local op depends on the previous frontier', async () => {
+            const sent = capture(engine);
+            await engine.set('a', 1);
+            await engine.set('b', 2);
+
+            expect(sent[0].deps).toEqual([]);
+            expect(sent[1].deps).toEqual([hashOf(sent[0])]);
+        });
+
+        test('concurrent ops form a frontier that the next op merges', async () => {
+            const sent = capture(engine);
+            await engine.set('local', 1);
+
+            const remoteTs = HLC.pack(BigInt(Date.now()), 0n, 7n);
+            await engine.applyRemote('remote', encodeValue(2), 'NODE_B', remoteTs, []);
+            await engine.set('merge', 3);
+
+            expect(sent[1].deps).toEqual([hashOf(sent[0]), `remote:${remoteTs}:NODE_B`]);
+        });
+
+        test('a peer buffers ops that arrive before their parents', async () => {
+            const sent = capture(engine);
+            const peer = new SyncEngine('NODE_B', new MockStorage(), false);
+            await engine.set('parent', 'p');
+            await engine.set('child', 'c');
+
+            await deliver([sent[1]], peer);
+            expect(peer.get('child')).toBeUndefined();
+
+            await deliver([sent[0]], peer);
+            expect(peer.get('parent')).toBe('p');
+            expect(peer.get('child')).toBe('c');
+            expect((peer as any).isGapDetected).toBe(false);
+        });
+
+        test('ops covered by a loaded snapshot count as delivered', async () => {
+            const snapshotTs = HLC.pack(BigInt(Date.now()), 0n, 0n);
+            await engine.loadSnapshot(encodeValue({ parent: 'p' }), snapshotTs);
+
+            const ts = snapshotTs + (1n << 80n);
+            await engine.applyRemote('child', encodeValue('c'), 'NODE_B', ts, [`parent:${snapshotTs - 1n}:NODE_C`]);
+
+            expect(engine.get('child')).toBe('c');
+        });
+
+        test('tracks a per-peer version vector', async () => {
+            const ts = HLC.pack(BigInt(Date.now()) + 1000n, 0n, 1n);
+            await engine.applyRemote('k', encodeValue(1), 'NODE_B', ts, []);
+
+            expect(engine.getVersionVector()).toEqual({ NODE_B: ts >> 64n });
+            expect(engine.isBehind({ NODE_B: ts >> 64n })).toBe(false);
+            expect(engine.isBehind({ NODE_B: (ts >> 64n) + 1n })).toBe(true);
+        });
+
+        test('acknowledged ops leave the offline queue', async () => {
+            const sent = capture(engine);
+            await engine.set('a', 1);
+            await engine.set('b', 2);
+
+            engine.acknowledge(sent[0].timestamp >> 64n);
+            expect(engine.getPendingCount()).toBe(1);
+        });
+
+        test('remembers a bounded number of op hashes', async () => {
+            const received: Set<string> = (engine as any).receivedOps;
+            for (let i = 1; i <= 10_010; i++) (engine as any).recordOp('k', BigInt(i), 'NODE_B');
+
+            expect(received.size).toBe(10_000);
+            expect(received.has('k:1:NODE_B')).toBe(false);
+
+            // A forgotten op is older than everything still tracked, so it is not a gap
+            await engine.applyRemote('late', encodeValue(1), 'NODE_B', HLC.pack(BigInt(Date.now()), 0n, 1n), ['k:1:NODE_B']);
+            expect(engine.get('late')).toBe(1);
+        });
+    });
 });
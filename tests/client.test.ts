@@ -8,7 +8,8 @@ import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { z } from 'zod';
 import { encode } from '@msgpack/msgpack';
 import { NMeshedClient } from '../src/client';
-import { MsgType, encodeOp, encodeInit, encodePong, decodeMessage, encodeValue } from '../src/protocol';
+import { MsgType, encodeOp, encodeInit, encodePong, decodeMessage, encodeValue, encodeBatch, encodeSyncPacket } from '../src/protocol';
+import { HLC } from '../src/hlc';
 import { InMemoryAdapter } from '../src/adapters/InMemoryAdapter';
 import type { Transport } from '../src/types';
 
@@ -181,6 +182,141 @@ describe('NMeshedClient (Refactored)', () => {
         expect(client.get('remote-key')).toBe('remote-val');
     });
 
+    it('should send a transaction as a single ColumnarBatch packet', async () => {
+        client = new NMeshedClient(createConfig());
+        await waitFor(() => transport.connected);
+        transport.simulateMessage(encodeInit(encode({})));
+        await waitFor(() => client.getStatus() === 'ready');
+
+        const opSpy = vi.fn();
+        const txSpy = vi.fn();
+        client.on('op', opSpy);
+        client.on('transaction', txSpy);
+        transport.sent = [];
+
+        await client.transaction(tx => {
+            tx.set('columns.todo', []);
+            tx.set('columns.done', ['card-1']);
+            tx.delete('draft');
+        });
+        await waitFor(() => transport.sent.length > 0);
+
+        expect(transport.sent).toHaveLength(1);
+        const msg = decodeMessage(transport.sent[0]);
+        expect(msg?.type).toBe(MsgType.ColumnarBatch);
+        expect(msg!.ops!.map(op => op.key)).toEqual(['columns.todo', 'columns.done', 'draft']);
+
+        expect(opSpy).toHaveBeenCalledTimes(3);
+        expect(txSpy).toHaveBeenCalledTimes(1);
+        expect(client.get('columns.done')).toEqual(['card-1']);
+    });
+
+    it('should apply a remote ColumnarBatch before notifying listeners', async () => {
+        client = new NMeshedClient(createConfig());
+        await waitFor(() => transport.connected);
+        transport.simulateMessage(encodeInit(encode({})));
+        await waitFor(() => client.getStatus() === 'ready');
+
+        const seen: unknown[] = [];
+        client.on('op', () => seen.push([client.get('columns.todo'), client.get('columns.done')]));
+
+        const ts = new HLC('peer-b').now();
+        transport.simulateMessage(encodeBatch([
+            { key: 'columns.todo', payload: encodeValue([]), timestamp: ts },
+            { key: 'columns.done', payload: encodeValue(['card-1']), timestamp: ts },
+        ], 'peer-b'));
+        await waitFor(() => seen.length === 2);
+
+        // Every listener already sees the whole transaction
+        expect(seen).toEqual([[[], ['card-1']], [[], ['card-1']]]);
+    });
+
+    it('should dispatch ops to prefix subscribers only', async () => {
+        client = new NMeshedClient(createConfig());
+        const cursors: [string, unknown][] = [];
+        const everything: string[] = [];
+        const unsubscribe = client.subscribePrefix('cursors.', (key, value) => cursors.push([key, value]));
+        client.subscribePrefix('', key => everything.push(key));
+
+        client.set('cursors.a', 1);
+        client.set('board', 2);
+        client.delete('cursors.a');
+        unsubscribe();
+        client.set('cursors.b', 3);
+
+        expect(cursors).toEqual([['cursors.a', 1], ['cursors.a', null]]);
+        expect(everything).toEqual(['cursors.a', 'board', 'cursors.a', 'cursors.b']);
+        expect(client.getByPrefix('cursors.')).toEqual({ 'cursors.a': null, 'cursors.b': 3 });
+    });
+
+    describe('Delta resync', () => {
+        const sentTypes = () => transport.sent.map(packet => decodeMessage(packet)?.type);
+
+        const connectReady = async () => {
+            client = new NMeshedClient(createConfig());
+            await waitFor(() => transport.connected);
+            transport.simulateMessage(encodeInit(encode({})));
+            await waitFor(() => client.getStatus() === 'ready');
+        };
+
+        const reconnect = async () => {
+            transport.disconnect();
+            transport.sent = [];
+            await transport.connect();
+            await waitFor(() => transport.sent.length > 0);
+        };
+
+        it('should send its frontier instead of asking for a snapshot on reconnect', async () => {
+            await connectReady();
+            client.set('draft', 'hello');
+            await waitFor(() => transport.sent.length > 1);
+            const sentOp = decodeMessage(transport.sent[transport.sent.length - 1])!;
+
+            await reconnect();
+
+            const request = decodeMessage(transport.sent[0]);
+            expect(sentTypes()).toEqual([MsgType.SyncRequest]);
+            expect(request?.localHeads).toEqual([`draft:${sentOp.timestamp}:${client.getPeerId()}`]);
+
+            // The server already stored the op, so it is not sent again
+            transport.simulateMessage(encodeSyncPacket({ stateVector: {}, ackSeq: sentOp.timestamp! >> 64n }));
+            await waitFor(() => client.getStatus() === 'ready');
+            expect(sentTypes()).toEqual([MsgType.SyncRequest]);
+        });
+
+        it('should fall back to a snapshot when the delta leaves it behind', async () => {
+            await connectReady();
+            client.set('draft', 'hello');
+            await reconnect();
+
+            const ahead = HLC.pack(BigInt(Date.now() + 60_000), 0n, 0n) >> 64n;
+            transport.simulateMessage(encodeSyncPacket({ stateVector: { 'peer-b': ahead } }));
+            await waitFor(() => sentTypes().includes(MsgType.Init));
+
+            expect(client.getStatus()).toBe('syncing');
+        });
+
+        it('should request the missing ops when a remote op arrives before its dependencies', async () => {
+            await connectReady();
+            client.set('draft', 'hello');
+            await waitFor(() => transport.sent.length > 1);
+            transport.sent = [];
+
+            const parentTs = HLC.pack(BigInt(Date.now() + 1000), 0n, 0n);
+            const parentHash = `parent:${parentTs}:peer-b`;
+            transport.simulateMessage(encodeOp('child', encodeValue('c'), parentTs + 1n, false, 'peer-b', [parentHash]));
+            await waitFor(() => transport.sent.length > 0);
+
+            expect(sentTypes()).toEqual([MsgType.SyncRequest]);
+            expect(client.get('child')).toBeUndefined();
+
+            // The server replays the missing parent, which unblocks the child
+            transport.simulateMessage(encodeOp('parent', encodeValue('p'), parentTs, false, 'peer-b'));
+            await waitFor(() => client.get('child') === 'c');
+            expect(client.get('parent')).toBe('p');
+        });
+    });
+
     it('should send pings periodically', async () => {
         vi.useFakeTimers(); // Control time for this test
         transport = new TestTransport();
@@ -0,0 +1,112 @@
+/**
+ * PN-Counter Tests
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { SyncEngine } from '../../src/engine';
+import { InMemoryAdapter } from '../../src/adapters/InMemoryAdapter';
+import { encodeValue } from '../../src/protocol';
+import type { Operation } from '../../src/types';
+
+function capture(engine: SyncEngine): Operation[] {
+    const sent: Operation[] = [];
+    engine.on('outbound', (ops) => sent.push(...ops));
+    return sent;
+}
+
+async function deliver(ops: Operation[], to: SyncEngine) {
+    for (const op of ops) {
+        await to.applyRemote(op.key, encodeValue(op.value), op.peerId, op.timestamp);
+    }
+}
+
+describe('SyncEngine counters', () => {
+    let alice: SyncEngine;
+    let bob: SyncEngine;
+    let aliceOut: Operation[];
+    let bobOut: Operation[];
+
+    beforeEach(() => {
+        alice = new SyncEngine('alice', new InMemoryAdapter());
+        bob = new SyncEngine('bob', new InMemoryAdapter());
+        aliceOut = capture(alice);
+        bobOut = capture(bob);
+    });
+
+    it('should count increments and decrements', async () => {
+        await alice.increment('likes');
+        await alice.increment('likes', 5);
+        await alice.increment('likes', -2);
+        expect(alice.get('likes')).toBe(4);
+    });
+
+    it('should not lose concurrent increments', async () => {
+        await alice.increment('likes');
+        await bob.increment('likes');
+        await bob.increment('likes', -3);
+
+        await deliver(bobOut.splice(0), alice);
+        await deliver(aliceOut.splice(0), bob);
+
+        expect(alice.get('likes')).toBe(-1);
+        expect(bob.get('likes')).toBe(-1);
+    });
+
+    it('should count increments from two sessions of the same peer id', async () => {
+        const otherTab = new SyncEngine('alice', new InMemoryAdapter());
+        const otherOut = capture(otherTab);
+
+        await alice.increment('likes');
+        // Same peer id, so only the wall clock tells the two sessions' op ids apart
+        await new Promise(r => setTimeout(r, 2));
+        await otherTab.increment('likes', 2);
+
+        await deliver(otherOut.splice(0), alice);
+        await deliver(aliceOut.splice(0), otherTab);
+
+        expect(alice.get('likes')).toBe(3);
+        expect(otherTab.get('likes')).toBe(3);
+    });
+
+    it('should ignore re-delivered deltas', async () => {
+        await alice.increment('likes', 2);
+        const ops = aliceOut.splice(0);
+        await deliver(ops, bob);
+        await deliver(ops, bob);
+        expect(bob.get('likes')).toBe(2);
+    });
+
+    it('should persist per-peer totals through storage', async () => {
+        const storage = new InMemoryAdapter();
+        const writer = new SyncEngine('alice', storage);
+        await writer.increment('stock', 10);
+        await bob.increment('stock', -4);
+        await deliver(bobOut.splice(0), writer);
+        await new Promise(r => setTimeout(r, 0));
+
+        const reader = new SyncEngine('alice', storage);
+        await reader.loadFromStorage();
+        expect(reader.get('stock')).toBe(6);
+
+        // Continues from the restored per-peer totals
+        await reader.increment('stock');
+        expect(reader.get('stock')).toBe(7);
+    });
+
+    it('should keep counting in the same slot after a reload', async () => {
+        const storage = new InMemoryAdapter();
+        const before = new SyncEngine('alice', storage);
+        await before.loadFromStorage();
+        const beforeOut = capture(before);
+        await before.increment('likes');
+
+        const after = new SyncEngine('alice', storage);
+        await after.loadFromStorage();
+        const afterOut = capture(after);
+        await after.increment('likes');
+
+        const slots = (ops: Operation[]) => Object.keys((ops[0].value as any).delta.p);
+        expect(slots(afterOut)).toEqual(slots(beforeOut));
+        expect(slots(afterOut)[0]).toMatch(/^alice:/);
+    });
+});
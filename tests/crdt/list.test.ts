@@ -0,0 +1,177 @@
+/**
+ * Replicated List (RGA) Tests
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { SyncEngine } from '../../src/engine';
+import { InMemoryAdapter } from '../../src/adapters/InMemoryAdapter';
+import { encodeValue, decodeValue } from '../../src/protocol';
+import { decodeRecord, decodeLogEntry } from '../../src/utils/record';
+import { RGA, makeElementId } from '../../src/crdt';
+import type { Operation } from '../../src/types';
+
+/** Captures outbound ops so they can be delivered to another engine in any order. */
+function capture(engine: SyncEngine): Operation[] {
+    const sent: Operation[] = [];
+    engine.on('outbound', (ops) => sent.push(...ops));
+    return sent;
+}
+
+async function deliver(ops: Operation[], to: SyncEngine) {
+    for (const op of ops) {
+        await to.applyRemote(op.key, encodeValue(op.value), op.peerId, op.timestamp);
+    }
+}
+
+describe('RGA', () => {
+    it('should order concurrent inserts at the same origin by id', () => {
+        let a = 0n;
+        const rga = new RGA<string>();
+        rga.insertAt(0, ['x'], () => makeElementId(++a, 'A'));
+
+        const left = new RGA<string>();
+        const right = new RGA<string>();
+        left.merge(rga.state());
+        right.merge(rga.state());
+
+        const fromB = left.insertAt(1, ['b'], () => makeElementId(10n, 'B'));
+        const fromC = right.insertAt(1, ['c'], () => makeElementId(10n, 'C'));
+
+        left.merge(fromC);
+        right.merge(fromB);
+
+        expect(left.values()).toEqual(right.values());
+        expect(left.values()).toEqual(['x', 'c', 'b']);
+    });
+
+    it('should hold inserts until their origin arrives', () => {
+        const source = new RGA<string>();
+        let ts = 0n;
+        const first = source.insertAt(0, ['a'], () => makeElementId(++ts, 'A'));
+        const second = source.insertAt(1, ['b'], () => makeElementId(++ts, 'A'));
+
+        const target = new RGA<string>();
+        target.merge(second);
+        expect(target.values()).toEqual([]);
+
+        target.merge(first);
+        expect(target.values()).toEqual(['a', 'b']);
+    });
+
+    it('should apply deletes that arrive before the insert', () => {
+        const source = new RGA<string>();
+        const ins = source.insertAt(0, ['a'], () => makeElementId(1n, 'A'));
+        const del = source.deleteAt(0);
+
+        const target = new RGA<string>();
+        target.merge(del);
+        target.merge(ins);
+        expect(target.values()).toEqual([]);
+    });
+});
+
+describe('SyncEngine lists', () => {
+    let alice: SyncEngine;
+    let bob: SyncEngine;
+    let aliceOut: Operation[];
+    let bobOut: Operation[];
+
+    beforeEach(() => {
+        alice = new SyncEngine('alice', new InMemoryAdapter());
+        bob = new SyncEngine('bob', new InMemoryAdapter());
+        aliceOut = capture(alice);
+        bobOut = capture(bob);
+    });
+
+    it('should expose the list as a plain array through get', async () => {
+        await alice.listInsert('todo', 0, 'milk');
+        await alice.listInsert('todo', 1, 'eggs');
+        await alice.listInsert('todo', 0, 'bread');
+
+        expect(alice.get('todo')).toEqual(['bread', 'milk', 'eggs']);
+        expect(alice.getListItems('todo').map(i => i.value)).toEqual(['bread', 'milk', 'eggs']);
+    });
+
+    it('should send deltas, not the whole list', async () => {
+        await alice.listInsert('todo', 0, 'milk');
+        await alice.listInsert('todo', 1, 'eggs');
+
+        const last = aliceOut[aliceOut.length - 1].value as any;
+        expect(last.__crdt).toBe('list');
+        expect(last.delta.ins).toHaveLength(1);
+    });
+
+    it('should converge when both peers insert at the same position', async () => {
+        await alice.listInsert('todo', 0, 'base');
+        await deliver(aliceOut.splice(0), bob);
+
+        await alice.listInsert('todo', 1, 'from-alice');
+        await bob.listInsert('todo', 1, 'from-bob');
+
+        await deliver(bobOut.splice(0), alice);
+        await deliver(aliceOut.splice(0), bob);
+
+        expect(alice.get('todo')).toEqual(bob.get('todo'));
+        expect(alice.get<string[]>('todo')).toHaveLength(3);
+    });
+
+    it('should converge on concurrent moves of the same item', async () => {
+        for (const item of ['a', 'b', 'c']) {
+            await alice.listInsert('todo', 3, item);
+        }
+        await deliver(aliceOut.splice(0), bob);
+
+        await alice.listMove('todo', 0, 2);
+        await bob.listMove('todo', 0, 1);
+
+        await deliver(bobOut.splice(0), alice);
+        await deliver(aliceOut.splice(0), bob);
+
+        expect(alice.get('todo')).toEqual(bob.get('todo'));
+        expect(alice.get<string[]>('todo')!.slice().sort()).toEqual(['a', 'b', 'c']);
+    });
+
+    it('should remove items by id and keep ids stable across moves', async () => {
+        const a = await alice.listInsert('todo', 0, 'a');
+        const b = await alice.listInsert('todo', 1, 'b');
+
+        await alice.listMove('todo', 0, 1);
+        expect(alice.getListItems('todo').map(i => i.id)).toEqual([b, a]);
+
+        await alice.listRemove('todo', a);
+        expect(alice.get('todo')).toEqual(['b']);
+    });
+
+    it('should restore list state from storage', async () => {
+        const storage = new InMemoryAdapter();
+        const writer = new SyncEngine('alice', storage);
+        await writer.listInsert('todo', 0, 'a');
+        await writer.listInsert('todo', 1, 'b');
+        await new Promise(r => setTimeout(r, 0));
+
+        const reader = new SyncEngine('alice', storage);
+        await reader.loadFromStorage();
+
+        expect(reader.get('todo')).toEqual(['a', 'b']);
+        await reader.listInsert('todo', 2, 'c');
+        expect(reader.get('todo')).toEqual(['a', 'b', 'c']);
+    });
+
+    it('should log each edit as a delta and rebuild the list on reload', async () => {
+        const storage = new InMemoryAdapter();
+        const writer = new SyncEngine('alice', storage);
+        await writer.listInsert('todo', 0, 'a');
+        await writer.compact();
+        await writer.listInsert('todo', 1, 'b');
+        await writer.listMove('todo', 1, 0);
+        await new Promise(r => setTimeout(r, 0));
+
+        const log = await storage.scanPrefix('log::');
+        const last = decodeValue<any>(decodeRecord(decodeLogEntry(log[log.length - 1][1]).record)!.payload);
+        expect(last.delta.ins).toHaveLength(1);
+
+        const reader = new SyncEngine('alice', storage);
+        await reader.loadFromStorage();
+        expect(reader.get('todo')).toEqual(['b', 'a']);
+    });
+});
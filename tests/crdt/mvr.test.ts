@@ -0,0 +1,110 @@
+/**
+ * Multi-Value Register Tests
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { SyncEngine } from '../../src/engine';
+import { InMemoryAdapter } from '../../src/adapters/InMemoryAdapter';
+import { encodeValue } from '../../src/protocol';
+import type { Operation } from '../../src/types';
+
+function capture(engine: SyncEngine): Operation[] {
+    const sent: Operation[] = [];
+    engine.on('outbound', (ops) => sent.push(...ops));
+    return sent;
+}
+
+async function deliver(ops: Operation[], to: SyncEngine) {
+    for (const op of ops) {
+        await to.applyRemote(op.key, encodeValue(op.value), op.peerId, op.timestamp);
+    }
+}
+
+describe('SyncEngine multi-value keys', () => {
+    let alice: SyncEngine;
+    let bob: SyncEngine;
+    let aliceOut: Operation[];
+    let bobOut: Operation[];
+
+    beforeEach(() => {
+        const options = { multiValuePrefixes: ['doc.'] };
+        alice = new SyncEngine('alice', new InMemoryAdapter(), false, undefined, options);
+        bob = new SyncEngine('bob', new InMemoryAdapter(), false, undefined, options);
+        aliceOut = capture(alice);
+        bobOut = capture(bob);
+    });
+
+    it('should keep both concurrent writes as siblings', async () => {
+        const onConflict = vi.fn();
+        alice.on('conflict', onConflict);
+
+        await alice.set('doc.title', 'Alice title');
+        await bob.set('doc.title', 'Bob title');
+
+        await deliver(bobOut.splice(0), alice);
+        await deliver(aliceOut.splice(0), bob);
+
+        const values = alice.getConflicts('doc.title').map(c => c.value).sort();
+        expect(values).toEqual(['Alice title', 'Bob title']);
+        expect(bob.getConflicts('doc.title').map(c => c.value).sort()).toEqual(values);
+        expect(alice.get('doc.title')).toEqual(bob.get('doc.title'));
+        expect(onConflict).toHaveBeenCalledWith('doc.title', expect.arrayContaining([
+            expect.objectContaining({ value: 'Bob title', peerId: 'bob' }),
+        ]));
+    });
+
+    it('should keep concurrent writes from two sessions of the same peer id', async () => {
+        const otherTab = new SyncEngine('alice', new InMemoryAdapter(), false, undefined, { multiValuePrefixes: ['doc.'] });
+        const otherOut = capture(otherTab);
+
+        await otherTab.set('doc.title', 'Phone title');
+        // Same peer id, so only the wall clock tells the two sessions' op ids apart
+        await new Promise(r => setTimeout(r, 2));
+        // Newer dots of the same peer id must not pass for having seen the phone's write
+        await alice.set('doc.title', 'Laptop draft');
+        await alice.set('doc.title', 'Laptop title');
+
+        await deliver(otherOut.splice(0), alice);
+        await deliver(aliceOut.splice(0), otherTab);
+
+        const conflicts = alice.getConflicts('doc.title');
+        expect(conflicts.map(c => c.value).sort()).toEqual(['Laptop title', 'Phone title']);
+        expect(conflicts.map(c => c.peerId)).toEqual(['alice', 'alice']);
+        expect(otherTab.getConflicts('doc.title').map(c => c.value).sort()).toEqual(['Laptop title', 'Phone title']);
+    });
+
+    it('should not report a conflict for causally ordered writes', async () => {
+        await alice.set('doc.title', 'v1');
+        await deliver(aliceOut.splice(0), bob);
+
+        await bob.set('doc.title', 'v2');
+        await deliver(bobOut.splice(0), alice);
+
+        expect(alice.get('doc.title')).toBe('v2');
+        expect(alice.getConflicts('doc.title')).toEqual([]);
+    });
+
+    it('should collapse siblings on resolve', async () => {
+        await alice.set('doc.title', 'A');
+        await bob.set('doc.title', 'B');
+        await deliver(bobOut.splice(0), alice);
+        await deliver(aliceOut.splice(0), bob);
+
+        await alice.resolve('doc.title', 'A+B');
+        await deliver(aliceOut.splice(0), bob);
+
+        expect(alice.getConflicts('doc.title')).toEqual([]);
+        expect(bob.getConflicts('doc.title')).toEqual([]);
+        expect(bob.get('doc.title')).toBe('A+B');
+    });
+
+    it('should keep Last-Write-Wins for keys outside the prefixes', async () => {
+        await alice.set('other', 'A');
+        await bob.set('other', 'B');
+        await deliver(bobOut.splice(0), alice);
+        await deliver(aliceOut.splice(0), bob);
+
+        expect(alice.getConflicts('other')).toEqual([]);
+        expect(alice.get('other')).toBe(bob.get('other'));
+    });
+});
@@ -0,0 +1,163 @@
+/**
+ * Path-level Object Merge Tests
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { z } from 'zod';
+import { SyncEngine } from '../../src/engine';
+import { InMemoryAdapter } from '../../src/adapters/InMemoryAdapter';
+import { encodeValue } from '../../src/protocol';
+import { createProxy } from '../../src/StoreProxy';
+import type { Operation } from '../../src/types';
+
+function capture(engine: SyncEngine): Operation[] {
+    const sent: Operation[] = [];
+    engine.on('outbound', (ops) => sent.push(...ops));
+    return sent;
+}
+
+async function deliver(ops: Operation[], to: SyncEngine) {
+    for (const op of ops) {
+        await to.applyRemote(op.key, encodeValue(op.value), op.peerId, op.timestamp);
+    }
+}
+
+describe('SyncEngine object paths', () => {
+    let alice: SyncEngine;
+    let bob: SyncEngine;
+    let aliceOut: Operation[];
+    let bobOut: Operation[];
+
+    beforeEach(() => {
+        alice = new SyncEngine('alice', new InMemoryAdapter());
+        bob = new SyncEngine('bob', new InMemoryAdapter());
+        aliceOut = capture(alice);
+        bobOut = capture(bob);
+    });
+
+    it('should keep concurrent writes to different fields', async () => {
+        await alice.set('settings', { theme: 'light', zoom: 1 });
+        await deliver(aliceOut.splice(0), bob);
+
+        await alice.setPath('settings', ['theme'], 'dark');
+        await bob.setPath('settings', ['zoom'], 2);
+
+        await deliver(bobOut.splice(0), alice);
+        await deliver(aliceOut.splice(0), bob);
+
+        expect(alice.get('settings')).toEqual({ theme: 'dark', zoom: 2 });
+        expect(bob.get('settings')).toEqual({ theme: 'dark', zoom: 2 });
+    });
+
+    describe('a whole-value set racing a path write', () => {
+        const race = async (setFirst: boolean) => {
+            const write = async (first: () => Promise<unknown>, second: () => Promise<unknown>) => {
+                await first();
+                await new Promise(r => setTimeout(r, 2));
+                await second();
+            };
+            const set = () => alice.set('settings', { theme: 'dark' });
+            const setPath = () => bob.setPath('settings', ['zoom'], 2);
+            if (setFirst) await write(set, setPath);
+            else await write(setPath, set);
+
+            const fromAlice = aliceOut.splice(0);
+            const fromBob = bobOut.splice(0);
+            // Each peer, and a third one, sees the two writes in a different order
+            const carol = new SyncEngine('carol', new InMemoryAdapter());
+            await deliver(fromBob, alice);
+            await deliver(fromAlice, bob);
+            await deliver([...fromBob, ...fromAlice], carol);
+            return [alice.get('settings'), bob.get('settings'), carol.get('settings')];
+        };
+
+        it('should put a newer path write on top of the older value, whatever arrives first', async () => {
+            expect(await race(true)).toEqual(Array(3).fill({ theme: 'dark', zoom: 2 }));
+        });
+
+        it('should let a newer value replace an older path write, whatever arrives first', async () => {
+            expect(await race(false)).toEqual(Array(3).fill({ theme: 'dark' }));
+        });
+
+        it('should keep the merged value through a reload', async () => {
+            const storage = new InMemoryAdapter();
+            alice = new SyncEngine('alice', storage);
+            aliceOut = capture(alice);
+            await race(true);
+            await new Promise(r => setTimeout(r, 0));
+
+            const reloaded = new SyncEngine('alice', storage);
+            await reloaded.loadFromStorage();
+            expect(reloaded.get('settings')).toEqual({ theme: 'dark', zoom: 2 });
+        });
+    });
+
+    it('should send only the written path on the wire', async () => {
+        await alice.setPath('board', ['tasks', 't1'], { title: 'a' });
+        await alice.setPath('board', ['tasks', 't1', 'title'], 'b');
+
+        const last = aliceOut[aliceOut.length - 1].value as any;
+        expect(last.__crdt).toBe('object');
+        expect(last.delta.writes).toEqual([expect.objectContaining({ path: ['tasks', 't1', 'title'], value: 'b' })]);
+        expect(alice.get('board')).toEqual({ tasks: { t1: { title: 'b' } } });
+    });
+
+    it('should resolve concurrent writes to the same field by LWW', async () => {
+        await alice.setPath('doc', ['title'], 'from-alice');
+        await bob.setPath('doc', ['title'], 'from-bob');
+
+        await deliver(bobOut.splice(0), alice);
+        await deliver(aliceOut.splice(0), bob);
+
+        expect(alice.get('doc')).toEqual(bob.get('doc'));
+    });
+
+    it('should let a newer parent write replace older child writes', async () => {
+        await alice.setPath('doc', ['meta', 'a'], 1);
+        await deliver(aliceOut.splice(0), bob);
+
+        await bob.setPath('doc', ['meta'], { b: 2 });
+        await deliver(bobOut.splice(0), alice);
+
+        expect(alice.get('doc')).toEqual({ meta: { b: 2 } });
+        expect(bob.get('doc')).toEqual({ meta: { b: 2 } });
+    });
+
+    it('should sync deletes per path', async () => {
+        await alice.setPath('presence', ['p1'], { x: 1 });
+        await alice.setPath('presence', ['p2'], { x: 2 });
+        await alice.deletePath('presence', ['p1']);
+        await deliver(aliceOut.splice(0), bob);
+
+        expect(bob.get('presence')).toEqual({ p2: { x: 2 } });
+    });
+
+    it('should merge store proxy edits from two peers', async () => {
+        await alice.set('board', { title: 'Board', owner: 'alice' });
+        await deliver(aliceOut.splice(0), bob);
+
+        const aliceBoard = createProxy<Record<string, any>>(alice, 'board', z.object({}));
+        const bobBoard = createProxy<Record<string, any>>(bob, 'board', z.object({}));
+        aliceBoard.title = 'Roadmap';
+        bobBoard.owner = 'bob';
+        await new Promise(r => setTimeout(r, 0));
+
+        await deliver(bobOut.splice(0), alice);
+        await deliver(aliceOut.splice(0), bob);
+
+        expect(alice.get('board')).toEqual({ title: 'Roadmap', owner: 'bob' });
+        expect(bob.get('board')).toEqual({ title: 'Roadmap', owner: 'bob' });
+    });
+
+    it('should restore path state from storage', async () => {
+        const storage = new InMemoryAdapter();
+        const writer = new SyncEngine('alice', storage);
+        await writer.setPath('cfg', ['a'], 1);
+        await writer.setPath('cfg', ['b'], 2);
+        await new Promise(r => setTimeout(r, 0));
+
+        const reader = new SyncEngine('alice', storage);
+        await reader.loadFromStorage();
+        expect(reader.get('cfg')).toEqual({ a: 1, b: 2 });
+    });
+});
@@ -0,0 +1,101 @@
+/**
+ * Collaborative Text Tests
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { SyncEngine } from '../../src/engine';
+import { InMemoryAdapter } from '../../src/adapters/InMemoryAdapter';
+import { encodeValue } from '../../src/protocol';
+import type { Operation } from '../../src/types';
+
+function capture(engine: SyncEngine): Operation[] {
+    const sent: Operation[] = [];
+    engine.on('outbound', (ops) => sent.push(...ops));
+    return sent;
+}
+
+async function deliver(ops: Operation[], to: SyncEngine) {
+    for (const op of ops) {
+        await to.applyRemote(op.key, encodeValue(op.value), op.peerId, op.timestamp);
+    }
+}
+
+describe('SyncEngine text', () => {
+    let alice: SyncEngine;
+    let bob: SyncEngine;
+    let aliceOut: Operation[];
+    let bobOut: Operation[];
+
+    beforeEach(() => {
+        alice = new SyncEngine('alice', new InMemoryAdapter());
+        bob = new SyncEngine('bob', new InMemoryAdapter());
+        aliceOut = capture(alice);
+        bobOut = capture(bob);
+    });
+
+    it('should expose the text as a string through get', async () => {
+        await alice.textInsert('doc', 0, 'hello world');
+        await alice.textDelete('doc', 5, 6);
+        await alice.textInsert('doc', 0, '> ');
+
+        expect(alice.get('doc')).toBe('> hello');
+    });
+
+    it('should keep both peers\' concurrent edits without interleaving words', async () => {
+        await alice.textInsert('doc', 0, 'ab');
+        await deliver(aliceOut.splice(0), bob);
+
+        await alice.textInsert('doc', 1, 'XYZ');
+        await bob.textInsert('doc', 1, '123');
+        await bob.textDelete('doc', 0, 1);
+
+        await deliver(bobOut.splice(0), alice);
+        await deliver(aliceOut.splice(0), bob);
+
+        expect(alice.get('doc')).toBe(bob.get('doc'));
+        const text = alice.get<string>('doc')!;
+        expect(text).toHaveLength(7);
+        expect(text).toContain('XYZ');
+        expect(text).toContain('123');
+        expect(text.startsWith('a')).toBe(false);
+    });
+
+    it('should keep anchors attached to their text across remote edits', async () => {
+        await alice.textInsert('doc', 0, 'hello');
+        await deliver(aliceOut.splice(0), bob);
+
+        // Bob's cursor sits before the "l"s
+        const cursor = bob.textAnchor('doc', 2);
+
+        await alice.textInsert('doc', 0, 'oh, ');
+        await deliver(aliceOut.splice(0), bob);
+        expect(bob.get('doc')).toBe('oh, hello');
+        expect(bob.resolveTextAnchor('doc', cursor)).toBe(6);
+
+        // Deleting the anchoring character collapses the cursor to the deletion point
+        await alice.textDelete('doc', 5, 1);
+        await deliver(aliceOut.splice(0), bob);
+        expect(bob.resolveTextAnchor('doc', cursor)).toBe(5);
+    });
+
+    it('should index by UTF-16 code units, like DOM selections', async () => {
+        await alice.textInsert('doc', 0, 'a😀b');
+        await alice.textInsert('doc', 3, 'X');
+        expect(alice.get('doc')).toBe('a😀Xb');
+
+        const cursor = alice.textAnchor('doc', 4);
+        await alice.textDelete('doc', 1, 2);
+        expect(alice.get('doc')).toBe('aXb');
+        expect(alice.resolveTextAnchor('doc', cursor)).toBe(2);
+
+        await alice.textInsert('doc', 0, '🎉');
+        expect(alice.resolveTextAnchor('doc', cursor)).toBe(4);
+    });
+
+    it('should resolve a start-of-text anchor to 0', async () => {
+        await alice.textInsert('doc', 0, 'abc');
+        const start = alice.textAnchor('doc', 0);
+        await alice.textInsert('doc', 0, 'zz');
+        expect(alice.resolveTextAnchor('doc', start)).toBe(0);
+    });
+});
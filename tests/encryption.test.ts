@@ -4,6 +4,7 @@ import { SyncEngine } from '../src/engine';
 import { InMemoryAdapter } from '../src/adapters/InMemoryAdapter';
 import { AESGCMAdapter } from '../src/encryption';
 import { decodeValue, encodeValue } from '../src/protocol';
+import { decodeRecord, decodeLogEntry } from '../src/utils/record';
 
 // Mock crypto for Node.js environment (Vitest runs in Node)
 // const crypto = require('crypto').webcrypto;
@@ -34,8 +35,12 @@ describe('End-to-End Encryption', () => {
         // 1. Set data
         await engine.set('secret-key', secretData);
 
-        // 2. Read directly from storage (bypassing engine decryption)
-        const storedBytes = await storage.get('secret-key');
+        // 2. Read directly from storage (bypassing engine decryption).
+        // Writes go to the delta log; the record keeps LWW metadata next to the encrypted payload.
+        const [[, entry]] = await storage.scanPrefix('log::');
+        const record = decodeRecord(decodeLogEntry(entry).record);
+        expect(record?.peerId).toBe('peer-A');
+        const storedBytes = record?.payload;
         expect(storedBytes).toBeDefined();
 
         // 3. Verify it is NOT the plaintext msgpack
@@ -4,7 +4,7 @@
 
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { SyncEngine } from '../src/engine';
-import { encodeValue } from '../src/protocol';
+import { encodeValue, decodeMessage } from '../src/protocol';
 import { InMemoryAdapter } from '../src/adapters/InMemoryAdapter';
 
 describe('SyncEngine', () => {
@@ -218,6 +218,27 @@ describe('SyncEngine', () => {
         });
     });
 
+    describe('getByPrefix', () => {
+        it('should return only keys under the prefix', () => {
+            engine.set('cursors.a', 1);
+            engine.set('cursors.b', 2);
+            engine.set('cursor', 3);
+            engine.set('board.x', 4);
+
+            expect(engine.getByPrefix('cursors.')).toEqual({ 'cursors.a': 1, 'cursors.b': 2 });
+            expect(engine.getByPrefix('cursor')).toEqual({ 'cursors.a': 1, 'cursors.b': 2, cursor: 3 });
+            expect(engine.getByPrefix('')).toEqual(engine.getAllValues());
+            expect(engine.getByPrefix('missing.')).toEqual({});
+        });
+
+        it('should drop keys removed from the state', async () => {
+            await engine.applyRemote('cursors.a', encodeValue(1), 'remote-peer');
+            await engine.loadSnapshot(encodeValue({ 'cursors.b': 2 }));
+
+            expect(engine.getByPrefix('cursors.')).toEqual({ 'cursors.b': 2 });
+        });
+    });
+
     describe('status', () => {
         it('should start disconnected', () => {
             expect(engine.getStatus()).toBe('disconnected');
@@ -534,6 +555,14 @@ describe('SyncEngine', () => {
     // BUG HUNTING: Edge Case Tests
     // -------------------------------------------------------------------------
     describe('cas (Compare-And-Swap)', () => {
+        beforeEach(() => {
+            // Stands in for a server that grants every request
+            engine.on('cas', wire => {
+                const request = decodeMessage(wire)!;
+                engine.confirm(request.key!, request.timestamp!);
+            });
+        });
+
         it('should succeed when expected is null and key does not exist', async () => {
             // Key does not exist => current is undefined
             // Expected is null => Should match "absence"
@@ -758,7 +787,8 @@ describe('SyncEngine', () => {
             await e2eeEngine.set('counter', initial);
             casEvents.length = 0;
 
-            await e2eeEngine.cas('counter', initial, next);
+            void e2eeEngine.cas('counter', initial, next, { timeout: 0 });
+            await vi.waitFor(() => expect(casEvents.length).toBe(1));
 
             expect(casEvents.length).toBe(1);
 
@@ -1,6 +1,8 @@
 import { describe, expect, test, beforeEach } from 'vitest';
 import { SyncEngine } from '../src/engine';
 import { InMemoryAdapter } from '../src/adapters/InMemoryAdapter';
+import { HLC } from '../src/hlc';
+import { decodeRecord, decodeLogEntry } from '../src/utils/record';
 
 describe('SyncEngine LWW & Immutability', () => {
     let engine: SyncEngine;
@@ -97,6 +99,65 @@ describe('SyncEngine LWW & Immutability', () => {
 
 });
 
+describe('SyncEngine LWW metadata in storage', () => {
+    let storage: InMemoryAdapter;
+
+    const reload = async () => {
+        const engine = new SyncEngine('peer_local', storage);
+        await engine.loadFromStorage();
+        return engine;
+    };
+    const staleTs = () => HLC.pack(BigInt(Date.now() - 60_000), 0n, 0n);
+
+    beforeEach(() => {
+        storage = new InMemoryAdapter();
+    });
+
+    test('a reloaded value keeps its timestamp and writer', async () => {
+        const engine = new SyncEngine('peer_local', storage);
+        await engine.set('seat', 'local');
+        const written = (engine as any).state.get('seat');
+
+        const reloaded = await reload();
+        expect((reloaded as any).state.get('seat')).toMatchObject({ timestamp: written.timestamp, peerId: 'peer_local' });
+
+        // A stale remote op still loses after the reload
+        await reloaded.applyRemote('seat', encodeVal('stale'), 'peer_remote', staleTs());
+        expect(reloaded.get('seat')).toBe('local');
+    });
+
+    test('a reloaded tombstone is not resurrected by a stale op', async () => {
+        const engine = new SyncEngine('peer_local', storage);
+        await engine.set('seat', 'local');
+        await engine.delete('seat');
+
+        const reloaded = await reload();
+        expect(reloaded.get('seat')).toBeNull();
+
+        await reloaded.applyRemote('seat', encodeVal('stale'), 'peer_remote', staleTs());
+        expect(reloaded.get('seat')).toBeNull();
+    });
+
+    test('bare payloads from older versions still load, without metadata', async () => {
+        await storage.set('legacy', encodeVal({ holder: 'old' }));
+
+        const reloaded = await reload();
+        expect(reloaded.get('legacy')).toEqual({ holder: 'old' });
+        expect((reloaded as any).state.get('legacy')).toMatchObject({ timestamp: 0n, peerId: '' });
+    });
+
+    test('remote writes are stored with the remote writer', async () => {
+        const engine = new SyncEngine('peer_local', storage);
+        const ts = HLC.pack(BigInt(Date.now()), 0n, 0n);
+        await engine.applyRemote('seat', encodeVal('remote'), 'peer_remote', ts);
+
+        const [[, entry]] = await storage.scanPrefix('log::');
+        expect(decodeLogEntry(entry).key).toBe('seat');
+        const record = decodeRecord(decodeLogEntry(entry).record);
+        expect(record).toMatchObject({ timestamp: ts, peerId: 'peer_remote', tombstone: false });
+    });
+});
+
 // Helper shim since we can't import encodeValue easily if it's not exported or if we want simple test
 import { encode } from '@msgpack/msgpack';
 function encodeVal(v: any): Uint8Array {
@@ -0,0 +1,110 @@
+/**
+ * SyncEngine Transaction Tests
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { SyncEngine } from '../src/engine';
+import { InMemoryAdapter } from '../src/adapters/InMemoryAdapter';
+import { encodeValue } from '../src/protocol';
+import type { EncryptionAdapter } from '../src/encryption';
+
+describe('SyncEngine transactions', () => {
+    let engine: SyncEngine;
+
+    beforeEach(() => {
+        engine = new SyncEngine('alice', new InMemoryAdapter());
+    });
+
+    it('should apply every write before emitting op events', async () => {
+        const seen: unknown[] = [];
+        engine.on('op', () => seen.push([engine.get('a'), engine.get('b')]));
+
+        await engine.transaction(tx => {
+            tx.set('a', 1);
+            tx.set('b', 2);
+        });
+
+        expect(seen).toEqual([[1, 2], [1, 2]]);
+    });
+
+    it('should emit one outbound batch sharing a single timestamp', async () => {
+        const outbound = vi.fn();
+        const onTx = vi.fn();
+        engine.on('outbound', outbound);
+        engine.on('transaction', onTx);
+
+        await engine.transaction(tx => {
+            tx.set('a', 1);
+            tx.set('a', 2);
+            tx.delete('b');
+        });
+
+        expect(outbound).toHaveBeenCalledTimes(1);
+        const ops = outbound.mock.calls[0][0];
+        expect(ops.map((op: any) => [op.key, op.value])).toEqual([['a', 2], ['b', null]]);
+        expect(ops[0].timestamp).toBe(ops[1].timestamp);
+        expect(onTx).toHaveBeenCalledWith([{ key: 'a', value: 2 }, { key: 'b', value: null }], true);
+        expect(engine.getPendingCount()).toBe(2);
+    });
+
+    it('should do nothing for an empty transaction', async () => {
+        const outbound = vi.fn();
+        engine.on('outbound', outbound);
+        await engine.transaction(() => { });
+        expect(outbound).not.toHaveBeenCalled();
+    });
+
+    it('should apply a remote batch and emit one transaction event', async () => {
+        const onTx = vi.fn();
+        engine.on('transaction', onTx);
+
+        await engine.applyRemoteBatch([
+            { key: 'x', payload: encodeValue('1'), peerId: 'bob', timestamp: 10n },
+            { key: 'y', payload: encodeValue('2'), peerId: 'bob', timestamp: 10n },
+        ]);
+
+        expect(engine.get('x')).toBe('1');
+        expect(engine.get('y')).toBe('2');
+        expect(onTx).toHaveBeenCalledWith([{ key: 'x', value: '1' }, { key: 'y', value: '2' }], false);
+    });
+
+    it('should apply nothing from a remote batch if one write cannot be decoded', async () => {
+        const encryption: EncryptionAdapter = {
+            encrypt: async (d) => d,
+            decrypt: async (d) => {
+                if (d[0] === 0xff) throw new Error('bad key');
+                return d;
+            },
+            getKeyId: async () => 'test-key',
+        };
+        const secure = new SyncEngine('alice', new InMemoryAdapter(), false, encryption);
+        vi.spyOn(console, 'error').mockImplementation(() => { });
+
+        await secure.applyRemoteBatch([
+            { key: 'x', payload: encodeValue('1'), peerId: 'bob', timestamp: 10n },
+            { key: 'y', payload: new Uint8Array([0xff]), peerId: 'bob', timestamp: 10n },
+        ]);
+
+        expect(secure.get('x')).toBeUndefined();
+        expect(secure.get('y')).toBeUndefined();
+    });
+
+    it('should hold a remote batch until its deps arrive, then apply it whole', async () => {
+        const dep = 'title:5:bob';
+
+        await engine.applyRemoteBatch([
+            { key: 'x', payload: encodeValue('1'), peerId: 'bob', timestamp: 10n },
+            { key: 'y', payload: encodeValue('2'), peerId: 'bob', timestamp: 10n },
+        ], [dep]);
+
+        expect(engine.get('x')).toBeUndefined();
+        expect(engine.hasGap()).toBe(true);
+
+        await engine.applyRemote('title', encodeValue('draft'), 'bob', 5n);
+
+        expect(engine.get('x')).toBe('1');
+        expect(engine.get('y')).toBe('2');
+        expect(engine.hasGap()).toBe(false);
+        expect(engine.getHeads()).toEqual(['y:10:bob']);
+    });
+});
@@ -1,6 +1,8 @@
 import { SyncEngine } from '../src/engine';
 import { IStorage } from '../src/types';
 import { HLC } from '../src/hlc';
+import { encodeValue } from '../src/protocol';
+import { InMemoryAdapter } from '../src/adapters/InMemoryAdapter';
 
 // Mock Storage
 class MockStorage implements IStorage {
@@ -61,3 +63,85 @@ describe('Tombstone GC Verification', () => {
         expect(state.has(keyActive)).toBe(true); // Kept (not tombstone)
     });
 });
+
+describe('Peer-aware tombstone GC', () => {
+    const now = () => BigInt(Date.now());
+    const remoteTs = (offsetMs: number) => HLC.pack(now() + BigInt(offsetMs), 0n, 7n);
+
+    const deleteAt = async (engine: SyncEngine, key: string, offsetMs: number) => {
+        await engine.applyRemote(key, encodeValue(null), 'NODE_W', remoteTs(offsetMs));
+    };
+
+    test('keeps a tombstone until every known peer has acknowledged it', async () => {
+        const engine = new SyncEngine('NODE_GC', new InMemoryAdapter(), false);
+        const stats = vi.fn();
+        engine.on('gc', stats);
+
+        // NODE_LATE was last heard of before the delete
+        await engine.applyRemote('other', encodeValue(1), 'NODE_LATE', remoteTs(-60_000));
+        await deleteAt(engine, 'gone', -10_000);
+
+        await engine.compact();
+        expect(engine.get('gone')).toBeNull();
+        expect(stats).toHaveBeenLastCalledWith({ collected: 0, retained: 1, waitingOn: ['NODE_LATE'] });
+
+        // A newer op from NODE_LATE: it can no longer write anything older than the delete
+        await engine.applyRemote('other', encodeValue(2), 'NODE_LATE', remoteTs(-1000));
+        await engine.compact();
+        expect((engine as any).state.has('gone')).toBe(false);
+        expect(stats).toHaveBeenLastCalledWith({ collected: 1, retained: 0, waitingOn: [] });
+    });
+
+    test('collects unacknowledged tombstones past maxTombstoneAge', async () => {
+        const engine = new SyncEngine('NODE_GC', new InMemoryAdapter(), false, undefined, {
+            gc: { maxTombstoneAge: 30_000 },
+        });
+        await engine.applyRemote('other', encodeValue(1), 'NODE_LATE', remoteTs(-120_000));
+        await deleteAt(engine, 'ancient', -60_000);
+        await deleteAt(engine, 'recent', -10_000);
+
+        await engine.compact();
+
+        expect((engine as any).state.has('ancient')).toBe(false);
+        expect(engine.get('recent')).toBeNull();
+    });
+
+    test('honours a configured stability window', async () => {
+        const engine = new SyncEngine('NODE_GC', new InMemoryAdapter(), false, undefined, {
+            gc: { stabilityWindow: 60_000 },
+        });
+        await deleteAt(engine, 'gone', -10_000);
+
+        await engine.compact();
+
+        expect(engine.get('gone')).toBeNull();
+    });
+
+    test('remembers known peers across a reload', async () => {
+        const storage = new InMemoryAdapter();
+        const engine = new SyncEngine('NODE_GC', storage, false);
+        await engine.applyRemote('other', encodeValue(1), 'NODE_LATE', remoteTs(-60_000));
+        await deleteAt(engine, 'gone', -10_000);
+
+        const reloaded = new SyncEngine('NODE_GC', storage, false);
+        await reloaded.loadFromStorage();
+        await reloaded.compact();
+
+        expect(reloaded.get('gone')).toBeNull();
+        expect(reloaded.get('meta::versionVector')).toBeUndefined();
+    });
+
+    test('a re-sent stale write does not resurrect a collected key', async () => {
+        const engine = new SyncEngine('NODE_GC', new InMemoryAdapter(), false);
+        const writeTs = remoteTs(-20_000);
+        await engine.applyRemote('gone', encodeValue('old'), 'NODE_W', writeTs);
+        await deleteAt(engine, 'gone', -10_000);
+        await engine.compact();
+        expect((engine as any).state.has('gone')).toBe(false);
+
+        // NODE_W re-sends its offline queue after a reconnect
+        await engine.applyRemote('gone', encodeValue('old'), 'NODE_W', writeTs);
+
+        expect(engine.get('gone')).toBeUndefined();
+    });
+});
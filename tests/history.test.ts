@@ -0,0 +1,148 @@
+/**
+ * History (op-log retention) Tests
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { SyncEngine } from '../src/engine';
+import { HLC } from '../src/hlc';
+import { InMemoryAdapter } from '../src/adapters/InMemoryAdapter';
+import { encodeValue } from '../src/protocol';
+import { createTestClient, createTestTransport, tick } from './test-utils';
+
+describe('Engine history', () => {
+    let storage: InMemoryAdapter;
+    let engine: SyncEngine;
+    let sent: bigint[];
+
+    beforeEach(() => {
+        storage = new InMemoryAdapter();
+        engine = new SyncEngine('peer-a', storage, false, undefined, { history: {} });
+        sent = [];
+        engine.on('error', () => { });
+        engine.on('outbound', ops => sent.push(ops[0].timestamp));
+    });
+
+    it('records local and remote writes with their timestamp and writer', async () => {
+        await engine.set('title', 'draft');
+        const later = HLC.pack(HLC.unpack(sent[0]).wall + 1000n, 0n, 0n);
+        await engine.applyRemote('title', encodeValue('final'), 'peer-b', later);
+        await engine.delete('title');
+
+        expect(engine.getHistory('title')).toEqual([
+            { value: 'draft', timestamp: sent[0], peerId: 'peer-a' },
+            { value: 'final', timestamp: later, peerId: 'peer-b' },
+            { value: null, timestamp: sent[1], peerId: 'peer-a' },
+        ]);
+    });
+
+    it('keeps remote writes that lost LWW out of history', async () => {
+        await engine.set('title', 'mine');
+        const older = HLC.pack(HLC.unpack(sent[0]).wall - 1000n, 0n, 0n);
+
+        await engine.applyRemote('title', encodeValue('theirs'), 'peer-b', older);
+
+        expect(engine.getHistory('title').map(e => e.value)).toEqual(['mine']);
+    });
+
+    it('narrows results with since and limit', async () => {
+        for (const value of ['a', 'b', 'c', 'd']) await engine.set('title', value);
+
+        expect(engine.getHistory('title', { since: sent[0] }).map(e => e.value)).toEqual(['b', 'c', 'd']);
+        expect(engine.getHistory('title', { since: sent[0], limit: 2 }).map(e => e.value)).toEqual(['b', 'c']);
+    });
+
+    it('returns the state of every key at a point in time', async () => {
+        await engine.set('title', 'draft');
+        await engine.set('owner', 'ada');
+        await engine.set('title', 'final');
+        await engine.delete('owner');
+
+        expect(engine.stateAt(sent[1])).toEqual({ title: 'draft', owner: 'ada' });
+        expect(engine.stateAt(sent[3])).toEqual({ title: 'final' });
+        expect(engine.stateAt(sent[0] - 1n)).toEqual({});
+    });
+
+    it('restores an old value as a new op', async () => {
+        await engine.set('title', 'draft');
+        await engine.set('title', 'final');
+
+        await engine.restore('title', sent[0]);
+
+        expect(engine.get('title')).toBe('draft');
+        expect(sent).toHaveLength(3);
+        expect(engine.getHistory('title').map(e => e.value)).toEqual(['draft', 'final', 'draft']);
+        await expect(engine.restore('title', sent[0] - 1n)).rejects.toThrow(/No history/);
+    });
+
+    it('treats a TTL value as gone past its expiry, and restores it with the same TTL', async () => {
+        await engine.set('typing.bob', true, { ttl: 1000 });
+        const expiresAt = HLC.pack(HLC.unpack(sent[0]).wall + 1000n, 0n, 0n);
+
+        expect(engine.getHistory('typing.bob')[0].expiresAt).toBe(expiresAt);
+        expect(engine.stateAt(sent[0])).toEqual({ 'typing.bob': true });
+        expect(engine.stateAt(expiresAt)).toEqual({});
+
+        await engine.restore('typing.bob', expiresAt);
+        expect(engine.get('typing.bob')).toBeNull();
+
+        await engine.restore('typing.bob', sent[0]);
+        const restored = engine.getHistory('typing.bob')[2];
+        expect(restored.value).toBe(true);
+        expect(HLC.unpack(restored.expiresAt!).wall - HLC.unpack(restored.timestamp).wall).toBe(1000n);
+    });
+
+    it('keeps at most maxVersions per key', async () => {
+        engine = new SyncEngine('peer-a', storage, false, undefined, { history: { maxVersions: 2 } });
+        for (const value of ['a', 'b', 'c']) await engine.set('title', value);
+
+        expect(engine.getHistory('title').map(e => e.value)).toEqual(['b', 'c']);
+    });
+
+    it('forgets a local write the server rejected', async () => {
+        await engine.set('title', 'draft');
+        await engine.set('title', 'hijacked');
+
+        engine.reject('title', sent[1], 'read-only');
+
+        expect(engine.getHistory('title').map(e => e.value)).toEqual(['draft']);
+    });
+
+    it('survives a reload and a server snapshot', async () => {
+        await engine.set('title', 'draft');
+        await engine.set('title', 'final');
+        await tick();
+
+        const reloaded = new SyncEngine('peer-a', storage, false, undefined, { history: {} });
+        await reloaded.loadFromStorage();
+        await reloaded.loadSnapshot(encodeValue({ title: 'final' }));
+
+        expect(reloaded.get('title')).toBe('final');
+        expect(reloaded.getHistory('title').map(e => e.value)).toEqual(['draft', 'final']);
+        expect([...(await storage.scanPrefix('history::'))]).toHaveLength(2);
+    });
+
+    it('throws when history is not enabled', () => {
+        const plain = new SyncEngine('peer-a', new InMemoryAdapter());
+
+        expect(() => plain.getHistory('title')).toThrow(/not enabled/);
+    });
+});
+
+describe('Client history', () => {
+    it('exposes history, stateAt and restore', async () => {
+        const transport = createTestTransport();
+        const client = createTestClient({ history: true }, transport);
+
+        client.set('title', 'draft');
+        await tick();
+        const [first] = client.history<string>('title');
+        client.set('title', 'final');
+        await tick();
+
+        expect(client.stateAt(first.timestamp)).toEqual({ title: 'draft' });
+        await client.restore('title', first.timestamp);
+        expect(client.get('title')).toBe('draft');
+        expect(client.history('title')).toHaveLength(3);
+        expect(transport.sent).toHaveLength(3);
+    });
+});
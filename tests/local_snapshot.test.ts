@@ -0,0 +1,97 @@
+import { describe, test, expect, vi, beforeEach } from 'vitest';
+import { SyncEngine } from '../src/engine';
+import { InMemoryAdapter } from '../src/adapters/InMemoryAdapter';
+import { encodeValue } from '../src/protocol';
+import { decodeSnapshotRecord } from '../src/utils/record';
+import { Snapshot } from '../src/schema/nmeshed';
+import { ByteBuffer } from 'flatbuffers';
+
+describe('Local snapshot and delta log', () => {
+    let storage: InMemoryAdapter;
+
+    const reload = async () => {
+        const engine = new SyncEngine('NODE_A', storage);
+        await engine.loadFromStorage();
+        return engine;
+    };
+    const keys = async (prefix: string) => (await storage.scanPrefix(prefix)).map(([key]) => key);
+
+    beforeEach(() => {
+        storage = new InMemoryAdapter();
+    });
+
+    test('writes append to the delta log until a compaction folds them into the snapshot', async () => {
+        const engine = new SyncEngine('NODE_A', storage);
+        await engine.set('a', 1);
+        await engine.set('b', 2);
+        expect(await keys('log::')).toHaveLength(2);
+
+        await engine.compact();
+
+        expect(await keys('log::')).toEqual([]);
+        const snapshot = decodeSnapshotRecord((await storage.get('meta::snapshot'))!);
+        expect(Object.keys(snapshot.entries).sort()).toEqual(['a', 'b']);
+        expect(snapshot.vectorClock).toEqual(engine.getVersionVector());
+        expect((await reload()).getAllValues()).toEqual({ a: 1, b: 2 });
+    });
+
+    test('a cold start replays only the writes made after the snapshot', async () => {
+        const engine = new SyncEngine('NODE_A', storage);
+        await engine.set('a', 1);
+        await engine.set('b', 2);
+        await engine.compact();
+        await engine.set('a', 3);
+        await engine.delete('b');
+        await engine.set('c', 4);
+
+        const scan = vi.spyOn(storage, 'scanPrefix');
+        const reloaded = await reload();
+
+        expect(reloaded.getAllValues()).toEqual({ a: 3, b: null, c: 4 });
+        expect(scan).not.toHaveBeenCalledWith('');
+    });
+
+    test('a corrupted snapshot is detected and not loaded', async () => {
+        const engine = new SyncEngine('NODE_A', storage);
+        await engine.set('a', 1);
+        await engine.compact();
+        await engine.set('b', 2);
+
+        const stored = (await storage.get('meta::snapshot'))!;
+        // dataArray() is a view into the stored bytes
+        Snapshot.getRootAsSnapshot(new ByteBuffer(stored)).dataArray()![0] ^= 0xFF;
+        await storage.set('meta::snapshot', stored);
+
+        const spy = vi.spyOn(console, 'error').mockImplementation(() => { });
+        const reloaded = await reload();
+
+        expect(spy).toHaveBeenCalledWith('[NMeshed] Local snapshot is corrupted', expect.any(Error));
+        expect(reloaded.get('a')).toBeUndefined();
+        expect(reloaded.get('b')).toBe(2);
+        spy.mockRestore();
+    });
+
+    test('log entries already covered by the snapshot are not replayed', async () => {
+        const engine = new SyncEngine('NODE_A', storage);
+        await engine.set('a', 'old');
+        const [[staleKey, staleEntry]] = await storage.scanPrefix('log::');
+        await engine.set('a', 'new');
+        await engine.compact();
+
+        // A compaction interrupted before it deleted the log it folded in
+        await storage.set(staleKey, staleEntry);
+
+        expect((await reload()).get('a')).toBe('new');
+    });
+
+    test('per-key values from older versions load and move into the snapshot', async () => {
+        await storage.set('legacy', encodeValue('old'));
+
+        const engine = await reload();
+        expect(engine.get('legacy')).toBe('old');
+
+        await engine.compact();
+        expect(await storage.get('legacy')).toBeUndefined();
+        expect((await reload()).get('legacy')).toBe('old');
+    });
+});
@@ -0,0 +1,101 @@
+/**
+ * Lease / Lock Tests
+ *
+ * Peers share one engine here: what matters is the lease value and the CAS on it.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { SyncEngine } from '../src/engine';
+import { LockManager, type LockSource } from '../src/locks';
+import { InMemoryAdapter } from '../src/adapters/InMemoryAdapter';
+import { decodeMessage } from '../src/protocol';
+
+describe('LockManager', () => {
+    let engine: SyncEngine;
+
+    const peer = (peerId: string, overrides: Partial<LockSource> = {}) => new LockManager({
+        get: key => engine.get(key),
+        cas: (key, expected, newValue) => engine.cas(key, expected, newValue),
+        getPeerId: () => peerId,
+        now: () => engine.now(),
+        ...overrides,
+    });
+
+    beforeEach(() => {
+        // Only the clock: storage and emit stay on real promises
+        vi.useFakeTimers({ toFake: ['Date'] });
+        vi.setSystemTime(1_700_000_000_000);
+        engine = new SyncEngine('server', new InMemoryAdapter());
+        // The server grants every request; the lease value decides who gets to ask
+        engine.on('cas', wire => {
+            const request = decodeMessage(wire)!;
+            engine.confirm(request.key!, request.timestamp!);
+        });
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('grants a free lock and refuses it to others while the lease runs', async () => {
+        const alice = peer('alice');
+        const bob = peer('bob');
+
+        const lease = await alice.acquire('export', { ttl: 1000 });
+
+        expect(lease?.token).toBe(1);
+        expect(alice.isLocked('export')).toBe(true);
+        expect(await bob.acquire('export', { ttl: 1000 })).toBeNull();
+        expect(await alice.acquire('export', { ttl: 1000 })).toBeNull();
+    });
+
+    it('hands out a higher fencing token after a release', async () => {
+        const alice = peer('alice');
+        const bob = peer('bob');
+
+        const first = await alice.acquire('export', { ttl: 1000 });
+        expect(await first!.release()).toBe(true);
+        expect(alice.isLocked('export')).toBe(false);
+
+        const second = await bob.acquire('export', { ttl: 1000 });
+        expect(second?.token).toBe(2);
+    });
+
+    it('lets another peer reclaim an expired lease, which its holder then cannot renew', async () => {
+        const crashed = await peer('alice').acquire('export', { ttl: 1000 });
+
+        vi.advanceTimersByTime(1001);
+        const reclaimed = await peer('bob').acquire('export', { ttl: 1000 });
+
+        expect(reclaimed?.token).toBe(crashed!.token + 1);
+        expect(await crashed!.renew()).toBe(false);
+        expect(await crashed!.release()).toBe(false);
+    });
+
+    it('keeps the lock past its first expiry when renewed', async () => {
+        const lease = await peer('alice').acquire('export', { ttl: 1000 });
+        const firstExpiry = lease!.expiresAt;
+
+        vi.advanceTimersByTime(800);
+        expect(await lease!.renew()).toBe(true);
+        vi.advanceTimersByTime(800);
+
+        expect(lease!.expiresAt).toBeGreaterThan(firstExpiry);
+        expect(await peer('bob').acquire('export', { ttl: 1000 })).toBeNull();
+    });
+
+    it('returns null when the server gives the lock to a competing peer', async () => {
+        const loser = peer('alice', { cas: async () => false });
+
+        expect(await loser.acquire('export', { ttl: 1000 })).toBeNull();
+    });
+
+    it('keeps lease records out of snapshots and prefix reads outside the lock namespace', async () => {
+        await engine.set('exports.last', 'monday');
+        await peer('alice').acquire('export', { ttl: 1000 });
+
+        expect(engine.getAllValues()).toEqual({ 'exports.last': 'monday' });
+        expect(engine.getByPrefix('')).toEqual({ 'exports.last': 'monday' });
+        expect(Object.keys(engine.getByPrefix('__locks.'))).toEqual(['__locks.export']);
+    });
+});
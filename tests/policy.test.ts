@@ -0,0 +1,165 @@
+/**
+ * Access Policy Tests
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { SyncEngine } from '../src/engine';
+import { AccessControl, PolicyError } from '../src/policy';
+import { InMemoryAdapter } from '../src/adapters/InMemoryAdapter';
+import { encodeReject, decodeMessage, MsgType } from '../src/protocol';
+import { createTestClient, createTestTransport } from './test-utils';
+
+const policies = {
+    'settings.': { write: ['admin'], delete: ['admin'] },
+    'settings.theme': { write: ['admin', 'editor'] },
+    'docs.': { delete: ['admin'] },
+};
+
+describe('AccessControl', () => {
+    it('applies the longest matching prefix', () => {
+        const editor = new AccessControl(policies, ['editor']);
+
+        expect(editor.allows('settings.billing', 'write')).toBe(false);
+        expect(editor.allows('settings.theme', 'write')).toBe(true);
+        expect(editor.allows('settings.theme', 'delete')).toBe(true);
+    });
+
+    it('leaves keys and operations without a rule open', () => {
+        const viewer = new AccessControl(policies, []);
+
+        expect(viewer.allows('cursors.alice', 'write')).toBe(true);
+        expect(viewer.allows('docs.readme', 'write')).toBe(true);
+        expect(viewer.allows('docs.readme', 'delete')).toBe(false);
+    });
+});
+
+describe('Local policy checks', () => {
+    let engine: SyncEngine;
+    let errors: Error[];
+
+    beforeEach(() => {
+        engine = new SyncEngine('viewer', new InMemoryAdapter(), false, undefined, {
+            accessControl: new AccessControl(policies, ['viewer']),
+        });
+        errors = [];
+        engine.on('error', e => errors.push(e));
+    });
+
+    it('refuses a denied write before it touches state', async () => {
+        const outbound = vi.fn();
+        engine.on('outbound', outbound);
+
+        await expect(engine.set('settings.billing', 'free')).rejects.toBeInstanceOf(PolicyError);
+
+        expect(engine.get('settings.billing')).toBeUndefined();
+        expect(outbound).not.toHaveBeenCalled();
+        expect(errors[0]).toMatchObject({ key: 'settings.billing', operation: 'write', source: 'local' });
+    });
+
+    it('checks deletes separately from writes', async () => {
+        await engine.set('docs.readme', 'hello');
+        await expect(engine.delete('docs.readme')).rejects.toBeInstanceOf(PolicyError);
+
+        expect(engine.get('docs.readme')).toBe('hello');
+        expect(errors[0]).toMatchObject({ operation: 'delete' });
+    });
+
+    it('applies none of a transaction when one write is denied', async () => {
+        await expect(engine.transaction(tx => {
+            tx.set('docs.readme', 'hello');
+            tx.set('settings.billing', 'free');
+        })).rejects.toBeInstanceOf(PolicyError);
+
+        expect(engine.getAllValues()).toEqual({});
+    });
+});
+
+describe('Server rejection', () => {
+    let engine: SyncEngine;
+    let errors: Error[];
+
+    beforeEach(() => {
+        engine = new SyncEngine('peer-a', new InMemoryAdapter());
+        errors = [];
+        engine.on('error', e => errors.push(e));
+    });
+
+    const lastOp = () => {
+        const outbound = vi.fn();
+        engine.on('outbound', outbound);
+        return () => outbound.mock.calls.at(-1)![0][0];
+    };
+
+    it('rolls the key back to the value the rejected op replaced', async () => {
+        const sent = lastOp();
+        await engine.set('title', 'draft');
+        await engine.set('title', 'hijacked');
+        const rejected = sent();
+
+        const ops = vi.fn();
+        engine.on('op', ops);
+        engine.reject('title', rejected.timestamp, 'read-only');
+
+        expect(engine.get('title')).toBe('draft');
+        expect(ops).toHaveBeenCalledWith('title', 'draft', false, expect.any(BigInt));
+        expect(errors[0]).toBeInstanceOf(PolicyError);
+        expect(errors[0]).toMatchObject({ key: 'title', operation: 'write', source: 'server' });
+        expect(errors[0].message).toContain('read-only');
+    });
+
+    it('drops the rejected op from the outbound queue', async () => {
+        const sent = lastOp();
+        await engine.set('title', 'hijacked');
+
+        engine.reject('title', sent().timestamp);
+
+        expect(engine.get('title')).toBeNull();
+        expect(engine.getPendingCount()).toBe(0);
+        expect(engine.getHeads()).toEqual([]);
+    });
+
+    it('keeps a newer write, which now falls back past the rejected one', async () => {
+        const sent = lastOp();
+        await engine.set('title', 'a');
+        await engine.set('title', 'b');
+        const rejected = sent();
+        await engine.set('title', 'c');
+        const newer = sent();
+
+        engine.reject('title', rejected.timestamp);
+        expect(engine.get('title')).toBe('c');
+
+        engine.reject('title', newer.timestamp);
+        expect(engine.get('title')).toBe('a');
+    });
+
+    it('ignores rejections of acknowledged or unknown ops', async () => {
+        const sent = lastOp();
+        await engine.set('title', 'a');
+        const op = sent();
+        engine.acknowledge(op.timestamp >> 64n);
+
+        engine.reject('title', op.timestamp);
+
+        expect(engine.get('title')).toBe('a');
+        expect(errors).toEqual([]);
+    });
+
+    it('routes a Reject packet from the server to the engine', async () => {
+        const transport = createTestTransport(false);
+        const client = createTestClient({}, transport);
+        const error = vi.fn();
+        client.on('error', error);
+        let timestamp = 0n;
+        client.on('op', (_key, _value, _isLocal, ts) => { timestamp = ts!; });
+
+        client.set('title', 'hijacked');
+        const packet = encodeReject('title', timestamp, 'peer-a', 'read-only');
+        expect(decodeMessage(packet)).toMatchObject({ type: MsgType.Reject, key: 'title', timestamp, reason: 'read-only' });
+        transport.deliver(packet);
+
+        expect(client.get('title')).toBeNull();
+        expect(error).toHaveBeenCalledWith(expect.objectContaining({ source: 'server' }));
+        client.disconnect();
+    });
+});
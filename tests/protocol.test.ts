@@ -15,8 +15,15 @@ import {
     encodePong,
     encodeCAS,
     encodeEncrypted,
+    encodeBatch,
+    encodeSyncRequest,
+    encodeSyncPacket,
+    encodeVersionVector,
+    decodeVersionVector,
+    encodeRelay,
     MsgType,
 } from '../src/protocol';
+import { HLC } from '../src/hlc';
 import * as flatbuffers from 'flatbuffers';
 
 describe('Protocol', () => {
@@ -102,6 +109,20 @@ describe('Protocol', () => {
             expect(msg!.timestamp! - expectedTimestamp).toBe(0n);
         });
 
+        it('should ROUND TRIP the server-asserted authority flag', () => {
+            expect(decodeMessage(encodeOp('k', new Uint8Array([1])))?.isAuthority).toBe(false);
+            const msg = decodeMessage(encodeOp('k', new Uint8Array([1]), undefined, false, 'server', [], true));
+            expect(msg?.isAuthority).toBe(true);
+        });
+
+        it('should ROUND TRIP causal deps', () => {
+            const deps = ['a:100:peer-a', 'with:colons:200:peer-b'];
+            const msg = decodeMessage(encodeOp('k', encodeValue(1), 300n, false, 'peer-c', deps));
+
+            expect(msg?.deps).toEqual(deps);
+            expect(decodeMessage(encodeOp('k', encodeValue(1)))?.deps).toEqual([]);
+        });
+
         it('should ROUND TRIP all Op fields correctly (field index regression test)', () => {
             const testCases = [
                 { key: 'simple', value: 'string-value', ts: 1000000000000 },
@@ -155,6 +176,12 @@ describe('Protocol', () => {
 
             expect(msg?.type).toBe(MsgType.Init);
         });
+
+        it('should round trip the keys holding authority writes', () => {
+            const msg = decodeMessage(encodeInit(encodeSnapshot({ board: 'official' }), 0, ['board']));
+
+            expect(msg?.authorityKeys).toEqual(['board']);
+        });
     });
 
     describe('encodePing / encodePong', () => {
@@ -195,6 +222,83 @@ describe('Protocol', () => {
         });
     });
 
+    describe('encodeSyncRequest / encodeSyncPacket', () => {
+        it('should round trip the local heads of a SyncRequest', () => {
+            const msg = decodeMessage(encodeSyncRequest(['a:1:peer-a', 'b:2:peer-b']));
+            expect(msg?.type).toBe(MsgType.SyncRequest);
+            expect(msg?.localHeads).toEqual(['a:1:peer-a', 'b:2:peer-b']);
+        });
+
+        it('should round trip the version vector, ack and snapshot of a Sync packet', () => {
+            const snapshot = encodeValue({ a: 1 });
+            const msg = decodeMessage(encodeSyncPacket({ stateVector: { 'peer-a': 5n, 'peer-b': 9n }, ackSeq: 4n, snapshot }));
+
+            expect(msg?.type).toBe(MsgType.Sync);
+            expect(msg?.stateVector).toEqual({ 'peer-a': 5n, 'peer-b': 9n });
+            expect(msg?.ackSeq).toBe(4n);
+            expect(decodeValue(msg!.payload!)).toEqual({ a: 1 });
+
+            // A pure delta reply has no snapshot
+            expect(decodeMessage(encodeSyncPacket({ stateVector: {} }))?.payload).toBeUndefined();
+        });
+
+        it('should round trip a standalone VersionVector', () => {
+            const vector = { 'peer-a': 5n, 'peer-b': 1n << 60n };
+            expect(decodeVersionVector(encodeVersionVector(vector))).toEqual(vector);
+        });
+    });
+
+    describe('encodeBatch / decodeMessage ColumnarBatch', () => {
+        it('should round trip keys, payloads and full 128-bit timestamps', () => {
+            const ts = new HLC('peer-a').now();
+            const wireBytes = encodeBatch([
+                { key: 'columns.todo', payload: encodeValue(['b']), timestamp: ts },
+                { key: 'columns.done', payload: encodeValue(['a']), timestamp: ts },
+            ], 'peer-a');
+
+            const msg = decodeMessage(wireBytes);
+            expect(msg?.type).toBe(MsgType.ColumnarBatch);
+            expect(msg?.ops).toHaveLength(2);
+            expect(msg!.ops!.map(op => op.key)).toEqual(['columns.todo', 'columns.done']);
+            expect(decodeValue(msg!.ops![1].payload)).toEqual(['a']);
+            expect(msg!.ops![0].timestamp).toBe(ts);
+            expect(msg!.ops![0].actorId).toBe('peer-a');
+        });
+
+        it('should round trip the deps of the transaction', () => {
+            const ts = new HLC('peer-a').now();
+            const msg = decodeMessage(encodeBatch([
+                { key: 'a', payload: encodeValue(1), timestamp: ts },
+            ], 'peer-a', ['title:5:peer-b']));
+
+            expect(msg?.deps).toEqual(['title:5:peer-b']);
+            expect(msg?.isAuthority).toBe(false);
+        });
+
+        it('should round trip the server-asserted authority flag', () => {
+            const ts = new HLC('server').now();
+            const msg = decodeMessage(encodeBatch([{ key: 'a', payload: encodeValue(1), timestamp: ts }], 'server', [], true));
+
+            expect(msg?.isAuthority).toBe(true);
+        });
+    });
+
+    describe('encodeRelay / decodeMessage Signal', () => {
+        it('should round trip sender, addressee and payload', () => {
+            const msg = decodeMessage(encodeRelay('peer-a', encodeValue({ state: 1 }), 'peer-b'));
+            expect(msg?.type).toBe(MsgType.Signal);
+            expect(msg?.actorId).toBe('peer-a');
+            expect(msg?.toPeer).toBe('peer-b');
+            expect(decodeValue(msg!.payload!)).toEqual({ state: 1 });
+        });
+
+        it('should decode an empty broadcast relay', () => {
+            const msg = decodeMessage(encodeRelay('peer-a', new Uint8Array()));
+            expect(msg?.toPeer).toBeUndefined();
+            expect(msg?.payload).toEqual(new Uint8Array());
+        });
+    });
+
     describe('decodeMessage', () => {
         it('should handle invalid data gracefully', () => {
             const result = decodeMessage(new Uint8Array([1, 2, 3]));
@@ -267,6 +371,9 @@ describe('Protocol', () => {
             expect(MsgType.Init).toBe(4);
             expect(MsgType.Ping).toBe(11);
             expect(MsgType.Pong).toBe(12);
+            expect(MsgType.Reject).toBe(13);
+            expect(MsgType.Ack).toBe(14);
+            expect(MsgType.Nack).toBe(15);
             expect(MsgType.CompareAndSwap).toBe(7);
             expect(MsgType.Encrypted).toBe(8);
         });
@@ -0,0 +1,122 @@
+/**
+ * LiveQuery Tests
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { NMeshedClient } from '../src/client';
+import { InMemoryAdapter } from '../src/adapters/InMemoryAdapter';
+import { encodeValue } from '../src/protocol';
+import type { Transport } from '../src/types';
+
+interface Todo {
+    title: string;
+    done: boolean;
+    rank?: number;
+}
+
+// Never connects: queries only need the local store
+const offlineTransport = (): Transport => ({
+    connect: async () => { },
+    disconnect: () => { },
+    reconnect: async () => { },
+    send: () => { },
+    onMessage: () => () => { },
+    onOpen: () => () => { },
+    onClose: () => () => { },
+    isConnected: () => false,
+});
+
+describe('LiveQuery', () => {
+    let client: NMeshedClient;
+
+    beforeEach(() => {
+        client = new NMeshedClient({
+            workspaceId: 'test',
+            token: 'token',
+            connectJitter: 0,
+            transport: offlineTransport(),
+            storage: new InMemoryAdapter(),
+        });
+    });
+
+    afterEach(() => client.disconnect());
+
+    it('filters, sorts and limits the values under a prefix', () => {
+        client.set('todos.a', { title: 'a', done: false, rank: 3 });
+        client.set('todos.b', { title: 'b', done: true, rank: 1 });
+        client.set('todos.c', { title: 'c', done: false, rank: 2 });
+        client.set('todos.d', { title: 'd', done: false, rank: 1 });
+        client.set('notes.x', { title: 'x', done: false, rank: 0 });
+
+        const query = client.query<Todo>({ prefix: 'todos.', where: t => !t.done, orderBy: 'rank', limit: 2 });
+
+        expect(query.getResults().map(t => t.title)).toEqual(['d', 'c']);
+        expect(query.getKeys()).toEqual(['todos.d', 'todos.c']);
+        query.destroy();
+    });
+
+    it('moves, adds and drops rows as ops arrive', () => {
+        client.set('todos.a', { title: 'a', done: false, rank: 1 });
+        client.set('todos.b', { title: 'b', done: false, rank: 2 });
+        const query = client.query<Todo>({ prefix: 'todos.', where: t => !t.done, orderBy: { field: 'rank', direction: 'desc' } });
+        expect(query.getKeys()).toEqual(['todos.b', 'todos.a']);
+
+        client.set('todos.a', { title: 'a', done: false, rank: 5 });
+        expect(query.getKeys()).toEqual(['todos.a', 'todos.b']);
+
+        client.set('todos.c', { title: 'c', done: false, rank: 3 });
+        expect(query.getKeys()).toEqual(['todos.a', 'todos.c', 'todos.b']);
+
+        client.set('todos.c', { title: 'c', done: true, rank: 3 });
+        client.delete('todos.b');
+        expect(query.getKeys()).toEqual(['todos.a']);
+        query.destroy();
+    });
+
+    it('only notifies when the visible window changes', () => {
+        for (const [key, rank] of [['a', 1], ['b', 2], ['c', 3]] as const) {
+            client.set(`todos.${key}`, { title: key, done: false, rank });
+        }
+        const query = client.query<Todo>({ prefix: 'todos.', orderBy: 'rank', limit: 2 });
+        const listener = vi.fn();
+        query.subscribe(listener);
+
+        client.set('todos.z', { title: 'z', done: false, rank: 9 });
+        expect(listener).not.toHaveBeenCalled();
+
+        client.set('todos.z', { title: 'z', done: false, rank: 0 });
+        expect(listener).toHaveBeenCalledTimes(1);
+        expect(query.getKeys()).toEqual(['todos.z', 'todos.a']);
+        query.destroy();
+    });
+
+    it('follows remote ops and orders by key without orderBy', async () => {
+        const query = client.query<number>({ prefix: 'scores.' });
+
+        await (client as any).engine.applyRemote('scores.b', encodeValue(2), 'peer-b');
+        await (client as any).engine.applyRemote('scores.a', encodeValue(1), 'peer-b');
+
+        expect(query.getResults()).toEqual([1, 2]);
+        query.destroy();
+    });
+
+    it('re-reads its prefix when a snapshot replaces the state', async () => {
+        await (client as any).engine.applyRemote('todos.gone', encodeValue({ title: 'gone', done: false }), 'peer-b');
+        const query = client.query<Todo>({ prefix: 'todos.' });
+        expect(query.getKeys()).toEqual(['todos.gone']);
+
+        await (client as any).engine.loadSnapshot(encodeValue({ 'todos.kept': { title: 'kept', done: false } }));
+        (client as any).engine.emit('ready');
+
+        expect(query.getKeys()).toEqual(['todos.kept']);
+        query.destroy();
+    });
+
+    it('stops updating once destroyed', () => {
+        const query = client.query<Todo>({ prefix: 'todos.' });
+        query.destroy();
+
+        client.set('todos.a', { title: 'a', done: false });
+        expect(query.getResults()).toEqual([]);
+    });
+});
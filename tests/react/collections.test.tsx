@@ -3,7 +3,7 @@
  */
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { renderHook, act } from '@testing-library/react';
-import { useSyncedMap, useSyncedList, useSyncedDict } from '../../src/react/collections';
+import { useSyncedMap, useSyncedList, useSyncedText, useSyncedCounter, useSyncedDict } from '../../src/react/collections';
 import { NMeshedProvider } from '../../src/react/context';
 import { NMeshedClient } from '../../src/client';
 import { createMockClient } from '../test-utils';
@@ -25,15 +25,34 @@ const wrapper = ({ children }: { children: React.ReactNode }) => (
 );
 
 describe('Collections Hooks', () => {
+    // What the mock client holds, and a stand-in for its prefix dispatch
+    let values: Record<string, unknown>;
+    let prefixSubscribers: [string, (key: string, value: unknown) => void][];
+    const seed = (next: Record<string, unknown>) => { values = next; };
+    const emitOp = (key: string, value: unknown) => {
+        prefixSubscribers.forEach(([prefix, cb]) => key.startsWith(prefix) && cb(key, value));
+    };
+
     beforeEach(() => {
         vi.clearAllMocks();
+        values = {};
+        prefixSubscribers = [];
         mockClient.on.mockImplementation(() => () => { });
-        mockClient.getAllValues.mockReturnValue({});
+        mockClient.getByPrefix.mockImplementation((prefix: string) =>
+            Object.fromEntries(Object.entries(values).filter(([k]) => k.startsWith(prefix)))
+        );
+        mockClient.subscribePrefix.mockImplementation((prefix: string, cb: (key: string, value: unknown) => void) => {
+            prefixSubscribers.push([prefix, cb]);
+            return () => { };
+        });
+        mockClient.subscribe.mockImplementation(() => () => { });
+        mockClient.getListItems.mockReturnValue([]);
+        mockClient.get.mockReturnValue(undefined);
     });
 
     it('useSyncedMap should load initial data matching prefix', () => {
         // Setup initial data
-        mockClient.getAllValues.mockReturnValue({
+        seed({
             'items.1': { id: 1 },
             'items.2': { id: 2 },
             'other.3': { id: 3 },
@@ -48,20 +67,15 @@ describe('Collections Hooks', () => {
     });
 
     it('useSyncedMap should update on op events', () => {
-        let opHandler: any;
-        mockClient.on.mockImplementation((event, cb) => {
-            if (event === 'op') opHandler = cb;
-            return () => { };
-        });
-
         const { result } = renderHook(() => useSyncedMap('items'), { wrapper });
 
         // Initial empty
         expect(result.current[0]).toEqual({});
+        expect(mockClient.subscribePrefix).toHaveBeenCalledWith('items.', expect.any(Function));
 
         // Simulate op
         act(() => {
-            if (opHandler) opHandler('items.abc', { val: 1 });
+            emitOp('items.abc', { val: 1 });
         });
 
         expect(result.current[0]).toEqual({
@@ -70,7 +84,7 @@ describe('Collections Hooks', () => {
 
         // Simulate ignored op
         act(() => {
-            if (opHandler) opHandler('other.xyz', { val: 2 });
+            emitOp('other.xyz', { val: 2 });
         });
 
         expect(result.current[0]).toEqual({
@@ -90,23 +104,17 @@ describe('Collections Hooks', () => {
     });
 
     it('useSyncedMap should handle deletions and removeItem', () => {
-        let opHandler: any;
-        mockClient.on.mockImplementation((event, cb) => {
-            if (event === 'op') opHandler = cb;
-            return () => { };
-        });
-
         const { result } = renderHook(() => useSyncedMap('items'), { wrapper });
 
         // Seed with data
         act(() => {
-            if (opHandler) opHandler('items.del', { val: 1 });
+            emitOp('items.del', { val: 1 });
         });
         expect(result.current[0]).toEqual({ 'del': { val: 1 } });
 
         // Verify delete op (value null)
         act(() => {
-            if (opHandler) opHandler('items.del', null);
+            emitOp('items.del', null);
         });
         expect(result.current[0]).toEqual({});
 
@@ -117,30 +125,97 @@ describe('Collections Hooks', () => {
         expect(mockClient.delete).toHaveBeenCalledWith('items.local-del');
     });
 
-    it('useSyncedList should manage list operations', () => {
-        // Mock get/set for list index
-        mockClient.getAllValues.mockReturnValue({
-            'list.0': 'a',
-            'list.1': 'b',
-        });
+    it('useSyncedList should load items from the replicated list', () => {
+        mockClient.getListItems.mockReturnValue([
+            { id: 'x', value: 'a' },
+            { id: 'y', value: 'b' },
+        ]);
 
         const { result } = renderHook(() => useSyncedList<string>('list'), { wrapper });
 
-        // Expect array
         expect(result.current[0]).toEqual(['a', 'b']);
+        expect(result.current[3].ids).toEqual(['x', 'y']);
+        expect(mockClient.subscribe).toHaveBeenCalledWith('list', expect.any(Function));
+    });
+
+    it('useSyncedList should re-read the list when its key changes', () => {
+        let notify: any;
+        mockClient.subscribe.mockImplementation((_key: string, cb: () => void) => {
+            notify = cb;
+            return () => { };
+        });
+
+        const { result } = renderHook(() => useSyncedList<string>('list'), { wrapper });
+        expect(result.current[0]).toEqual([]);
+
+        mockClient.getListItems.mockReturnValue([{ id: 'x', value: 'a' }]);
+        act(() => notify());
+
+        expect(result.current[0]).toEqual(['a']);
+    });
+
+    it('useSyncedList should delegate push/remove/insert/move to the client', async () => {
+        mockClient.getListItems.mockReturnValue([{ id: 'x', value: 'a' }]);
+        const { result } = renderHook(() => useSyncedList<string>('list'), { wrapper });
+
+        let id: string | undefined;
+        await act(async () => {
+            id = await result.current[3].insert(0, 'b');
+        });
+        expect(id).toBe('item-id');
+        expect(mockClient.listInsert).toHaveBeenCalledWith('list', 0, 'b');
+
+        await act(async () => {
+            await result.current[1]('c');
+        });
+        expect(mockClient.listInsert).toHaveBeenCalledWith('list', 1, 'c');
 
-        // Push
         act(() => {
-            result.current[1]('c'); // push
+            result.current[3].move(0, 1);
+            result.current[2]('x');
         });
+        expect(mockClient.listMove).toHaveBeenCalledWith('list', 0, 1);
+        expect(mockClient.listRemove).toHaveBeenCalledWith('list', 'x');
+    });
 
-        // Expect set to be called with correct key (auto-increment suffix or random)
-        expect(mockClient.set).toHaveBeenCalledWith(expect.stringMatching(/^list\./), 'c');
+    it('useSyncedText should track the text and splice through the client', async () => {
+        let notify: any;
+        mockClient.get.mockReturnValue('hello');
+        mockClient.subscribe.mockImplementation((_key: string, cb: () => void) => {
+            notify = cb;
+            return () => { };
+        });
+
+        const { result } = renderHook(() => useSyncedText('doc'), { wrapper });
+        expect(result.current[0]).toBe('hello');
+
+        await act(async () => {
+            await result.current[1].splice(0, 5, 'howdy');
+        });
+        expect(mockClient.textDelete).toHaveBeenCalledWith('doc', 0, 5);
+        expect(mockClient.textInsert).toHaveBeenCalledWith('doc', 0, 'howdy');
+
+        mockClient.get.mockReturnValue('howdy');
+        act(() => notify());
+        expect(result.current[0]).toBe('howdy');
+    });
+
+    it('useSyncedCounter should read the count and delegate increments', () => {
+        mockClient.get.mockReturnValue(3);
+        const { result } = renderHook(() => useSyncedCounter('likes'), { wrapper });
+        expect(result.current[0]).toBe(3);
+
+        act(() => {
+            result.current[1].increment();
+            result.current[1].decrement(2);
+        });
+        expect(mockClient.increment).toHaveBeenCalledWith('likes', 1);
+        expect(mockClient.increment).toHaveBeenCalledWith('likes', -2);
     });
 
     describe('useSyncedDict', () => {
         it('should load initial data with dot separator', () => {
-            mockClient.getAllValues.mockReturnValue({
+            seed({
                 'config.theme': 'dark',
                 'config.zoom': 1.5,
                 'other.key': 'stay',
@@ -155,23 +230,17 @@ describe('Collections Hooks', () => {
         });
 
         it('should update on op events with dot separator', () => {
-            let opHandler: any;
-            mockClient.on.mockImplementation((event, cb) => {
-                if (event === 'op') opHandler = cb;
-                return () => { };
-            });
-
             const { result } = renderHook(() => useSyncedDict<any>('config'), { wrapper });
 
             act(() => {
-                if (opHandler) opHandler('config.theme', 'light');
+                emitOp('config.theme', 'light');
             });
 
             expect(result.current[0].theme).toBe('light');
         });
 
         it('should perform delta-sync on local updates', () => {
-            mockClient.getAllValues.mockReturnValue({
+            seed({
                 'config.theme': 'dark',
                 'config.zoom': 1.5,
             });
@@ -189,7 +258,7 @@ describe('Collections Hooks', () => {
         });
 
         it('should handle deletions', () => {
-            mockClient.getAllValues.mockReturnValue({
+            seed({
                 'config.theme': 'dark',
             });
 
@@ -208,23 +277,12 @@ describe('Collections Hooks', () => {
 
         it('should re-sync when ready event fires after mount (race condition fix)', () => {
             let readyHandler: Function | null = null;
-            let opHandler: any = null;
-
-            // Mock: getAllValues returns empty initially, then populated after ready
-            let isReady = false;
-            mockClient.getAllValues.mockImplementation(() => {
-                if (isReady) {
-                    return {
-                        'state.status': 'RUNNING',
-                        'state.count': 42,
-                    };
-                }
-                return {}; // Empty before Init
-            });
+
+            // Mock: the store is empty until Init arrives
+            seed({});
 
             mockClient.on.mockImplementation((event, cb) => {
                 if (event === 'ready') readyHandler = cb;
-                if (event === 'op') opHandler = cb;
                 return () => { };
             });
 
@@ -235,7 +293,10 @@ describe('Collections Hooks', () => {
 
             // Simulate server sending Init -> client becomes ready
             act(() => {
-                isReady = true;
+                seed({
+                    'state.status': 'RUNNING',
+                    'state.count': 42,
+                });
                 if (readyHandler) readyHandler();
             });
 
@@ -247,13 +308,7 @@ describe('Collections Hooks', () => {
         });
 
         it('should receive ops even before ready event', () => {
-            let opHandler: any = null;
-
-            mockClient.getAllValues.mockReturnValue({});
-            mockClient.on.mockImplementation((event, cb) => {
-                if (event === 'op') opHandler = cb;
-                return () => { };
-            });
+            seed({});
 
             const { result } = renderHook(() => useSyncedDict<any>('state'), { wrapper });
 
@@ -262,7 +317,7 @@ describe('Collections Hooks', () => {
 
             // Simulate receiving an op before ready
             act(() => {
-                if (opHandler) opHandler('state.status', 'SIGNALING');
+                emitOp('state.status', 'SIGNALING');
             });
 
             // Should have the individual op
@@ -274,7 +329,7 @@ describe('Collections Hooks', () => {
         it('should not duplicate state on multiple ready events', () => {
             let readyHandler: Function | null = null;
 
-            mockClient.getAllValues.mockReturnValue({
+            seed({
                 'state.flag': true,
             });
 
@@ -307,15 +362,15 @@ describe('Collections Hooks', () => {
 
             mockClient.on.mockImplementation((event) => {
                 if (event === 'ready') return unsubReady;
-                if (event === 'op') return unsubOp;
                 return () => { };
             });
+            mockClient.subscribePrefix.mockImplementation(() => unsubOp);
 
             const { unmount } = renderHook(() => useSyncedDict<any>('state'), { wrapper });
 
             // Both subscriptions should be established
             expect(mockClient.on).toHaveBeenCalledWith('ready', expect.any(Function));
-            expect(mockClient.on).toHaveBeenCalledWith('op', expect.any(Function));
+            expect(mockClient.subscribePrefix).toHaveBeenCalledWith('state.', expect.any(Function));
 
             // Unmount
             unmount();
@@ -327,13 +382,10 @@ describe('Collections Hooks', () => {
 
         it('should handle Init arriving with partial data then ops completing it', () => {
             let readyHandler: Function | null = null;
-            let opHandler: any = null;
-            let initData = { 'state.a': 1 };
+            seed({ 'state.a': 1 });
 
-            mockClient.getAllValues.mockImplementation(() => initData);
             mockClient.on.mockImplementation((event, cb) => {
                 if (event === 'ready') readyHandler = cb;
-                if (event === 'op') opHandler = cb;
                 return () => { };
             });
 
@@ -350,23 +402,18 @@ describe('Collections Hooks', () => {
 
             // Now receive an op that adds more data
             act(() => {
-                if (opHandler) opHandler('state.b', 2);
+                emitOp('state.b', 2);
             });
 
             expect(result.current[0]).toEqual({ a: 1, b: 2 });
         });
 
         it('should not trigger re-render when op delivers identical object value (shallow comparison bug)', () => {
-            let opHandler: any = null;
             let renderCount = 0;
 
-            mockClient.getAllValues.mockReturnValue({
+            seed({
                 'state.data': { x: 1, y: 2 },
             });
-            mockClient.on.mockImplementation((event, cb) => {
-                if (event === 'op') opHandler = cb;
-                return () => { };
-            });
 
             const { result } = renderHook(() => {
                 renderCount++;
@@ -380,7 +427,7 @@ describe('Collections Hooks', () => {
 
             // Simulate op with IDENTICAL value (same content, different object reference)
             act(() => {
-                if (opHandler) opHandler('state.data', { x: 1, y: 2 });
+                emitOp('state.data', { x: 1, y: 2 });
             });
 
             // After fix: shallowEqual should detect identical values and skip state update
@@ -394,17 +441,11 @@ describe('Collections Hooks', () => {
         });
 
         it('should handle useSyncedDict with empty prefix', () => {
-            mockClient.getAllValues.mockReturnValue({
+            seed({
                 'key1': 'val1',
                 'key2': 'val2'
             });
 
-            let opHandler: any;
-            mockClient.on.mockImplementation((event, cb) => {
-                if (event === 'op') opHandler = cb;
-                return () => { };
-            });
-
             const { result } = renderHook(() => useSyncedDict<any>(''), { wrapper });
 
             // Initial load (prefix empty)
@@ -415,7 +456,7 @@ describe('Collections Hooks', () => {
 
             // Op update (prefix empty)
             act(() => {
-                if (opHandler) opHandler('key3', 'val3');
+                emitOp('key3', 'val3');
             });
 
             expect(result.current[0].key3).toBe('val3');
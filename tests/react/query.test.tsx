@@ -0,0 +1,74 @@
+/**
+ * @vitest-environment happy-dom
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import React from 'react';
+import { useSyncedQuery } from '../../src/react/hooks';
+import { NMeshedProvider } from '../../src/react/context';
+import { createMockClient } from '../test-utils';
+
+const mockClient = createMockClient();
+
+vi.mock('../../src/client', () => {
+    return {
+        NMeshedClient: vi.fn(function () { return mockClient; }),
+    };
+});
+
+const wrapper = ({ children }: { children: React.ReactNode }) => (
+    <NMeshedProvider workspaceId="test-ws" token="test-token" debug={false}>
+        {children}
+    </NMeshedProvider>
+);
+
+describe('useSyncedQuery', () => {
+    let notify: () => void;
+    let query: { getResults: ReturnType<typeof vi.fn>; subscribe: ReturnType<typeof vi.fn>; destroy: ReturnType<typeof vi.fn> };
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        mockClient.on.mockImplementation(() => () => { });
+        notify = () => { };
+        query = {
+            getResults: vi.fn(() => [1]),
+            subscribe: vi.fn((cb: () => void) => { notify = cb; return () => { }; }),
+            destroy: vi.fn(),
+        };
+        mockClient.query.mockReturnValue(query);
+    });
+
+    it('should render the live results and destroy the query on unmount', () => {
+        const { result, unmount } = renderHook(
+            () => useSyncedQuery<number>({ prefix: 'scores.', where: n => n > 0, orderBy: (a, b) => b - a, limit: 3 }),
+            { wrapper }
+        );
+        expect(mockClient.query).toHaveBeenCalledWith(expect.objectContaining({ prefix: 'scores.', limit: 3 }));
+        expect(result.current).toEqual([1]);
+
+        query.getResults.mockReturnValue([2, 1]);
+        act(() => notify());
+        expect(result.current).toEqual([2, 1]);
+
+        unmount();
+        expect(query.destroy).toHaveBeenCalled();
+    });
+
+    it('should keep the query across renders with inline functions and rerun on deps', () => {
+        let min = 0;
+        const { rerender } = renderHook(
+            () => useSyncedQuery<{ score: number }>({ prefix: 'scores.', where: s => s.score > min, orderBy: { field: 'score' } }, [min]),
+            { wrapper }
+        );
+        rerender();
+        expect(mockClient.query).toHaveBeenCalledTimes(1);
+
+        const { where } = mockClient.query.mock.calls[0][0]!;
+        expect(where!({ score: 1 }, 'scores.a')).toBe(true);
+
+        min = 5;
+        rerender();
+        expect(mockClient.query).toHaveBeenCalledTimes(2);
+        expect(query.destroy).toHaveBeenCalledTimes(1);
+    });
+});
@@ -128,7 +128,7 @@ describe('useSyncedStore', () => {
     beforeEach(() => {
         vi.clearAllMocks();
         mockClient.on.mockImplementation(() => () => { });
-        mockClient.getAllValues.mockReturnValue({});
+        mockClient.getByPrefix.mockReturnValue({});
     });
 
     const boardSchema = z.object({
@@ -136,7 +136,7 @@ describe('useSyncedStore', () => {
     });
 
     it('should return default value when raw is undefined', () => {
-        mockClient.getAllValues.mockReturnValue({});
+        mockClient.getByPrefix.mockReturnValue({});
 
         const { result } = renderHook(
             () => useSyncedStore('board', boardSchema, { columns: [] }),
@@ -152,7 +152,7 @@ describe('useSyncedStore', () => {
     });
 
     it('should validate data against schema', () => {
-        mockClient.getAllValues.mockReturnValue({
+        mockClient.getByPrefix.mockReturnValue({
             'board.columns': [{ id: '1', title: 'Todo' }]
         });
 
@@ -166,7 +166,7 @@ describe('useSyncedStore', () => {
     });
 
     it('should return error on invalid data', () => {
-        mockClient.getAllValues.mockReturnValue({
+        mockClient.getByPrefix.mockReturnValue({
             'board.columns': 'invalid-not-array'
         });
 
@@ -180,7 +180,7 @@ describe('useSyncedStore', () => {
     });
 
     it('should support setValue with function updater', () => {
-        mockClient.getAllValues.mockReturnValue({});
+        mockClient.getByPrefix.mockReturnValue({});
         mockClient.on.mockImplementation(() => () => { });
 
         const { result } = renderHook(
@@ -200,7 +200,7 @@ describe('useSyncedStore', () => {
     });
 
     it('should support setValue with direct value', () => {
-        mockClient.getAllValues.mockReturnValue({});
+        mockClient.getByPrefix.mockReturnValue({});
         mockClient.on.mockImplementation(() => () => { });
 
         const { result } = renderHook(
@@ -0,0 +1,57 @@
+/**
+ * @vitest-environment happy-dom
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import React from 'react';
+import { useUndo } from '../../src/react/hooks';
+import { NMeshedProvider } from '../../src/react/context';
+import { createMockClient } from '../test-utils';
+
+const mockClient = createMockClient();
+
+vi.mock('../../src/client', () => {
+    return {
+        NMeshedClient: vi.fn(function () { return mockClient; }),
+    };
+});
+
+const wrapper = ({ children }: { children: React.ReactNode }) => (
+    <NMeshedProvider workspaceId="test-ws" token="test-token" debug={false}>
+        {children}
+    </NMeshedProvider>
+);
+
+describe('useUndo', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        mockClient.on.mockImplementation(() => () => { });
+    });
+
+    it('should expose the manager state and re-render on changes', () => {
+        let notify = () => { };
+        const manager = {
+            undo: vi.fn(async () => true),
+            redo: vi.fn(async () => true),
+            canUndo: vi.fn(() => false),
+            canRedo: vi.fn(() => false),
+            subscribe: vi.fn((cb: () => void) => { notify = cb; return () => { }; }),
+            destroy: vi.fn(),
+        };
+        mockClient.createUndoManager.mockReturnValue(manager);
+
+        const { result, unmount } = renderHook(() => useUndo('board.'), { wrapper });
+        expect(mockClient.createUndoManager).toHaveBeenCalledWith({ prefix: 'board.' });
+        expect(result.current.canUndo).toBe(false);
+
+        manager.canUndo.mockReturnValue(true);
+        act(() => notify());
+        expect(result.current.canUndo).toBe(true);
+
+        act(() => result.current.undo());
+        expect(manager.undo).toHaveBeenCalled();
+
+        unmount();
+        expect(manager.destroy).toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,248 @@
+/**
+ * Schema Migration Tests
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { z } from 'zod';
+import { SyncEngine } from '../src/engine';
+import { NMeshedClient } from '../src/client';
+import { SchemaRegistry, SchemaError, unwrapSchema } from '../src/schemas';
+import { HLC } from '../src/hlc';
+import { InMemoryAdapter } from '../src/adapters/InMemoryAdapter';
+import { encodeValue } from '../src/protocol';
+import { makeElementId, toEnvelope } from '../src/crdt';
+
+// v1: { name }  ->  v2: { first, last }  ->  v3: { first, last, initials }
+const Profile = z.object({ first: z.string(), last: z.string(), initials: z.string() });
+const migrate = (fromVersion: number, value: any) => {
+    if (fromVersion === 1) {
+        const [first, last = ''] = value.name.split(' ');
+        return { first, last };
+    }
+    return { ...value, initials: `${value.first[0]}${value.last[0] ?? ''}` };
+};
+const registry = () => new SchemaRegistry({ profile: { schema: Profile, version: 3, migrate }, title: z.string() });
+
+describe('SchemaRegistry', () => {
+    it('migrates one version at a time, treating bare values as version 1', () => {
+        const upgraded = registry().upgrade('profile', { name: 'Ada Lovelace' });
+
+        expect(upgraded).toEqual({ first: 'Ada', last: 'Lovelace', initials: 'AL' });
+    });
+
+    it('starts from the version recorded in the envelope', () => {
+        const step = vi.fn(migrate);
+        const schemas = new SchemaRegistry({ profile: { schema: Profile, version: 3, migrate: step } });
+
+        schemas.upgrade('profile', { __nmeshed: 'schema', version: 2, value: { first: 'Ada', last: 'L' } });
+
+        expect(step).toHaveBeenCalledTimes(1);
+        expect(step).toHaveBeenCalledWith(2, { first: 'Ada', last: 'L' });
+    });
+
+    it('tags written values with the registered version, leaving version 1 values bare', () => {
+        const schemas = registry();
+
+        expect(schemas.wrap('profile', { first: 'Ada' })).toEqual({ __nmeshed: 'schema', version: 3, value: { first: 'Ada' } });
+        expect(schemas.wrap('title', 'Notes')).toBe('Notes');
+        expect(schemas.wrap('other', 'x')).toBe('x');
+        expect(schemas.wrap('profile', null)).toBeNull();
+    });
+
+    it('reads user objects with a numeric __schema field as plain values', () => {
+        const value = { __schema: 2, value: 'kept' };
+
+        expect(unwrapSchema(value)).toEqual({ value, version: 1 });
+    });
+});
+
+describe('Engine migrations', () => {
+    const ada = { first: 'Ada', last: 'Lovelace', initials: 'AL' };
+
+    it('records the version with every local write', async () => {
+        const engine = new SyncEngine('peer-a', new InMemoryAdapter(), false, undefined, { schemas: registry() });
+        const outbound = vi.fn();
+        engine.on('outbound', outbound);
+
+        await engine.set('profile', ada);
+
+        expect(outbound.mock.calls[0][0][0].value).toEqual({ __nmeshed: 'schema', version: 3, value: ada });
+        expect(engine.get('profile')).toEqual(ada);
+    });
+
+    it('migrates old values from remote ops', async () => {
+        const engine = new SyncEngine('peer-a', new InMemoryAdapter(), false, undefined, { schemas: registry() });
+
+        await engine.applyRemote('profile', encodeValue({ name: 'Ada Lovelace' }), 'old-peer');
+
+        expect(engine.get('profile')).toEqual(ada);
+    });
+
+    it('migrates values persisted before the schema changed', async () => {
+        const storage = new InMemoryAdapter();
+        const before = new SyncEngine('peer-a', storage);
+        await before.set('profile', { name: 'Ada Lovelace' });
+        await before.compact();
+        await before.set('later', 1);
+
+        const after = new SyncEngine('peer-a', storage, false, undefined, { schemas: registry() });
+        await after.loadFromStorage();
+
+        expect(after.get('profile')).toEqual(ada);
+    });
+
+    it('migrates values from a server snapshot', async () => {
+        const engine = new SyncEngine('peer-a', new InMemoryAdapter(), false, undefined, { schemas: registry() });
+
+        await engine.loadSnapshot(encodeValue({ profile: { __nmeshed: 'schema', version: 2, value: { first: 'Ada', last: 'Lovelace' } } }));
+
+        expect(engine.get('profile')).toEqual(ada);
+    });
+
+    it('unwraps versioned values on peers without registered schemas', async () => {
+        const engine = new SyncEngine('peer-a', new InMemoryAdapter());
+
+        await engine.applyRemote('profile', encodeValue({ __nmeshed: 'schema', version: 3, value: ada }), 'new-peer');
+
+        expect(engine.get('profile')).toEqual(ada);
+    });
+
+    it('tags the whole value a per-path object starts from', async () => {
+        const engine = new SyncEngine('peer-a', new InMemoryAdapter(), false, undefined, { schemas: registry() });
+        await engine.set('profile', ada);
+        const outbound = vi.fn();
+        engine.on('outbound', outbound);
+
+        await engine.setPath('profile', ['last'], 'Byron');
+
+        const [base, edit] = outbound.mock.calls[0][0][0].value.delta.writes;
+        expect(base.value).toEqual({ __nmeshed: 'schema', version: 3, value: ada });
+        expect(edit.value).toBe('Byron');
+        expect(engine.get('profile')).toEqual({ ...ada, last: 'Byron' });
+    });
+
+    it('migrates the whole-value write of a remote per-path object', async () => {
+        const engine = new SyncEngine('peer-a', new InMemoryAdapter(), false, undefined, { schemas: registry() });
+        const timestamp = HLC.pack(BigInt(Date.now()), 0n, 0n);
+        const delta = { writes: [{ path: [], id: makeElementId(timestamp, 'old-peer'), value: { name: 'Ada Lovelace' } }] };
+
+        await engine.applyRemote('profile', encodeValue(toEnvelope('object', delta)), 'old-peer', timestamp);
+
+        expect(engine.get('profile')).toEqual(ada);
+    });
+});
+
+describe('Schema enforcement', () => {
+    const Task = z.object({ title: z.string(), done: z.boolean() });
+    const schemas = () => new SchemaRegistry({ task: Task });
+    let errors: Error[];
+
+    const engineWithSchemas = () => {
+        const engine = new SyncEngine('peer-a', new InMemoryAdapter(), false, undefined, { schemas: schemas() });
+        errors = [];
+        engine.on('error', e => errors.push(e));
+        return engine;
+    };
+
+    it('refuses local writes that do not match', async () => {
+        const engine = engineWithSchemas();
+
+        await expect(engine.set('task', { title: 42 })).rejects.toBeInstanceOf(SchemaError);
+        await expect(engine.cas('task', null, { done: 'yes' })).rejects.toBeInstanceOf(SchemaError);
+        await expect(engine.transaction(tx => {
+            tx.set('other', 1);
+            tx.set('task', 'nope');
+        })).rejects.toBeInstanceOf(SchemaError);
+
+        expect(engine.getAllValues()).toEqual({});
+        expect(errors[0]).toMatchObject({ key: 'task', source: 'local' });
+        expect((errors[0] as SchemaError).issues[0].path).toEqual(['title']);
+    });
+
+    it('checks per-path writes against the whole object they produce', async () => {
+        const engine = engineWithSchemas();
+        await engine.set('task', { title: 'Ship', done: false });
+
+        await expect(engine.setPath('task', ['done'], 'yes')).rejects.toBeInstanceOf(SchemaError);
+        await expect(engine.deletePath('task', ['title'])).rejects.toBeInstanceOf(SchemaError);
+        await engine.setPath('task', ['done'], true);
+
+        expect(engine.get('task')).toEqual({ title: 'Ship', done: true });
+        expect(errors).toHaveLength(2);
+    });
+
+    it('still accepts valid writes and deletes', async () => {
+        const engine = engineWithSchemas();
+
+        await engine.set('task', { title: 'Ship', done: false });
+        await engine.delete('task');
+
+        expect(engine.get('task')).toBeNull();
+    });
+
+    it('quarantines invalid remote values instead of applying them', async () => {
+        const engine = engineWithSchemas();
+        await engine.set('task', { title: 'Ship', done: false });
+        const ts = HLC.pack(BigInt(Date.now() + 1000), 0n, 0n);
+
+        await engine.applyRemote('task', encodeValue({ title: null }), 'peer-b', ts);
+
+        expect(engine.get('task')).toEqual({ title: 'Ship', done: false });
+        expect(engine.getQuarantined()).toEqual([
+            expect.objectContaining({ key: 'task', value: { title: null }, peerId: 'peer-b', timestamp: ts }),
+        ]);
+        expect(errors[0]).toMatchObject({ key: 'task', source: 'remote' });
+    });
+
+    it('drops a whole remote transaction when one of its writes is invalid', async () => {
+        const engine = engineWithSchemas();
+        const onTx = vi.fn();
+        engine.on('transaction', onTx);
+
+        await engine.applyRemoteBatch([
+            { key: 'other', payload: encodeValue('applied?'), peerId: 'peer-b', timestamp: 10n },
+            { key: 'task', payload: encodeValue({ title: null }), peerId: 'peer-b', timestamp: 10n },
+        ]);
+        await engine.applyRemote('next', encodeValue(1), 'peer-b', 11n, ['task:10:peer-b']);
+
+        expect(engine.get('other')).toBeUndefined();
+        expect(engine.get('task')).toBeUndefined();
+        expect(engine.getQuarantined()).toEqual([expect.objectContaining({ key: 'task', value: { title: null } })]);
+        expect(onTx).not.toHaveBeenCalled();
+        // Its writes still count as delivered
+        expect(engine.get('next')).toBe(1);
+        expect(engine.hasGap()).toBe(false);
+    });
+
+    it('releases the quarantine slot once a newer valid value arrives', async () => {
+        const engine = engineWithSchemas();
+        const at = (offset: number) => HLC.pack(BigInt(Date.now() + offset), 0n, 0n);
+
+        await engine.applyRemote('task', encodeValue('garbage'), 'peer-b', at(0));
+        await engine.applyRemote('task', encodeValue({ title: 'Fixed', done: true }), 'peer-b', at(1000));
+
+        expect(engine.get('task')).toEqual({ title: 'Fixed', done: true });
+        expect(engine.getQuarantined()).toEqual([]);
+    });
+
+    it('quarantines invalid values from a server snapshot', async () => {
+        const engine = engineWithSchemas();
+
+        await engine.loadSnapshot(encodeValue({ task: { title: 'Half' }, note: 'kept' }));
+
+        expect(engine.getAllValues()).toEqual({ note: 'kept' });
+        expect(engine.getQuarantined()[0]).toMatchObject({ key: 'task', peerId: 'SNAPSHOT' });
+    });
+
+    it('throws from client.set before anything is written', () => {
+        const client = new NMeshedClient({
+            workspaceId: 'test', token: 'token', connectJitter: 0, storage: new InMemoryAdapter(),
+            initialSnapshot: encodeValue({}), schemas: { task: Task },
+        });
+
+        expect(() => client.set('task', { title: 'Ship' })).toThrow(SchemaError);
+        expect(client.get('task')).toBeUndefined();
+        expect(client.getQuarantined()).toEqual([]);
+        client.disconnect();
+    });
+});
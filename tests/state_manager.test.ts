@@ -0,0 +1,172 @@
+/**
+ * Speculative State Tests
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { SyncEngine } from '../src/engine';
+import { SpeculativeStateManager } from '../src/state_manager';
+import { HLC } from '../src/hlc';
+import { InMemoryAdapter } from '../src/adapters/InMemoryAdapter';
+import { encodeAck, encodeValue, decodeMessage, MsgType } from '../src/protocol';
+import { createTestClient, createTestTransport } from './test-utils';
+import type { RollbackChange } from '../src/types';
+
+describe('SpeculativeStateManager', () => {
+    type Entry = { value: string; timestamp: bigint; peerId: string };
+    const entry = (value: string, timestamp: number, peerId = 'me'): Entry => ({ value, timestamp: BigInt(timestamp), peerId });
+
+    let manager: SpeculativeStateManager<Entry, string>;
+
+    beforeEach(() => {
+        manager = new SpeculativeStateManager<Entry, string>();
+    });
+
+    it('rebases a rejected op on the committed entry and the remaining ops', () => {
+        manager.applyLocalChange('a', 'k', entry('a', 2), 'op-a', entry('base', 1, 'server'));
+        manager.applyLocalChange('b', 'k', entry('b', 3), 'op-b');
+
+        expect(manager.handleVerificationFailure('b')).toMatchObject({ key: 'k', op: 'op-b', view: { value: 'a' } });
+        expect(manager.handleVerificationFailure('a')).toMatchObject({ view: { value: 'base' } });
+        expect(manager.isSpeculative('k')).toBe(false);
+    });
+
+    it('promotes a confirmed op, which then survives later rejections', () => {
+        manager.applyLocalChange('a', 'k', entry('a', 2), 'op-a');
+        manager.applyLocalChange('b', 'k', entry('b', 3), 'op-b');
+
+        expect(manager.handleVerificationSuccess('a')).toBe(true);
+        expect(manager.handleVerificationFailure('a')).toBeNull();
+        expect(manager.handleVerificationFailure('b')).toMatchObject({ view: { value: 'a' } });
+    });
+
+    it('reveals the newest observed remote entry', () => {
+        manager.applyLocalChange('a', 'k', entry('a', 5), 'op-a');
+        manager.observe('k', entry('remote', 3, 'peer-b'));
+        manager.observe('k', entry('stale', 2, 'peer-b'));
+
+        expect(manager.handleVerificationFailure('a')).toMatchObject({ view: { value: 'remote' } });
+    });
+
+    it('treats the oldest ops as confirmed past its capacity', () => {
+        const capped = new SpeculativeStateManager<Entry, string>(1);
+        capped.applyLocalChange('a', 'k', entry('a', 1), 'op-a');
+        capped.applyLocalChange('b', 'k', entry('b', 2), 'op-b');
+
+        expect(capped.handleVerificationFailure('a')).toBeNull();
+        expect(capped.handleVerificationFailure('b')).toMatchObject({ view: { value: 'a' } });
+    });
+});
+
+describe('Engine speculation', () => {
+    let engine: SyncEngine;
+    let rollbacks: RollbackChange[];
+    let sent: bigint[];
+
+    beforeEach(() => {
+        engine = new SyncEngine('peer-a', new InMemoryAdapter());
+        rollbacks = [];
+        sent = [];
+        engine.on('rollback', change => rollbacks.push(change));
+        engine.on('error', () => { });
+        engine.on('outbound', ops => sent.push(ops[0].timestamp));
+    });
+
+    it('emits rollback with the rejected and the rebased value', async () => {
+        await engine.set('title', 'draft');
+        await engine.set('title', 'hijacked');
+
+        engine.reject('title', sent[1], 'read-only');
+
+        expect(rollbacks).toEqual([{ key: 'title', from: 'hijacked', to: 'draft', reason: 'read-only' }]);
+    });
+
+    it('does not emit rollback when a newer pending op stays visible', async () => {
+        await engine.set('title', 'a');
+        await engine.set('title', 'b');
+
+        engine.reject('title', sent[0]);
+
+        expect(engine.get('title')).toBe('b');
+        expect(rollbacks).toEqual([]);
+    });
+
+    it('reveals a remote write that lost to the rejected op', async () => {
+        await engine.set('title', 'mine');
+        const older = HLC.pack(HLC.unpack(sent[0]).wall - 1000n, 0n, 0n);
+        await engine.applyRemote('title', encodeValue('theirs'), 'peer-b', older);
+        expect(engine.get('title')).toBe('mine');
+
+        engine.reject('title', sent[0]);
+
+        expect(engine.get('title')).toBe('theirs');
+        expect(rollbacks[0]).toMatchObject({ from: 'mine', to: 'theirs' });
+    });
+
+    it('stops tracking and resending a confirmed op', async () => {
+        await engine.set('title', 'a');
+        await engine.set('title', 'b');
+
+        engine.confirm('title', sent[0]);
+        expect(engine.getPendingCount()).toBe(1);
+
+        engine.reject('title', sent[0]);
+        engine.reject('title', sent[1]);
+
+        expect(engine.get('title')).toBe('a');
+        expect(rollbacks).toEqual([{ key: 'title', from: 'b', to: 'a', reason: undefined }]);
+    });
+
+    it('takes a rejected edit out of a list, keeping the others and remote edits', async () => {
+        await engine.listInsert('todo', 0, 'milk');
+        engine.confirm('todo', sent[0]);
+        await engine.listInsert('todo', 1, 'spam');
+        await engine.listInsert('todo', 1, 'eggs');
+
+        const other = new SyncEngine('peer-b', new InMemoryAdapter());
+        other.on('outbound', ([op]) => engine.applyRemote(op.key, encodeValue(op.value), op.peerId, op.timestamp));
+        await other.listInsert('todo', 0, 'bread');
+        await vi.waitFor(() => expect(engine.get('todo')).toHaveLength(4));
+
+        engine.reject('todo', sent[1], 'read-only');
+
+        expect([...engine.get<string[]>('todo')!].sort()).toEqual(['bread', 'eggs', 'milk']);
+        expect(rollbacks).toEqual([{ key: 'todo', from: expect.arrayContaining(['spam']), to: engine.get('todo'), reason: 'read-only' }]);
+    });
+
+    it('takes a rejected increment out of a counter', async () => {
+        await engine.increment('votes', 1);
+        engine.confirm('votes', sent[0]);
+        await engine.increment('votes', 5);
+
+        engine.reject('votes', sent[1]);
+
+        expect(engine.get('votes')).toBe(1);
+        expect(rollbacks).toEqual([{ key: 'votes', from: 6, to: 1, reason: undefined }]);
+    });
+
+    it('removes a typed key whose only edit is rejected', async () => {
+        await engine.listInsert('todo', 0, 'spam');
+
+        engine.reject('todo', sent[0]);
+
+        expect(engine.get('todo')).toBeNull();
+        expect(rollbacks).toEqual([{ key: 'todo', from: ['spam'], to: null, reason: undefined }]);
+    });
+
+    it('routes an Ack packet from the server to the engine', () => {
+        const transport = createTestTransport(false);
+        const client = createTestClient({}, transport);
+        const confirm = vi.spyOn(SyncEngine.prototype, 'confirm');
+        let timestamp = 0n;
+        client.on('op', (_key, _value, _isLocal, ts) => { timestamp = ts!; });
+
+        client.set('title', 'draft');
+        const packet = encodeAck('title', timestamp, 'peer-a');
+        expect(decodeMessage(packet)).toMatchObject({ type: MsgType.Ack, key: 'title', timestamp });
+        transport.deliver(packet);
+
+        expect(confirm).toHaveBeenCalledWith('title', timestamp);
+        confirm.mockRestore();
+        client.disconnect();
+    });
+});
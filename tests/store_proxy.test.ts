@@ -8,14 +8,21 @@ import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { z } from 'zod';
 import { createProxy } from '../src/StoreProxy';
 import { SyncEngine } from '../src/engine';
+import { InMemoryAdapter } from '../src/adapters/InMemoryAdapter';
+import { AESGCMAdapter } from '../src/encryption';
+import { encodeValue } from '../src/protocol';
+import { SchemaRegistry, SchemaError } from '../src/schemas';
+import type { Operation } from '../src/types';
 
 // Mock Engine
 class MockEngine {
     state = new Map<string, any>();
-    set = vi.fn((key: string, value: any) => {
+    set = vi.fn(async (key: string, value: any) => {
         this.state.set(key, value);
         return new Uint8Array();
     });
+    setPath = vi.fn(async (_key: string, _path: string[], _value: unknown) => { });
+    deletePath = vi.fn(async (_key: string, _path: string[]) => { });
     get = vi.fn((key: string) => this.state.get(key));
 }
 
@@ -83,7 +90,7 @@ describe('StoreProxy', () => {
     });
 
     describe('Object Traps', () => {
-        it('should intercept assignment and trigger engine.set', () => {
+        it('should intercept assignment and sync only the written path', () => {
             const proxy = createProxy<Record<string, any>>(engine as any as SyncEngine, 'settings', z.object({}));
 
             // Action
@@ -93,7 +100,23 @@ describe('StoreProxy', () => {
             expect(proxy.theme).toBe('dark');
 
             // Verify sync
-            expect(engine.set).toHaveBeenCalledWith('settings', expect.objectContaining({ theme: 'dark' }));
+            expect(engine.setPath).toHaveBeenCalledWith('settings', ['theme'], 'dark');
+            expect(engine.set).not.toHaveBeenCalled();
+        });
+
+        it('should sync nested writes at their full path', () => {
+            engine.state.set('board', { tasks: { t1: { title: 'old', done: false } }, tags: ['a'] });
+            const proxy = createProxy<Record<string, any>>(engine as any as SyncEngine, 'board', z.object({}));
+
+            proxy.tasks.t1.title = 'new';
+            expect(engine.setPath).toHaveBeenCalledWith('board', ['tasks', 't1', 'title'], 'new');
+
+            delete proxy.tasks.t1.done;
+            expect(engine.deletePath).toHaveBeenCalledWith('board', ['tasks', 't1', 'done']);
+
+            // Nested arrays are synced whole at their own path
+            proxy.tags.push('b');
+            expect(engine.setPath).toHaveBeenCalledWith('board', ['tags'], ['a', 'b']);
         });
 
         it('should handle nested property access', () => {
@@ -114,23 +137,71 @@ describe('StoreProxy', () => {
             expect(frozen).toEqual({ immutable: true });
         });
 
-        it('BUG: should intercept delete and trigger engine.set (sync the removal)', () => {
-            // BUG: StoreProxy doesn't have deleteProperty trap!
-            // This causes usePresence cleanup to only work locally
+        it('should intercept delete and sync the removal', () => {
             const proxy = createProxy<Record<string, any>>(engine as any as SyncEngine, 'presence', z.object({}));
 
             // Set a value first
             proxy.peer1 = { x: 1, y: 2 };
-            expect(engine.set).toHaveBeenCalledTimes(1);
-            engine.set.mockClear();
+            expect(engine.setPath).toHaveBeenCalledTimes(1);
 
             // Delete the value
             delete proxy.peer1;
 
-            // BUG: This should trigger engine.set to sync the deletion
-            // Currently it only mutates locally - other peers never see it!
-            expect(engine.set).toHaveBeenCalledTimes(1);
-            expect(engine.set).toHaveBeenCalledWith('presence', expect.not.objectContaining({ peer1: expect.anything() }));
+            expect(engine.deletePath).toHaveBeenCalledTimes(1);
+            expect(engine.deletePath).toHaveBeenCalledWith('presence', ['peer1']);
+            expect(proxy).toEqual({});
+        });
+    });
+
+    describe('Live reads', () => {
+        const relay = async (ops: Operation[], to: SyncEngine) => {
+            for (const op of ops) await to.applyRemote(op.key, encodeValue(op.value), op.peerId, op.timestamp);
+        };
+
+        it('should show remote per-path merges through an existing proxy', async () => {
+            const alice = new SyncEngine('alice', new InMemoryAdapter());
+            const bob = new SyncEngine('bob', new InMemoryAdapter());
+            const sent: Operation[] = [];
+            bob.on('outbound', ops => sent.push(...ops));
+            const board = createProxy<Record<string, any>>(alice, 'board', z.object({}));
+
+            board.title = 'Roadmap';
+            await bob.setPath('board', ['owner'], 'bob');
+            await relay(sent, alice);
+
+            expect(board.owner).toBe('bob');
+            expect(board).toEqual({ title: 'Roadmap', owner: 'bob' });
+        });
+
+        it('should take back a write the schema refuses', async () => {
+            const schemas = new SchemaRegistry({ board: z.object({ title: z.string() }) });
+            const engine = new SyncEngine('alice', new InMemoryAdapter(), false, undefined, { schemas });
+            const errors: Error[] = [];
+            engine.on('error', e => errors.push(e));
+            const board = createProxy<Record<string, any>>(engine, 'board', z.object({}));
+
+            board.title = 'Roadmap';
+            board.title = 42;
+            await new Promise(r => setTimeout(r, 0));
+
+            expect(board.title).toBe('Roadmap');
+            expect(engine.get('board')).toEqual({ title: 'Roadmap' });
+            expect(errors[0]).toBeInstanceOf(SchemaError);
+        });
+
+        it('should keep serving its own writes while E2EE encrypts them', async () => {
+            const encryption = new AESGCMAdapter('proxy-key');
+            await encryption.init();
+            const engine = new SyncEngine('alice', new InMemoryAdapter(), false, encryption);
+            const tasks = createProxy<string[]>(engine, 'tasks', z.array(z.string()));
+
+            tasks.push('a');
+            tasks.push('b');
+            expect([...tasks]).toEqual(['a', 'b']);
+
+            await new Promise(r => setTimeout(r, 20));
+            expect(engine.get('tasks')).toEqual(['a', 'b']);
+            expect([...tasks]).toEqual(['a', 'b']);
         });
     });
 });
@@ -59,7 +59,9 @@ export function teardownMockWebSocket() {
 // Mock Client Factory
 // =============================================================================
 
-import type { NMeshedClient } from '../src/client';
+import { NMeshedClient } from '../src/client';
+import { InMemoryAdapter } from '../src/adapters/InMemoryAdapter';
+import type { NMeshedConfig, Transport } from '../src/types';
 import type { Mocked } from 'vitest';
 
 export function createMockClient(): Mocked<NMeshedClient> {
@@ -73,6 +75,20 @@ export function createMockClient(): Mocked<NMeshedClient> {
         getPeerId: vi.fn(() => 'peer_test'),
         getAllValues: vi.fn(() => ({})),
         forEach: vi.fn(),
+        subscribe: vi.fn(() => () => { }),
+        subscribePrefix: vi.fn(() => () => { }),
+        getByPrefix: vi.fn(() => ({})),
+        listInsert: vi.fn(async () => 'item-id'),
+        listMove: vi.fn(async () => { }),
+        listRemove: vi.fn(async () => { }),
+        getListItems: vi.fn(() => []),
+        textInsert: vi.fn(async () => { }),
+        textDelete: vi.fn(async () => { }),
+        textAnchor: vi.fn(() => ({ after: null })),
+        resolveTextAnchor: vi.fn(() => 0),
+        increment: vi.fn(async () => { }),
+        createUndoManager: vi.fn(),
+        query: vi.fn(),
         awaitReady: vi.fn(),
         disconnect: vi.fn(),
 
@@ -93,3 +109,47 @@ export function createMockClient(): Mocked<NMeshedClient> {
         log: vi.fn(),
     } as unknown as Mocked<NMeshedClient>;
 }
+
+
+// =============================================================================
+// Test Transport & Client
+// =============================================================================
+
+/** A transport the test plays the server for: it reads `sent` and answers through `deliver`. */
+export interface TestTransport extends Transport {
+    /** Every packet the client sent, oldest first */
+    sent: Uint8Array[];
+    /** Hands a packet to the client as if the server had sent it */
+    deliver: (data: Uint8Array) => void;
+    /** What `isConnected()` reports */
+    connected: boolean;
+}
+
+export function createTestTransport(connected = true): TestTransport {
+    let receive: (data: Uint8Array) => void = () => { };
+    const transport: TestTransport = {
+        sent: [],
+        connected,
+        deliver: data => receive(data),
+        connect: async () => { },
+        disconnect: () => { },
+        reconnect: async () => { },
+        send: data => { transport.sent.push(data); },
+        onMessage: handler => { receive = handler; return () => { }; },
+        onOpen: () => () => { },
+        onClose: () => () => { },
+        isConnected: () => transport.connected,
+    };
+    return transport;
+}
+
+/** A client for `peer-a` over `transport`, with in-memory storage. */
+export function createTestClient(config: Partial<NMeshedConfig> = {}, transport: Transport = createTestTransport()): NMeshedClient {
+    return new NMeshedClient({
+        workspaceId: 'test', token: 'token', userId: 'peer-a', connectJitter: 0, transport,
+        storage: new InMemoryAdapter(), ...config,
+    });
+}
+
+/** Lets pending timers and promise callbacks run. */
+export const tick = () => new Promise(resolve => setTimeout(resolve, 0));
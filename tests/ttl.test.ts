@@ -0,0 +1,116 @@
+import { describe, test, expect, vi, beforeEach, afterEach } from 'vitest';
+import { SyncEngine } from '../src/engine';
+import { InMemoryAdapter } from '../src/adapters/InMemoryAdapter';
+
+describe('Key expiry (TTL)', () => {
+    let storage: InMemoryAdapter;
+
+    beforeEach(() => {
+        // Only the clock: storage and emit stay on real promises
+        vi.useFakeTimers({ toFake: ['Date'] });
+        vi.setSystemTime(1_700_000_000_000);
+        storage = new InMemoryAdapter();
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    test('an expired value is no longer returned', async () => {
+        const engine = new SyncEngine('NODE_A', storage);
+        await engine.set('presence.alice', { online: true }, { ttl: 1000 });
+        await engine.set('name', 'alice');
+
+        expect(engine.get('presence.alice')).toEqual({ online: true });
+
+        vi.advanceTimersByTime(1001);
+
+        expect(engine.get('presence.alice')).toBeUndefined();
+        expect(engine.getAllValues()).toEqual({ name: 'alice' });
+        expect(engine.getByPrefix('presence.')).toEqual({});
+    });
+
+    test('the expiry travels with the op, so peers expire it at the same time', async () => {
+        const alice = new SyncEngine('NODE_A', storage);
+        const bob = new SyncEngine('NODE_B', new InMemoryAdapter());
+
+        const payload = await alice.set('signal', 'ping', { ttl: 500 });
+        await bob.applyRemote('signal', payload, 'NODE_A');
+        expect(bob.get('signal')).toBe('ping');
+
+        vi.advanceTimersByTime(501);
+        expect(bob.get('signal')).toBeUndefined();
+    });
+
+    test('a plain write replaces the expiry', async () => {
+        const engine = new SyncEngine('NODE_A', storage);
+        await engine.set('status', 'away', { ttl: 100 });
+        await engine.set('status', 'here');
+
+        vi.advanceTimersByTime(200);
+        expect(engine.get('status')).toBe('here');
+    });
+
+    test('the expiry survives a reload', async () => {
+        const engine = new SyncEngine('NODE_A', storage);
+        await engine.set('chat.typing', true, { ttl: 1000 });
+
+        const reloaded = new SyncEngine('NODE_A', storage);
+        await reloaded.loadFromStorage();
+        expect(reloaded.get('chat.typing')).toBe(true);
+
+        vi.advanceTimersByTime(1001);
+        expect(reloaded.get('chat.typing')).toBeUndefined();
+    });
+
+    test('compact() removes expired values once they are past the stability window', async () => {
+        const engine = new SyncEngine('NODE_A', storage, false, undefined, { gc: { stabilityWindow: 1000 } });
+        await engine.set('stale', 1, { ttl: 100 });
+        await engine.set('fresh', 2, { ttl: 60_000 });
+
+        const gc = vi.fn();
+        engine.on('gc', gc);
+        vi.advanceTimersByTime(2000);
+        await engine.compact();
+
+        expect(gc).toHaveBeenCalledWith(expect.objectContaining({ collected: 1 }));
+        expect((engine as any).state.has('stale')).toBe(false);
+        expect(engine.get('fresh')).toBe(2);
+
+        const reloaded = new SyncEngine('NODE_A', storage);
+        await reloaded.loadFromStorage();
+        expect(reloaded.getAllValues()).toEqual({ fresh: 2 });
+    });
+
+    test('subscribers see the expiry as a delete', async () => {
+        vi.useFakeTimers({ toFake: ['Date', 'setTimeout', 'clearTimeout'] });
+        vi.setSystemTime(1_700_000_000_000);
+        const engine = new SyncEngine('NODE_A', storage);
+        const ops: unknown[] = [];
+        engine.on('op', (key, value) => ops.push([key, value]));
+
+        await engine.set('presence.alice', { online: true }, { ttl: 1000 });
+        await engine.set('status', 'away', { ttl: 1000 });
+        await engine.set('status', 'here');
+        vi.advanceTimersByTime(1001);
+
+        expect(ops).toEqual([
+            ['presence.alice', { online: true }],
+            ['status', 'away'],
+            ['status', 'here'],
+            ['presence.alice', null],
+        ]);
+    });
+
+    test('user objects are never read as a TTL envelope', async () => {
+        const alice = new SyncEngine('NODE_A', storage);
+        const bob = new SyncEngine('NODE_B', new InMemoryAdapter());
+        const lookalike = { __expires: '1', expires: '1', value: 'draft' };
+
+        await bob.applyRemote('doc', await alice.set('doc', lookalike), 'NODE_A');
+        vi.advanceTimersByTime(1000);
+
+        expect(bob.get('doc')).toEqual(lookalike);
+        await expect(alice.set('doc', { __nmeshed: 'ttl', value: 1 })).rejects.toThrow(/reserved/);
+    });
+});
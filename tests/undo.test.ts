@@ -0,0 +1,105 @@
+/**
+ * UndoManager Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { SyncEngine } from '../src/engine';
+import { UndoManager } from '../src/undo';
+import { InMemoryAdapter } from '../src/adapters/InMemoryAdapter';
+import { encodeValue } from '../src/protocol';
+import { HLC } from '../src/hlc';
+
+describe('UndoManager', () => {
+    let engine: SyncEngine;
+    let undo: UndoManager;
+
+    beforeEach(() => {
+        engine = new SyncEngine('alice', new InMemoryAdapter());
+        undo = new UndoManager(engine, { captureTimeout: 0 });
+    });
+
+    afterEach(() => undo.destroy());
+
+    it('should undo and redo a local set', async () => {
+        await engine.set('title', 'v1');
+        undo.stopCapturing();
+        await engine.set('title', 'v2');
+
+        expect(await undo.undo()).toBe(true);
+        expect(engine.get('title')).toBe('v1');
+        expect(undo.canRedo()).toBe(true);
+
+        await undo.redo();
+        expect(engine.get('title')).toBe('v2');
+    });
+
+    it('should delete keys that did not exist before the change', async () => {
+        await engine.set('draft', 'hello');
+        await undo.undo();
+        expect(engine.get('draft')).toBeNull();
+        expect(undo.canUndo()).toBe(false);
+    });
+
+    it('should group ops within the capture window', async () => {
+        const grouped = new UndoManager(engine, { captureTimeout: 10_000 });
+        await engine.set('a', 1);
+        await engine.set('b', 2);
+        await engine.set('a', 3);
+
+        await grouped.undo();
+        expect(engine.get('a')).toBeNull();
+        expect(engine.get('b')).toBeNull();
+        expect(grouped.canUndo()).toBe(false);
+        grouped.destroy();
+    });
+
+    it('should treat a transaction as one step', async () => {
+        await engine.set('todo', ['card']);
+        undo.stopCapturing();
+        await engine.transaction(tx => {
+            tx.set('todo', []);
+            tx.set('done', ['card']);
+        });
+
+        await undo.undo();
+        expect(engine.get('todo')).toEqual(['card']);
+        expect(engine.get('done')).toBeNull();
+    });
+
+    it('should never undo remote changes', async () => {
+        await engine.applyRemote('shared', encodeValue('from-bob'), 'bob');
+        expect(undo.canUndo()).toBe(false);
+        expect(await undo.undo()).toBe(false);
+    });
+
+    it('should leave a key alone if a remote peer overwrote the local change', async () => {
+        await engine.set('title', 'local');
+        const later = HLC.pack(BigInt(Date.now() + 1000), 0n, 0n);
+        await engine.applyRemote('title', encodeValue('remote'), 'bob', later);
+
+        await undo.undo();
+        expect(engine.get('title')).toBe('remote');
+    });
+
+    it('should only track keys under the prefix', async () => {
+        const scoped = new UndoManager(engine, { prefix: 'board.' });
+        await engine.set('other', 1);
+        expect(scoped.canUndo()).toBe(false);
+        await engine.set('board.title', 'x');
+        expect(scoped.canUndo()).toBe(true);
+        scoped.destroy();
+    });
+
+    it('should skip typed keys', async () => {
+        await engine.increment('likes');
+        expect(undo.canUndo()).toBe(false);
+    });
+
+    it('should clear redo history on a new local change', async () => {
+        await engine.set('x', 1);
+        await undo.undo();
+        expect(undo.canRedo()).toBe(true);
+        await engine.set('x', 2);
+        expect(undo.canRedo()).toBe(false);
+    });
+});